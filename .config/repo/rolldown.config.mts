@@ -1,10 +1,10 @@
 /**
- * @file Rolldown configuration for the socket-sdk-js bundle. Two CJS entries
- *   (index, testing), runtime deps externalized so consumers install them.
- *   Replaces the esbuild build (fleet "Tooling" rule: bundler = rolldown). The
- *   heavy-lib stubbing uses the fleet-canonical createLibStubPlugin; mime-db is
- *   stubbed separately (different replacement body); node: builtins are
- *   prefixed + externalized via a resolveId hook.
+ * @file Rolldown configuration for the socket-sdk-js bundle. Three CJS entries
+ *   (index, otel, testing), runtime deps externalized so consumers install
+ *   them. Replaces the esbuild build (fleet "Tooling" rule: bundler =
+ *   rolldown). The heavy-lib stubbing uses the fleet-canonical
+ *   createLibStubPlugin; mime-db is stubbed separately (different replacement
+ *   body); node: builtins are prefixed + externalized via a resolveId hook.
  */
 
 import { readFileSync } from 'node:fs'
@@ -146,6 +146,7 @@ export const buildConfig: RolldownOptions & { output: OutputOptions } = {
   },
   input: {
     index: path.join(srcPath, 'index.mts'),
+    otel: path.join(srcPath, 'otel.mts'),
     testing: path.join(srcPath, 'testing.mts'),
   },
   output: {
@@ -26,6 +26,7 @@ export const GROUPS: Array<{
       'getFullScan',
       'getFullScanMetadata',
       'listFullScans',
+      'iterateFullScans',
       'streamFullScan',
       'downloadOrgFullScanFilesAsTar',
       'getOrgFullScanCsv',
@@ -53,6 +54,7 @@ export const GROUPS: Array<{
       'createRepository',
       'getRepository',
       'listRepositories',
+      'iterateRepositories',
       'updateRepository',
       'deleteRepository',
     ],
@@ -89,8 +91,10 @@ export const GROUPS: Array<{
     description: 'Surface and triage alerts across an organization.',
     methods: [
       'getOrgAlertsList',
+      'iterateOrgAlerts',
       'getOrgAlertFullScans',
       'getOrgAlertResolutions',
+      'iterateOrgAlertResolutions',
       'getOrgAlertResolution',
       'deleteOrgAlertResolution',
       'getOrgTriage',
@@ -105,9 +109,11 @@ export const GROUPS: Array<{
       'Point-in-time alert and dependency history, trends, and snapshots.',
     methods: [
       'historicalAlertsList',
+      'iterateHistoricalAlerts',
       'historicalAlertsTrend',
       'historicalDependenciesTrend',
       'historicalSnapshotsList',
+      'iterateHistoricalSnapshots',
       'historicalSnapshotsStart',
     ],
   },
@@ -118,6 +124,7 @@ export const GROUPS: Array<{
       'createOrgWebhook',
       'getOrgWebhook',
       'getOrgWebhooksList',
+      'iterateOrgWebhooks',
       'updateOrgWebhook',
       'deleteOrgWebhook',
     ],
@@ -130,8 +137,9 @@ export const GROUPS: Array<{
   {
     title: 'API tokens',
     description:
-      'Provision, rotate, and revoke API tokens for the organization.',
+      'Provision, rotate, and revoke API tokens, and check token scopes.',
     methods: [
+      'checkPermissions',
       'getAPITokens',
       'postAPIToken',
       'postAPITokenUpdate',
@@ -168,8 +176,8 @@ export const GROUPS: Array<{
   },
   {
     title: 'Audit log',
-    description: 'Fetch organization audit log events.',
-    methods: ['getAuditLogEvents'],
+    description: 'Fetch or tail organization audit log events.',
+    methods: ['getAuditLogEvents', 'watchAuditLogEvents'],
   },
   {
     title: 'Threat campaigns',
@@ -177,8 +185,10 @@ export const GROUPS: Array<{
       'Browse supply chain attack campaigns and the packages they affect.',
     methods: [
       'listThreatCampaigns',
+      'iterateThreatCampaigns',
       'getThreatCampaign',
       'listThreatCampaignPackages',
+      'iterateThreatCampaignPackages',
     ],
   },
   {
@@ -228,6 +238,11 @@ export const GROUPS: Array<{
     description: 'The Socket API OpenAPI definition.',
     methods: ['getOpenAPI', 'getOpenAPIJSON'],
   },
+  {
+    title: 'Client state',
+    description: 'Inspect and reset state held by this client instance.',
+    methods: ['getRateLimitState', 'invalidateCache'],
+  },
   {
     title: 'Escape hatches',
     description: 'Raw HTTP access for endpoints the SDK does not wrap.',
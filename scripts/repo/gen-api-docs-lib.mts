@@ -41,8 +41,9 @@ export interface MethodInfo {
 
 /**
  * Extract public method records from the SDK class source. Looks for top-level
- * `async name(...)` / `async *name(...)` / `async name<T>(...)` with a JSDoc
- * block immediately above.
+ * `async name(...)` / `async *name(...)` / `async name<T>(...)`, or a
+ * synchronous `name(...): T {` declared on one line, with a JSDoc block
+ * immediately above.
  */
 export function extractMethods(): MethodInfo[] {
   const src = readFileSync(classPath, 'utf8')
@@ -55,8 +56,12 @@ export function extractMethods(): MethodInfo[] {
   while (i < lines.length) {
     // Match a 2-space-indented async method declaration: group 1 = optional `*`
     // (generator), group 2 = method name, terminated by `<` (generic) or `(`.
-    const match = lines[i]!.match(/^  async (\*)?([a-zA-Z][a-zA-Z0-9_]*)[<(]/)
-    if (!match) {
+    // Synchronous methods must fit on one line, which keeps the constructor
+    // and module-level calls after the class out.
+    const match =
+      lines[i]!.match(/^  async (\*)?([a-zA-Z][a-zA-Z0-9_]*)[<(]/) ??
+      lines[i]!.match(/^  ()([a-zA-Z][a-zA-Z0-9_]*)[<(].*\): [^=]+ \{$/)
+    if (!match || match[2] === 'constructor') {
       i++
       continue
     }
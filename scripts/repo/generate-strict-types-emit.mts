@@ -79,8 +79,11 @@ export function generateWrapperTypes(): string {
  */
 export type StrictErrorResult = {
   cause?: string | undefined
+  code?: SocketSdkErrorCode | undefined
   data?: undefined | undefined
+  details?: unknown | undefined
   error: string
+  meta?: ResponseMeta | undefined
   status: number
   success: false
 }
@@ -93,6 +96,7 @@ export type StrictResult<T> =
       cause?: undefined | undefined
       data: T
       error?: undefined | undefined
+      meta?: ResponseMeta | undefined
       status: number
       success: true
     }
@@ -105,6 +109,7 @@ export type FullScanListResult = {
   cause?: undefined | undefined
   data: FullScanListData
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -116,6 +121,7 @@ export type FullScanResult = {
   cause?: undefined | undefined
   data: FullScanItem
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -140,6 +146,7 @@ export type OrganizationsResult = {
     organizations: Record<string, OrganizationItem>
   }
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -151,6 +158,7 @@ export type RepositoriesListResult = {
   cause?: undefined | undefined
   data: RepositoriesListData
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -162,6 +170,7 @@ export type DeleteResult = {
   cause?: undefined | undefined
   data: { success: boolean }
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -173,6 +182,7 @@ export type RepositoryResult = {
   cause?: undefined | undefined
   data: RepositoryItem
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -184,6 +194,7 @@ export type RepositoryLabelsListResult = {
   cause?: undefined | undefined
   data: RepositoryLabelsListData
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -195,6 +206,7 @@ export type RepositoryLabelResult = {
   cause?: undefined | undefined
   data: RepositoryLabelItem
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -206,6 +218,7 @@ export type DeleteRepositoryLabelResult = {
   cause?: undefined | undefined
   data: { status: string }
   error?: undefined | undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
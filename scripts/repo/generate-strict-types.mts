@@ -357,6 +357,9 @@ async function main(): Promise<void> {
  *
  * Generated by: scripts/repo/generate-strict-types.mts
  */
+import type { SocketSdkErrorCode } from './types.mts'
+import type { ResponseMeta } from './utils/response-meta.mts'
+
 /* c8 ignore start - Type definitions only, no runtime code to test. */
 
 ${generatedTypes.join('\n\n')}
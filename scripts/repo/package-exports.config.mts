@@ -3,16 +3,16 @@
  *   canonical generator (scripts/fleet/gen/package-exports.mts, which rewrites
  *   the package.json `exports` map from `files` minus `ignore`) and the
  *   public-files-are-exported validator (its `ignore` contract). The public
- *   surface is deliberately narrow: the `.` and `./testing` entries plus the
- *   two hand-authored `types/*.d.ts` declaration bundles. The declaration
- *   build emits one .d.mts per module; every sibling .d.mts is the entries'
- *   module graph (the entries re-export from them, so TypeScript resolution
- *   needs them shipped) — not an independently exported entry point. The
- *   graph leaves are therefore enumerated in `ignore`: excluded from export
+ *   surface is deliberately narrow: the `.`, `./otel` and `./testing` entries
+ *   plus the two hand-authored `types/*.d.ts` declaration bundles. The
+ *   declaration build emits one .d.mts per module; every sibling .d.mts is the
+ *   entries' module graph (the entries re-export from them, so TypeScript
+ *   resolution needs them shipped) — not an independently exported entry point.
+ *   The graph leaves are therefore enumerated in `ignore`: excluded from export
  *   generation and from orphan detection, while still shipping via the
  *   package.json `files` allowlist. A NEW dist leaf fails the validator until
- *   it is either exported (add it to `files` here) or declared graph-only
- *   (add it to `ignore`) — that loud stop is the point.
+ *   it is either exported (add it to `files` here) or declared graph-only (add
+ *   it to `ignore`) — that loud stop is the point.
  */
 
 import type { ExportsConfig } from '../fleet/gen/package-exports.mts'
@@ -24,6 +24,7 @@ export const config: ExportsConfig = {
   ignore: [
     'dist/blob.d.mts',
     'dist/constants.d.mts',
+    'dist/errors.d.mts',
     'dist/events-v1.d.mts',
     'dist/file-upload.d.mts',
     'dist/form-data-entry.d.mts',
@@ -31,6 +32,7 @@ export const config: ExportsConfig = {
     'dist/http-client.d.mts',
     'dist/quota-utils.d.mts',
     'dist/socket-sdk-class.d.mts',
+    'dist/socket-sdk-pool.d.mts',
     'dist/threat-campaigns-v1.d.mts',
     'dist/types-strict.d.mts',
     'dist/types-parity.d.mts',
@@ -12,7 +12,10 @@
 import crypto from 'node:crypto'
 
 import { errorMessage } from '@socketsecurity/lib/errors/message'
-import { httpRequest } from '@socketsecurity/lib/http-request'
+
+import { createProxyTransport } from './utils/proxy.mts'
+
+import type { HttpTransport } from './types.mts'
 
 export interface BlobResult {
   binary: boolean
@@ -33,6 +36,9 @@ export interface ChunkedFetchResult {
 
 export interface FetchBlobOptions {
   baseUrl: string
+  // PEM root certificates trusted in addition to Node's bundled roots.
+  // Ignored when `transport` is set.
+  ca?: string | string[] | undefined
   // Extra headers merged into the outbound request. Values overwrite
   // user-agent if it is also set here.
   extraHeaders?: Record<string, string> | undefined
@@ -48,6 +54,12 @@ export interface FetchBlobOptions {
   // Called with the resolved URL right before each request is dispatched
   // (chunked blobs fire this once per chunk).
   onRequest?: ((url: string) => void) | undefined
+  // Proxy URL; defaults to HTTPS_PROXY / HTTP_PROXY honoring NO_PROXY, and
+  // false connects directly. Ignored when `transport` is set.
+  proxy?: string | false | undefined
+  // Sends each request. Defaults to httpRequest from @socketsecurity/lib,
+  // routed through the proxy when one applies.
+  transport?: HttpTransport | undefined
   userAgent?: string | undefined
   // Verify that fetched bytes content-address to the requested hash (the whole
   // point of a content-addressed store). On by default; throws on mismatch.
@@ -102,7 +114,7 @@ export async function fetchBlob(
   hash: string,
   options: FetchBlobOptions,
 ): Promise<BlobResult> {
-  options = { __proto__: null, ...options } as typeof options
+  options = withTransport(options)
   const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES
 
   let buf: Uint8Array
@@ -145,6 +157,8 @@ export async function fetchChunkedBytes(
   options: FetchBlobOptions,
   maxBytes: number,
 ): Promise<ChunkedFetchResult> {
+  // The manifest and every chunk share one transport.
+  options = withTransport(options)
   const manifestHash = `Q${sHash.slice(1)}`
   const manifestRaw = await fetchRawBytes(manifestHash, options)
 
@@ -228,7 +242,7 @@ export async function fetchRawBytes(
   hash: string,
   options: FetchBlobOptions,
 ): Promise<RawFetchResult> {
-  options = { __proto__: null, ...options } as typeof options
+  options = withTransport(options)
   const url = `${options.baseUrl.replace(/\/$/u, '')}/blob/${encodeURIComponent(hash)}`
 
   const headers: Record<string, string> = {}
@@ -250,7 +264,10 @@ export async function fetchRawBytes(
   options.onRequest?.(url)
   let res
   try {
-    res = await httpRequest(url, { headers, maxResponseSize })
+    res = await options.transport!(url, {
+      headers,
+      maxResponseSize,
+    })
   } catch (e) {
     throw new Error(`blob request to ${url} failed: ${errorMessage(e)}`)
   }
@@ -275,6 +292,20 @@ export async function fetchRawBytes(
   }
 }
 
+/**
+ * Copy of `options` with `transport` set, creating the proxy-aware default
+ * when none was given. Entry points resolve it once so a chunked blob does not
+ * build a transport, and read the proxy environment, per request.
+ */
+function withTransport(options: FetchBlobOptions): FetchBlobOptions {
+  options = { __proto__: null, ...options } as FetchBlobOptions
+  options.transport ??= createProxyTransport({
+    ca: options.ca,
+    proxy: options.proxy,
+  })
+  return options
+}
+
 /**
  * Decode bytes as UTF-8 in fatal mode to detect binary content. Returns
  * undefined when the bytes are not valid UTF-8 or contain a NUL byte (a typical
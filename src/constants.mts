@@ -29,9 +29,47 @@ export const DEFAULT_RETRIES = 3
 // Default delay before first retry (milliseconds)
 export const DEFAULT_RETRY_DELAY = 1000
 
+// Default cap on a single retry delay (10 seconds)
+export const DEFAULT_RETRY_MAX_DELAY = 10_000
+
+// Default size above which `gzipRequestBodies: true` compresses a body (16 KiB)
+export const DEFAULT_GZIP_MIN_BYTES = 16 * 1024
+
 // Default cache TTL (5 minutes)
 export const DEFAULT_CACHE_TTL = 5 * 60 * 1000
 
+// Endpoints cached whenever `cache` is on; any other endpoint is cached only
+// when it has its own entry in the `cacheTtl` object.
+export const DEFAULT_CACHED_ENDPOINTS: readonly string[] = [
+  'organizations',
+  'quota',
+]
+
+// Cache keys evicted when a mutating method succeeds, by method name.
+// `{orgSlug}` stands for the organization the method was called with and `*`
+// matches any run of characters.
+const REPOSITORY_KEYS = ['repositories:{orgSlug}:*']
+const TOKEN_KEYS = ['organizations', 'quota']
+export const CACHE_INVALIDATIONS: Readonly<Record<string, readonly string[]>> =
+  {
+    associateOrgRepoLabel: REPOSITORY_KEYS,
+    createRepository: REPOSITORY_KEYS,
+    createRepositoryLabel: REPOSITORY_KEYS,
+    deleteRepository: REPOSITORY_KEYS,
+    deleteRepositoryLabel: REPOSITORY_KEYS,
+    disassociateOrgRepoLabel: REPOSITORY_KEYS,
+    postAPITokensRevoke: TOKEN_KEYS,
+    postAPITokensRotate: TOKEN_KEYS,
+    postAPITokenUpdate: TOKEN_KEYS,
+    updateOrgLicensePolicy: ['licensePolicy:{orgSlug}:*'],
+    updateOrgSecurityPolicy: ['securityPolicy:{orgSlug}'],
+    updateRepository: REPOSITORY_KEYS,
+    updateRepositoryLabel: REPOSITORY_KEYS,
+  }
+
+// Most response bodies kept for ETag / Last-Modified revalidation per client.
+export const MAX_CONDITIONAL_ENTRIES = 100
+
 // Maximum timeout for HTTP requests (5 minutes)
 export const MAX_HTTP_TIMEOUT = 5 * 60 * 1000
 
@@ -48,6 +86,9 @@ export const DEFAULT_POLL_TIMEOUT = 5 * 60 * 1000
 // Delay between polls of a cached scan endpoint that returned 202 (2 seconds).
 export const DEFAULT_POLL_INTERVAL = 2000
 
+// Delay between audit log polls made by watchAuditLogEvents (30 seconds).
+export const DEFAULT_AUDIT_LOG_POLL_INTERVAL = 30_000
+
 // Public blob store URL for patch downloads
 export const SOCKET_PUBLIC_BLOB_STORE_URL = 'https://socketusercontent.com'
 
@@ -0,0 +1,214 @@
+/**
+ * @file Typed errors for failed Socket API calls. A client created with
+ *   `errorMode: 'throw'` throws these instead of resolving with
+ *   `{ success: false }`, so callers can branch on the class rather than on
+ *   `status`. Every class extends `SocketApiError`, which carries the status
+ *   and, when known, the raw response and the request URL.
+ */
+import {
+  ErrorCaptureStackTrace,
+  ErrorCtor,
+} from '@socketsecurity/lib/primordials/error'
+
+import type { SocketSdkErrorCode } from './types.mts'
+import type { ResponseMeta } from './utils/response-meta.mts'
+import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
+
+export type SocketApiErrorOptions = {
+  cause?: unknown
+  /**
+   * Stable reason for the failure (default: derived from `status`).
+   */
+  code?: SocketSdkErrorCode | undefined
+  /**
+   * Structured detail from the API's `error.details`.
+   */
+  details?: unknown | undefined
+  /**
+   * Details from the response body and suggested next steps: the `cause` of
+   * the equivalent error result.
+   */
+  hint?: string | undefined
+  /**
+   * Request ID, rate-limit and timing details from the response headers.
+   */
+  meta?: ResponseMeta | undefined
+  /**
+   * The failed response; absent when the SDK rejected the call before
+   * sending it.
+   */
+  response?: HttpResponse | undefined
+  status: number
+  url?: string | undefined
+}
+
+export type SocketRateLimitErrorOptions = SocketApiErrorOptions & {
+  /**
+   * Milliseconds the server asked to wait, from `Retry-After`.
+   */
+  retryAfter?: number | undefined
+}
+
+/**
+ * A Socket API call that failed with an HTTP status. Statuses without a more
+ * specific class, such as 409, are thrown as this class.
+ */
+export class SocketApiError extends ErrorCtor {
+  code: SocketSdkErrorCode
+  details: unknown
+  hint: string | undefined
+  meta: ResponseMeta | undefined
+  response: HttpResponse | undefined
+  status: number
+  url: string | undefined
+
+  constructor(message: string, options: SocketApiErrorOptions) {
+    const { cause, code, details, hint, meta, response, status, url } = {
+      __proto__: null,
+      ...options,
+    } as SocketApiErrorOptions
+    super(message, cause === undefined ? undefined : { cause })
+    this.name = 'SocketApiError'
+    this.code = code ?? getErrorCodeForStatus(status)
+    this.details = details
+    this.hint = hint
+    this.meta = meta
+    this.response = response
+    this.status = status
+    this.url = url
+    ErrorCaptureStackTrace?.(this, new.target)
+  }
+}
+
+/**
+ * 401: the API token is missing, invalid or expired.
+ */
+export class SocketAuthError extends SocketApiError {
+  constructor(message: string, options: SocketApiErrorOptions) {
+    super(message, options)
+    this.name = 'SocketAuthError'
+  }
+}
+
+/**
+ * 403: the token lacks a required scope or cannot see the organization.
+ */
+export class SocketPermissionError extends SocketApiError {
+  constructor(message: string, options: SocketApiErrorOptions) {
+    super(message, options)
+    this.name = 'SocketPermissionError'
+  }
+}
+
+/**
+ * 404: the organization, repository, scan or other resource does not exist.
+ */
+export class SocketNotFoundError extends SocketApiError {
+  constructor(message: string, options: SocketApiErrorOptions) {
+    super(message, options)
+    this.name = 'SocketNotFoundError'
+  }
+}
+
+/**
+ * 429: rate limited or out of quota. `retryAfter` says how long to wait
+ * when the server sent `Retry-After`.
+ */
+export class SocketRateLimitError extends SocketApiError {
+  retryAfter: number | undefined
+
+  constructor(message: string, options: SocketRateLimitErrorOptions) {
+    super(message, options)
+    this.name = 'SocketRateLimitError'
+    this.retryAfter = options.retryAfter
+  }
+}
+
+/**
+ * 5xx: the API failed after every retry.
+ */
+export class SocketServerError extends SocketApiError {
+  constructor(message: string, options: SocketApiErrorOptions) {
+    super(message, options)
+    this.name = 'SocketServerError'
+  }
+}
+
+/**
+ * 400, 413 or 422: the request was malformed or too large, or the SDK
+ * rejected its arguments before sending it.
+ */
+export class SocketValidationError extends SocketApiError {
+  constructor(message: string, options: SocketApiErrorOptions) {
+    super(message, options)
+    this.name = 'SocketValidationError'
+  }
+}
+
+/**
+ * Create the `SocketApiError` subclass matching `options.status`, or for a
+ * call the SDK stopped before sending it (status 0), `options.code`.
+ */
+export function createSocketApiError(
+  message: string,
+  options: SocketRateLimitErrorOptions,
+): SocketApiError {
+  const { code, status } = options
+  // Calls the SDK stopped before sending them have no status; their code
+  // picks the class instead.
+  const unsent = status === 0
+  if (status === 401) {
+    return new SocketAuthError(message, options)
+  }
+  if (status === 403 || (unsent && code === 'FORBIDDEN_SCOPE')) {
+    return new SocketPermissionError(message, options)
+  }
+  if (status === 404) {
+    return new SocketNotFoundError(message, options)
+  }
+  if (status === 429 || (unsent && code === 'QUOTA_EXCEEDED')) {
+    return new SocketRateLimitError(message, options)
+  }
+  if (status === 400 || status === 413 || status === 422) {
+    return new SocketValidationError(message, options)
+  }
+  if (status >= 500 || (unsent && code === 'CIRCUIT_OPEN')) {
+    return new SocketServerError(message, options)
+  }
+  return new SocketApiError(message, options)
+}
+
+/**
+ * The `SocketSdkErrorCode` for a failed response with `status`. `message` is
+ * the API's error message, which tells a spent quota apart from plain rate
+ * limiting on a 429.
+ */
+export function getErrorCodeForStatus(
+  status: number,
+  message?: string | undefined,
+): SocketSdkErrorCode {
+  switch (status) {
+    case 400:
+    case 422:
+      return 'BAD_REQUEST'
+    case 401:
+      return 'AUTH_INVALID'
+    case 402:
+      return 'QUOTA_EXCEEDED'
+    case 403:
+      return 'FORBIDDEN_SCOPE'
+    case 404:
+      return 'NOT_FOUND'
+    case 413:
+      return 'PAYLOAD_TOO_LARGE'
+    case 429:
+      return message && /\bquota\b/i.test(message)
+        ? 'QUOTA_EXCEEDED'
+        : 'RATE_LIMITED'
+    default:
+      if (status >= 500) {
+        return 'SERVER_ERROR'
+      }
+      return status === 0 ? 'NETWORK_ERROR' : 'HTTP_ERROR'
+  }
+}
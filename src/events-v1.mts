@@ -3,6 +3,7 @@
  *   telemetry ingestion). Hand-written since events has no generated OpenAPI
  *   schema in this SDK yet, mirroring the precedent set by full-scans-v1.mts.
  */
+import type { ResponseMeta } from './utils/response-meta.mts'
 import type { JsonValue } from '@socketsecurity/lib/json/types'
 
 // The wire schema is `additionalProperties: true` with a handful of known
@@ -25,6 +26,7 @@ export type PostEventsResult = {
   cause: undefined
   data: PostEventsData
   error: undefined
+  meta?: ResponseMeta | undefined
   status: 200 | 201
   success: true
 }
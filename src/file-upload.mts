@@ -1,3 +1,4 @@
+import { randomUUID } from 'node:crypto'
 import { createReadStream } from 'node:fs'
 import path from 'node:path'
 
@@ -8,9 +9,13 @@ import { normalizePath } from '@socketsecurity/lib/paths/normalize'
 import { MAX_RESPONSE_SIZE } from './constants.mts'
 
 import { sanitizeHeaders } from './utils/header-sanitization.mts'
+import {
+  CORRELATION_ID_HEADER,
+  getResponseMeta,
+} from './utils/response-meta.mts'
 
 import type formDataExternal from './external/form-data'
-import type { RequestOptions, RequestOptionsWithHooks } from './types.mts'
+import type { RequestOptions, SendRequestOptions } from './types.mts'
 import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
 import type { ReadStream } from 'node:fs'
 import type { Readable } from 'node:stream'
@@ -75,12 +80,17 @@ export async function createUploadRequest(
   baseUrl: string,
   urlPath: string,
   form: MultipartForm,
-  options?: RequestOptionsWithHooks | undefined,
+  options?: SendRequestOptions | undefined,
 ): Promise<HttpResponse> {
-  const { hooks, ...rawOpts } = {
+  const {
+    hooks,
+    idempotencyKey,
+    transport = httpRequest,
+    ...rawOpts
+  } = {
     __proto__: null,
     ...options,
-  } as unknown as RequestOptionsWithHooks
+  } as unknown as SendRequestOptions
   const opts = { __proto__: null, ...rawOpts } as unknown as RequestOptions
   const url = new URL(urlPath, baseUrl).toString()
   const method = 'POST'
@@ -88,6 +98,7 @@ export async function createUploadRequest(
 
   const headers = {
     ...(opts.headers as Record<string, string>),
+    'Idempotency-Key': idempotencyKey ?? randomUUID(),
   }
 
   if (hooks?.onRequest) {
@@ -100,22 +111,29 @@ export async function createUploadRequest(
   }
 
   try {
-    const response = await httpRequest(url, {
+    const response = await transport(url, {
       method,
       body: form as unknown as Readable,
       headers,
       maxResponseSize: MAX_RESPONSE_SIZE,
+      signal: opts.signal,
       timeout: opts.timeout,
     })
 
     if (hooks?.onResponse) {
+      const duration = Date.now() - startTime
       hooks.onResponse({
         method,
         url,
-        duration: Date.now() - startTime,
+        duration,
         status: response.status,
         statusText: response.statusText,
         headers: sanitizeHeaders(response.headers),
+        meta: getResponseMeta(
+          response.headers,
+          duration,
+          (headers as Record<string, string>)[CORRELATION_ID_HEADER],
+        ),
       })
     }
 
@@ -10,6 +10,8 @@ import path from 'node:path'
 
 import { isAbsolute, normalizePath } from '@socketsecurity/lib/paths/normalize'
 
+import type { ResponseMeta } from './utils/response-meta.mts'
+
 export type FileHashResult = {
   hash: string
   size: number
@@ -73,6 +75,7 @@ export type CreateFullScanFromManifestResult =
       cause: undefined
       data: FullScanV1CreatedData
       error: undefined
+      meta?: ResponseMeta | undefined
       status: 201
       success: true
     }
@@ -80,6 +83,7 @@ export type CreateFullScanFromManifestResult =
       cause: undefined
       data: FullScanV1PendingData
       error: undefined
+      meta?: ResponseMeta | undefined
       status: 202
       success: true
     }
@@ -93,6 +97,7 @@ export type UploadBlobsResult = {
   cause: undefined
   data: BlobsUploadData
   error: undefined
+  meta?: ResponseMeta | undefined
   status: 200
   success: true
 }
@@ -1,3 +1,5 @@
+import { randomUUID } from 'node:crypto'
+
 import { debugLog } from '@socketsecurity/lib/debug/output'
 import { isError } from '@socketsecurity/lib/errors/predicates'
 import { httpRequest } from '@socketsecurity/lib/http-request'
@@ -8,15 +10,21 @@ import { SetCtor } from '@socketsecurity/lib/primordials/map-set'
 import { StringPrototypeTrim } from '@socketsecurity/lib/primordials/string'
 
 import {
+  MAX_CONDITIONAL_ENTRIES,
   MAX_RESPONSE_SIZE,
   publicPolicy as defaultPublicPolicy,
 } from './constants.mts'
 import { sanitizeHeaders } from './utils/header-sanitization.mts'
+import {
+  CORRELATION_ID_HEADER,
+  getResponseMeta,
+} from './utils/response-meta.mts'
 
 import type {
   RequestOptions,
   RequestOptionsWithHooks,
   SendMethod,
+  SendRequestOptions,
   SocketArtifactAlert,
   SocketArtifactWithExtras,
 } from './types.mts'
@@ -50,7 +58,11 @@ export async function createDeleteRequest(
   const startTime = DateNow()
   const url = `${baseUrl}${urlPath}`
   const method = 'DELETE'
-  const { hooks, ...rawOpts } = {
+  const {
+    hooks,
+    transport = httpRequest,
+    ...rawOpts
+  } = {
     __proto__: null,
     ...options,
   } as unknown as RequestOptionsWithHooks
@@ -66,21 +78,30 @@ export async function createDeleteRequest(
   }
 
   try {
-    const response = await httpRequest(url, {
+    const response = await transport(url, {
       method,
       headers: opts.headers as Record<string, string>,
+      signal: opts.signal,
       timeout: opts.timeout,
       maxResponseSize: MAX_RESPONSE_SIZE,
     })
 
     if (hooks?.onResponse) {
+      const duration = DateNow() - startTime
       hooks.onResponse({
         method,
         url,
-        duration: DateNow() - startTime,
+        duration,
         status: response.status,
         statusText: response.statusText,
         headers: sanitizeHeaders(response.headers),
+        meta: getResponseMeta(
+          response.headers,
+          duration,
+          (opts.headers as Record<string, string> | undefined)?.[
+            CORRELATION_ID_HEADER
+          ],
+        ),
       })
     }
 
@@ -119,7 +140,12 @@ export async function createGetRequest(
   const url = `${baseUrl}${urlPath}`
   const method = 'GET'
   const stopTimer = perfTimer('http:get', { urlPath })
-  const { hooks, stream, ...rawOpts } = {
+  const {
+    hooks,
+    stream,
+    transport = httpRequest,
+    ...rawOpts
+  } = {
     __proto__: null,
     ...options,
   } as unknown as GetRequestOptions
@@ -135,22 +161,31 @@ export async function createGetRequest(
   }
 
   try {
-    const response = await httpRequest(url, {
+    const response = await transport(url, {
       method,
       headers: opts.headers as Record<string, string>,
+      signal: opts.signal,
       timeout: opts.timeout,
       ...(stream ? { stream: true } : { maxResponseSize: MAX_RESPONSE_SIZE }),
     })
     stopTimer({ statusCode: response.status })
 
     if (hooks?.onResponse) {
+      const duration = DateNow() - startTime
       hooks.onResponse({
         method,
         url,
-        duration: DateNow() - startTime,
+        duration,
         status: response.status,
         statusText: response.statusText,
         headers: sanitizeHeaders(response.headers),
+        meta: getResponseMeta(
+          response.headers,
+          duration,
+          (opts.headers as Record<string, string> | undefined)?.[
+            CORRELATION_ID_HEADER
+          ],
+        ),
       })
     }
 
@@ -171,22 +206,92 @@ export async function createGetRequest(
   }
 }
 
+/**
+ * Body and validators of the last 200 response for a GET URL path, kept so a
+ * later request for the same path can be answered with 304 Not Modified.
+ */
+export type ConditionalEntry = {
+  data: JsonValue | undefined
+  etag?: string | undefined
+  lastModified?: string | undefined
+}
+
+/**
+ * GET `urlPath` and parse its JSON body, revalidating against `validators`
+ * under `validatorKey` (default: `urlPath`). A stored `ETag` / `Last-Modified`
+ * is sent as `If-None-Match` / `If-Modified-Since`, and a 304 response
+ * resolves with a copy of the stored body instead of downloading it again. A
+ * 200 carrying either validator replaces the stored entry, dropping the oldest
+ * past `MAX_CONDITIONAL_ENTRIES`; one carrying neither removes it. Without
+ * `validators` this is a plain GET.
+ */
+export async function getJsonConditional(
+  baseUrl: string,
+  urlPath: string,
+  validators: Map<string, ConditionalEntry> | undefined,
+  options?: GetRequestOptions | undefined,
+  validatorKey: string = urlPath,
+): Promise<JsonValue | undefined> {
+  if (!validators) {
+    return await getResponseJson(
+      await createGetRequest(baseUrl, urlPath, options),
+    )
+  }
+  const entry = validators.get(validatorKey)
+  const headers = {
+    // oxlint-disable-next-line typescript/no-misused-spread -- plain object
+    ...options?.headers,
+    ...(entry?.etag ? { 'If-None-Match': entry.etag } : undefined),
+    ...(entry?.lastModified
+      ? { 'If-Modified-Since': entry.lastModified }
+      : undefined),
+  } as Record<string, string>
+  const response = await createGetRequest(baseUrl, urlPath, {
+    ...options,
+    headers,
+  } as GetRequestOptions)
+  if (response.status === 304 && entry) {
+    // Callers may mutate what they get back; the stored body must not change.
+    return structuredClone(entry.data)
+  }
+  const data = await getResponseJson(response)
+  const { etag, 'last-modified': lastModified } = response.headers
+  // Re-inserting moves the key to the end, so the oldest entry comes first.
+  validators.delete(validatorKey)
+  if (typeof etag === 'string' || typeof lastModified === 'string') {
+    validators.set(validatorKey, {
+      data: structuredClone(data),
+      etag: typeof etag === 'string' ? etag : undefined,
+      lastModified: typeof lastModified === 'string' ? lastModified : undefined,
+    })
+    if (validators.size > MAX_CONDITIONAL_ENTRIES) {
+      validators.delete(validators.keys().next().value!)
+    }
+  }
+  return data
+}
+
 export async function createRequestWithJson(
   method: SendMethod,
   baseUrl: string,
   urlPath: string,
   json: unknown,
-  options?: RequestOptionsWithHooks | undefined,
+  options?: SendRequestOptions | undefined,
 ): Promise<HttpResponse> {
   const startTime = DateNow()
   const url = `${baseUrl}${urlPath}`
   const stopTimer = perfTimer(`http:${method.toLowerCase()}`, {
     urlPath,
   })
-  const { hooks, ...rawOpts } = {
+  const {
+    hooks,
+    idempotencyKey,
+    transport = httpRequest,
+    ...rawOpts
+  } = {
     __proto__: null,
     ...options,
-  } as unknown as RequestOptionsWithHooks
+  } as unknown as SendRequestOptions
   const opts = { __proto__: null, ...rawOpts } as unknown as RequestOptions
   const body = JSON.stringify(json)
   const headers = {
@@ -196,6 +301,7 @@ export async function createRequestWithJson(
     // oxlint-disable-next-line typescript/no-misused-spread -- plain object
     ...opts.headers,
     'Content-Type': 'application/json',
+    'Idempotency-Key': idempotencyKey ?? randomUUID(),
   } as Record<string, string>
 
   if (hooks?.onRequest) {
@@ -208,23 +314,30 @@ export async function createRequestWithJson(
   }
 
   try {
-    const response = await httpRequest(url, {
+    const response = await transport(url, {
       method,
       body,
       headers,
+      signal: opts.signal,
       timeout: opts.timeout,
       maxResponseSize: MAX_RESPONSE_SIZE,
     })
     stopTimer({ statusCode: response.status })
 
     if (hooks?.onResponse) {
+      const duration = DateNow() - startTime
       hooks.onResponse({
         method,
         url,
-        duration: DateNow() - startTime,
+        duration,
         status: response.status,
         statusText: response.statusText,
         headers: sanitizeHeaders(response.headers),
+        meta: getResponseMeta(
+          response.headers,
+          duration,
+          headers[CORRELATION_ID_HEADER],
+        ),
       })
     }
 
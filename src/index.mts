@@ -57,8 +57,78 @@ export type {
   ThreatCampaignStatus,
   ThreatCampaignsListData,
 } from './threat-campaigns-v1.mts'
+// Re-export the typed errors thrown under `errorMode: 'throw'`.
+export {
+  SocketApiError,
+  SocketAuthError,
+  SocketNotFoundError,
+  SocketPermissionError,
+  SocketRateLimitError,
+  SocketServerError,
+  SocketValidationError,
+} from './errors.mts'
+export type {
+  SocketApiErrorOptions,
+  SocketRateLimitErrorOptions,
+} from './errors.mts'
 // Re-export HTTP client classes.
 export { ResponseError } from './http-client.mts'
+// Re-export types for the audit log tail.
+export type {
+  AuditLogCheckpoint,
+  AuditLogEvent,
+  AuditLogWatchItem,
+  WatchAuditLogEventsOptions,
+} from './utils/audit-log-tail.mts'
+// Re-export the pluggable cache store and its filesystem implementation.
+export { createFileCacheStore } from './utils/cache-store.mts'
+export type { CacheStore, FileCacheStoreOptions } from './utils/cache-store.mts'
+// Re-export types for the opt-in circuit breaker.
+export { CircuitOpenError } from './utils/circuit-breaker.mts'
+export type {
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStateChangeInfo,
+} from './utils/circuit-breaker.mts'
+// Re-export the metrics collector fed by the SDK hooks.
+export { createSdkMetrics } from './utils/metrics.mts'
+export type {
+  SdkLatencyHistogram,
+  SdkMethodMetrics,
+  SdkMetrics,
+  SdkMetricsOptions,
+  SdkMetricsSnapshot,
+} from './utils/metrics.mts'
+// Re-export the pagination helper that drains `iterate*` methods.
+export { collectAll } from './utils/paginate.mts'
+// Re-export the proxy-aware transport used by default.
+export { createProxyTransport } from './utils/proxy.mts'
+export type { ProxyOptions } from './utils/proxy.mts'
+// Re-export the error and types of the permission pre-flight.
+export { MissingPermissionsError } from './utils/permission-guard.mts'
+export type {
+  CheckPermissionsOptions,
+  MissingPermissionsInfo,
+  PermissionCheck,
+  PermissionGuardOptions,
+} from './utils/permission-guard.mts'
+// Re-export the error and types of the opt-in quota guard.
+export { QuotaExceededError } from './utils/quota-guard.mts'
+export type { QuotaGuardOptions, QuotaLowInfo } from './utils/quota-guard.mts'
+// Re-export types for the rate-limit state reported by `getRateLimitState`.
+export type { RateLimitState } from './utils/rate-limit-state.mts'
+// Re-export the client-side rate limiter.
+export { RateLimiter } from './utils/rate-limiter.mts'
+export type { RateLimiterOptions } from './utils/rate-limiter.mts'
+// Re-export types for response metadata.
+export type { ResponseMeta, ResponseRateLimit } from './utils/response-meta.mts'
+// Re-export types for the retry policy.
+export type {
+  RetryInfo,
+  RetryJitter,
+  RetryPolicy,
+  RetryPolicyOptions,
+} from './utils/retry-policy.mts'
 // Re-export quota utility functions.
 export {
   calculateTotalQuotaCost,
@@ -73,6 +143,9 @@ export {
 } from './quota-utils.mts'
 // Re-export the main SocketSdk class.
 export { SocketSdk } from './socket-sdk-class.mts'
+// Re-export the multi-organization client pool.
+export { SocketSdkPool } from './socket-sdk-pool.mts'
+export type { SocketSdkTokenProvider } from './socket-sdk-pool.mts'
 // Re-export option/response types for the newer endpoint methods.
 export type {
   CreateOrgRepoDiffOptions,
@@ -83,6 +156,8 @@ export type {
   HistoricalDependenciesTrendOptions,
   HistoricalSnapshotsListOptions,
   LicensePolicyViolations,
+  OrgAlertResolutionsListOptions,
+  OrgAlertsListOptions,
   UpdateOrgRepoLabelSettingBody,
 } from './types-parity.mts'
 // Re-export types from modules.
@@ -90,6 +165,7 @@ export type {
   ALERT_ACTION,
   ALERT_TYPE,
   ArtifactPatches,
+  BackgroundRefreshErrorInfo,
   BatchPackageFetchResultType,
   BatchPackageStreamOptions,
   CompactSocketArtifact,
@@ -102,10 +178,13 @@ export type {
   FileValidationResult,
   GetOptions,
   HeadersRecord,
+  HttpTransport,
   MalwareCheckAlert,
   MalwareCheckPackage,
   MalwareCheckResult,
   MalwareCheckScore,
+  PageNumberPaginationOptions,
+  PaginationOptions,
   PatchFile,
   PatchRecord,
   PatchViewResponse,
@@ -120,13 +199,16 @@ export type {
   SecurityAlert,
   SendMethod,
   SendOptions,
+  SendRequestOptions,
   SocketArtifact,
   SocketArtifactAlert,
   SocketArtifactWithExtras,
   SocketId,
   SocketMetricSchema,
   SocketSdkArrayElement,
+  SocketSdkCallOptions,
   SocketSdkData,
+  SocketSdkErrorCode,
   SocketSdkErrorResult,
   SocketSdkGenericResult,
   SocketSdkOperations,
@@ -134,6 +216,7 @@ export type {
   SocketSdkResult,
   SocketSdkSuccessResult,
   StreamOrgFullScanOptions,
+  TransportRequest,
   UploadManifestFilesError,
   UploadManifestFilesOptions,
   UploadManifestFilesResponse,
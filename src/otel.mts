@@ -0,0 +1,408 @@
+/**
+ * @file OpenTelemetry tracing for Socket SDK. `createTracedSocketSdk` builds a
+ *   `SocketSdk` whose every method call runs in a span, and whose every HTTP
+ *   exchange is a child span that sends its W3C `traceparent` to the API. The
+ *   per-request hooks only see single exchanges; here the retries, cached-scan
+ *   poll attempts and v1 → v0 fallbacks of one call show up under one parent.
+ *   The module does not depend on `@opentelemetry/api`: pass the API object
+ *   your application already uses, and the SDK reaches it through the small
+ *   structural types below.
+ */
+
+import { SocketSdk } from './socket-sdk-class.mts'
+import { createProxyTransport } from './utils/proxy.mts'
+
+import type {
+  HttpTransport,
+  SocketSdkOptions,
+  TransportRequest,
+} from './types.mts'
+import type {
+  RetryInfo,
+  RetryPolicy,
+  RetryPolicyOptions,
+} from './utils/retry-policy.mts'
+
+export type OtelAttributeValue = boolean | number | string
+
+export type OtelAttributes = Record<string, OtelAttributeValue | undefined>
+
+/**
+ * The parts of an OpenTelemetry `Span` the SDK uses.
+ */
+export interface OtelSpan {
+  end(): void
+  recordException(exception: Error | string): void
+  setAttribute(key: string, value: OtelAttributeValue): unknown
+  setStatus(status: { code: number; message?: string | undefined }): unknown
+}
+
+export interface OtelSpanOptions {
+  attributes?: OtelAttributes | undefined
+  kind?: number | undefined
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` the SDK uses.
+ */
+export interface OtelTracer {
+  startSpan(
+    name: string,
+    options?: OtelSpanOptions | undefined,
+    context?: unknown,
+  ): OtelSpan
+}
+
+/**
+ * The parts of the `@opentelemetry/api` module the SDK uses. Pass the module
+ * itself: `import * as otel from '@opentelemetry/api'`.
+ */
+export interface OtelApi {
+  context: {
+    active(): unknown
+    with<R>(context: unknown, fn: () => R): R
+  }
+  propagation: {
+    inject(context: unknown, carrier: Record<string, string>): void
+  }
+  trace: {
+    getSpan(context: unknown): OtelSpan | undefined
+    getTracer(name: string): OtelTracer
+    setSpan(context: unknown, span: OtelSpan): unknown
+  }
+}
+
+export type TracedSocketSdkOptions = SocketSdkOptions & {
+  /**
+   * The `@opentelemetry/api` module. Its registered propagator injects the
+   * trace context into outgoing requests.
+   */
+  otel: OtelApi
+  /**
+   * Tracer for the SDK's spans (default:
+   * `otel.trace.getTracer('@socketsecurity/sdk')`).
+   */
+  tracer?: OtelTracer | undefined
+}
+
+// What one SDK method call did, reported on its span when the call settles.
+type CallStats = {
+  bytesUploaded: number
+  httpMethod?: string | undefined
+  orgSlug?: string | undefined
+  pollAttempts: number
+  retries: number
+  status?: number | undefined
+}
+
+// `SpanKind` and `SpanStatusCode` values from `@opentelemetry/api`.
+const SPAN_KIND_CLIENT = 2
+const SPAN_KIND_INTERNAL = 0
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Create a `SocketSdk` traced with OpenTelemetry.
+ *
+ * Each method call gets a `SocketSdk.<method>` span with `socket.sdk.method`,
+ * `socket.org_slug`, `http.request.method` and `http.response.status_code` of
+ * the last request, and the `socket.sdk.retries`, `socket.sdk.poll_attempts`
+ * and `socket.sdk.bytes_uploaded` of the whole call. The span fails when the
+ * call throws or resolves `{ success: false }`. Each HTTP request is a child
+ * span named after its method, carrying `url.full` and the response status.
+ * Streaming methods keep their span open until iteration ends.
+ *
+ * @example
+ *   ;```ts
+ *   import * as otel from '@opentelemetry/api'
+ *   import { createTracedSocketSdk } from '@socketsecurity/sdk/otel'
+ *
+ *   const sdk = createTracedSocketSdk(token, { otel, retries: 2 })
+ *   ```
+ */
+export function createTracedSocketSdk(
+  apiToken: string,
+  options: TracedSocketSdkOptions,
+): SocketSdk {
+  const {
+    otel,
+    tracer = otel.trace.getTracer('@socketsecurity/sdk'),
+    ...sdkOptions
+  } = { __proto__: null, ...options } as TracedSocketSdkOptions
+  const { ca, proxy, retryPolicy } = sdkOptions
+  const callStats = new WeakMap<OtelSpan, CallStats>()
+  const currentStats = (): CallStats | undefined => {
+    const span = otel.trace.getSpan(otel.context.active())
+    return span ? callStats.get(span) : undefined
+  }
+
+  const transport = sdkOptions.transport ?? createProxyTransport({ ca, proxy })
+  const tracingTransport: HttpTransport = async (url, request) => {
+    const parentContext = otel.context.active()
+    const parentSpan = otel.trace.getSpan(parentContext)
+    const stats = parentSpan ? callStats.get(parentSpan) : undefined
+    const method = request.method ?? 'GET'
+    const bodySize = getBodySize(request)
+    const span = tracer.startSpan(
+      method,
+      {
+        attributes: {
+          'http.request.body.size': bodySize,
+          'http.request.method': method,
+          'url.full': url,
+        },
+        kind: SPAN_KIND_CLIENT,
+      },
+      parentContext,
+    )
+    const headers = { ...request.headers }
+    otel.propagation.inject(otel.trace.setSpan(parentContext, span), headers)
+    if (stats) {
+      stats.bytesUploaded += bodySize ?? 0
+      stats.httpMethod = method
+      stats.orgSlug ??= getOrgSlug(url)
+    }
+    try {
+      const response = await transport(url, { ...request, headers })
+      span.setAttribute('http.response.status_code', response.status)
+      if (response.status >= 400) {
+        span.setStatus({ code: SPAN_STATUS_ERROR })
+      }
+      if (stats) {
+        stats.status = response.status
+        // Cached scans answer 202 until ready; each one means another poll.
+        if (response.status === 202 && method === 'GET') {
+          stats.pollAttempts += 1
+        }
+      }
+      return response
+    } catch (e) {
+      recordError(span, e)
+      throw e
+    } finally {
+      span.end()
+    }
+  }
+
+  // Count retries on the calling span, then run the caller's own hook. A
+  // per-method override replaces the shared hook, so each one is chained too,
+  // falling back to the shared hook as an override without one would.
+  const countRetries =
+    (onRetry: RetryPolicyOptions['onRetry']) => (info: RetryInfo) => {
+      const stats = currentStats()
+      if (stats) {
+        stats.retries += 1
+      }
+      onRetry?.(info)
+    }
+  const methods: NonNullable<RetryPolicy['methods']> = {}
+  const overrides = Object.entries(retryPolicy?.methods ?? {})
+  for (let i = 0, { length } = overrides; i < length; i += 1) {
+    const [name, override] = overrides[i]!
+    methods[name] = {
+      ...override,
+      onRetry: countRetries(override.onRetry ?? retryPolicy?.onRetry),
+    }
+  }
+  const sdk = new SocketSdk(apiToken, {
+    ...sdkOptions,
+    retryPolicy: {
+      ...retryPolicy,
+      methods,
+      onRetry: countRetries(retryPolicy?.onRetry),
+    },
+    transport: tracingTransport,
+  })
+
+  const traceCall = (
+    name: string,
+    fn: (...args: unknown[]) => unknown,
+    args: unknown[],
+  ): unknown => {
+    const span = tracer.startSpan(`SocketSdk.${name}`, {
+      attributes: { 'socket.sdk.method': name },
+      kind: SPAN_KIND_INTERNAL,
+    })
+    const stats: CallStats = { bytesUploaded: 0, pollAttempts: 0, retries: 0 }
+    callStats.set(span, stats)
+    const context = otel.trace.setSpan(otel.context.active(), span)
+    let result: unknown
+    try {
+      result = otel.context.with(context, () => fn.apply(sdk, args))
+    } catch (e) {
+      endCallSpan(span, stats, e)
+      throw e
+    }
+    if (result instanceof Promise) {
+      return result.then(
+        value => {
+          endCallSpan(span, stats, undefined, value)
+          return value
+        },
+        (e: unknown) => {
+          endCallSpan(span, stats, e)
+          throw e
+        },
+      )
+    }
+    if (isAsyncIterator(result)) {
+      return traceIterator(otel, result, context, error =>
+        endCallSpan(span, stats, error),
+      )
+    }
+    endCallSpan(span, stats, undefined, result)
+    return result
+  }
+
+  // Wrappers are cached so a method keeps its identity across reads.
+  const wrappers = new Map<string, (...args: unknown[]) => unknown>()
+  return new Proxy(sdk, {
+    get(target, property) {
+      // Private members need the real instance as `this`.
+      const value = Reflect.get(target, property, target) as unknown
+      if (
+        typeof property !== 'string' ||
+        typeof value !== 'function' ||
+        property === 'constructor'
+      ) {
+        return value
+      }
+      let wrapper = wrappers.get(property)
+      if (!wrapper) {
+        wrapper = (...args: unknown[]) =>
+          traceCall(property, value as (...args: unknown[]) => unknown, args)
+        wrappers.set(property, wrapper)
+      }
+      return wrapper
+    },
+  })
+}
+
+// Report `stats` and the outcome on a method span and end it.
+function endCallSpan(
+  span: OtelSpan,
+  stats: CallStats,
+  error: unknown,
+  result?: unknown,
+): void {
+  span.setAttribute('socket.sdk.bytes_uploaded', stats.bytesUploaded)
+  span.setAttribute('socket.sdk.poll_attempts', stats.pollAttempts)
+  span.setAttribute('socket.sdk.retries', stats.retries)
+  if (stats.httpMethod !== undefined) {
+    span.setAttribute('http.request.method', stats.httpMethod)
+  }
+  if (stats.orgSlug !== undefined) {
+    span.setAttribute('socket.org_slug', stats.orgSlug)
+  }
+  if (stats.status !== undefined) {
+    span.setAttribute('http.response.status_code', stats.status)
+  }
+  if (error !== undefined) {
+    recordError(span, error)
+  } else if (isFailedResult(result)) {
+    if (result.code !== undefined) {
+      span.setAttribute('socket.sdk.error_code', result.code)
+    }
+    span.setStatus({ code: SPAN_STATUS_ERROR, message: result.error })
+  }
+  span.end()
+}
+
+function recordError(span: OtelSpan, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error))
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  })
+}
+
+// Size of a request body, when known without reading it.
+function getBodySize(request: TransportRequest): number | undefined {
+  const { body, headers } = request
+  if (typeof body === 'string') {
+    return Buffer.byteLength(body)
+  }
+  if (Buffer.isBuffer(body)) {
+    return body.length
+  }
+  const contentLength = headers
+    ? Object.entries(headers).find(
+        ([key]) => key.toLowerCase() === 'content-length',
+      )?.[1]
+    : undefined
+  return contentLength ? Number(contentLength) : undefined
+}
+
+function getOrgSlug(url: string): string | undefined {
+  const match = /\/orgs\/([^/?#]+)/.exec(url)
+  return match ? decodeURIComponent(match[1]!) : undefined
+}
+
+function isAsyncIterator(
+  value: unknown,
+): value is AsyncIterableIterator<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncIterableIterator<unknown>)[Symbol.asyncIterator] ===
+      'function' &&
+    typeof (value as AsyncIterableIterator<unknown>).next === 'function'
+  )
+}
+
+function isFailedResult(
+  value: unknown,
+): value is { code?: string | undefined; error: string; success: false } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { success?: unknown }).success === false
+  )
+}
+
+// Run each step of `iterator` in `context`, calling `onEnd` once when the
+// iteration finishes, fails or is abandoned.
+function traceIterator(
+  otel: OtelApi,
+  iterator: AsyncIterableIterator<unknown>,
+  context: unknown,
+  onEnd: (error: unknown) => void,
+): AsyncIterableIterator<unknown> {
+  let ended = false
+  const end = (error?: unknown) => {
+    if (!ended) {
+      ended = true
+      onEnd(error)
+    }
+  }
+  const traced: AsyncIterableIterator<unknown> = {
+    [Symbol.asyncIterator]: () => traced,
+    async next(...args: [] | [unknown]) {
+      try {
+        const step = await otel.context.with(context, () =>
+          iterator.next(...args),
+        )
+        if (step.done) {
+          end()
+        }
+        return step
+      } catch (e) {
+        end(e)
+        throw e
+      }
+    },
+    async return(value?: unknown) {
+      end()
+      return iterator.return
+        ? await iterator.return(value)
+        : { done: true, value }
+    },
+    async throw(error?: unknown) {
+      end(error)
+      if (iterator.throw) {
+        return await iterator.throw(error)
+      }
+      throw error
+    },
+  }
+  return traced
+}
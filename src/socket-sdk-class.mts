@@ -4,6 +4,8 @@
  *   complete API functionality for vulnerability scanning, analysis, and
  *   reporting.
  */
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { createHash, randomUUID } from 'node:crypto'
 import path from 'node:path'
 import process from 'node:process'
 
@@ -20,7 +22,13 @@ import { getDefaultLogger } from '@socketsecurity/lib/logger/default'
 import { getOwn } from '@socketsecurity/lib/objects/inspect'
 import { isObject } from '@socketsecurity/lib/objects/predicates'
 import { ArrayIsArray } from '@socketsecurity/lib/primordials/array'
+import {
+  DateCtor,
+  DateNow,
+  DatePrototypeToISOString,
+} from '@socketsecurity/lib/primordials/date'
 import { ErrorCtor, TypeErrorCtor } from '@socketsecurity/lib/primordials/error'
+import { MathMax, MathMin } from '@socketsecurity/lib/primordials/math'
 import { StringPrototypeTrim } from '@socketsecurity/lib/primordials/string'
 import { pRetry } from '@socketsecurity/lib/promises/retry'
 import { setMaxEventTargetListeners } from '@socketsecurity/lib/events/warning/handler'
@@ -36,14 +44,16 @@ export function getSdkAbortSignal(): AbortSignal {
   return cachedAbortSignal
 }
 
-import { httpRequest } from '@socketsecurity/lib/http-request'
-
 import {
+  CACHE_INVALIDATIONS,
   DEFAULT_CACHE_TTL,
+  DEFAULT_CACHED_ENDPOINTS,
+  DEFAULT_GZIP_MIN_BYTES,
   DEFAULT_HTTP_TIMEOUT,
   DEFAULT_POLL_INTERVAL,
   DEFAULT_RETRIES,
   DEFAULT_RETRY_DELAY,
+  DEFAULT_RETRY_MAX_DELAY,
   DEFAULT_USER_AGENT,
   MAX_FIREWALL_COMPONENTS,
   MAX_HTTP_TIMEOUT,
@@ -56,6 +66,11 @@ import {
   SOCKET_FIREWALL_API_URL,
   SOCKET_PUBLIC_BLOB_STORE_URL,
 } from './constants.mts'
+import {
+  createSocketApiError,
+  getErrorCodeForStatus,
+  SocketServerError,
+} from './errors.mts'
 import {
   createRequestBodyForBlobs,
   createRequestBodyForFilepaths,
@@ -70,11 +85,13 @@ import {
   createDeleteRequest,
   createGetRequest,
   createRequestWithJson,
+  getJsonConditional,
   getResponseJson,
   isResponseOk,
   reshapeArtifactForPublicPolicy,
   ResponseError,
 } from './http-client.mts'
+import { getQuotaCost } from './quota-utils.mts'
 import {
   filterRedundantCause,
   normalizeBaseUrl,
@@ -83,9 +100,34 @@ import {
   resolveAbsPaths,
   resolveBasePath,
 } from './utils.mts'
+import { tailAuditLog } from './utils/audit-log-tail.mts'
+import { patternMatcher } from './utils/cache-store.mts'
+import { CircuitBreaker, CircuitOpenError } from './utils/circuit-breaker.mts'
+import { createCompressionTransport } from './utils/compression.mts'
 import { iterateNdjsonLines, readNdjsonLines } from './utils/ndjson.mts'
+import { paginateCursor, paginatePages } from './utils/paginate.mts'
 import { pollCachedScan } from './utils/poll.mts'
+import { createProxyTransport } from './utils/proxy.mts'
+import {
+  MissingPermissionsError,
+  PermissionGuard,
+  findMissingPermissions,
+} from './utils/permission-guard.mts'
+import { QuotaExceededError, QuotaGuard } from './utils/quota-guard.mts'
+import { updateRateLimitState } from './utils/rate-limit-state.mts'
+import { RateLimiter } from './utils/rate-limiter.mts'
+import {
+  CORRELATION_ID_HEADER,
+  createResponseMetaTransport,
+  getResponseMeta,
+} from './utils/response-meta.mts'
 import { bufferStreamedErrorResponse } from './utils/response-stream.mts'
+import {
+  computeRetryDelay,
+  isRetryableError,
+  isRetryableStatus,
+  resolveRetryPolicy,
+} from './utils/retry-policy.mts'
 
 import type {
   ArtifactPatches,
@@ -98,18 +140,26 @@ import type {
   EntitlementsResponse,
   FileValidationCallback,
   GetOptions,
+  HttpTransport,
   MalwareCheckAlert,
   MalwareCheckPackage,
   MalwareCheckResult,
   MalwareCheckScore,
+  PageNumberPaginationOptions,
+  PaginationOptions,
   PatchViewResponse,
   PostOrgTelemetryPayload,
   PostOrgTelemetryResponse,
   QueryParams,
+  RequestInfo,
   RequestOptions,
   RequestOptionsWithHooks,
+  ResponseInfo,
   SendOptions,
+  SendRequestOptions,
   SocketArtifact,
+  SocketSdkArrayElement,
+  SocketSdkCallOptions,
   SocketSdkErrorResult,
   SocketSdkGenericResult,
   SocketSdkOperations,
@@ -130,6 +180,8 @@ import type {
   HistoricalDependenciesTrendOptions,
   HistoricalSnapshotsListOptions,
   LicensePolicyViolations,
+  OrgAlertResolutionsListOptions,
+  OrgAlertsListOptions,
   UpdateOrgRepoLabelSettingBody,
 } from './types-parity.mts'
 import type {
@@ -148,6 +200,7 @@ import type {
   RepositoryLabelItem,
   RepositoryLabelResult,
   RepositoryLabelsListResult,
+  RepositoryListItem,
   RepositoryResult,
   StrictErrorResult,
 } from './types-strict.mts'
@@ -162,6 +215,8 @@ import type {
   ManifestLocalEntry,
   UploadBlobsResult,
 } from './full-scans-v1.mts'
+import type { SocketApiError } from './errors.mts'
+import type { ConditionalEntry } from './http-client.mts'
 import type {
   PostEventsData,
   PostEventsResult,
@@ -177,10 +232,38 @@ import type {
   ThreatCampaignPackagesData,
   ThreatCampaignsListData,
 } from './threat-campaigns-v1.mts'
+import type {
+  AuditLogWatchItem,
+  WatchAuditLogEventsOptions,
+} from './utils/audit-log-tail.mts'
+import type { CacheStore } from './utils/cache-store.mts'
+import type {
+  CheckPermissionsOptions,
+  PermissionCheck,
+} from './utils/permission-guard.mts'
+import type { RateLimitState } from './utils/rate-limit-state.mts'
+import type { ResponseMeta } from './utils/response-meta.mts'
+import type { RetryInfo, RetryPolicy } from './utils/retry-policy.mts'
 import type { TtlCache } from '@socketsecurity/lib/cache/ttl/types'
 import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
 import type { JsonValue } from '@socketsecurity/lib/json/types'
 
+// The part of `TtlCache` that `#getCached` reads and writes through.
+type CacheView = Pick<TtlCache, 'get' | 'getOrFetch' | 'set'>
+
+// Where `#executeWithRetry` collects the metadata of the response its
+// attempts receive, and the SDK method it runs for the hooks to report.
+type MetaSlot = {
+  meta?: ResponseMeta | undefined
+  methodName?: string | undefined
+}
+
+// A cached response kept past its TTL under `staleWhileRevalidate`.
+type StaleEntry<T> = {
+  fetchedAt: number
+  value: T
+}
+
 /**
  * Socket SDK for programmatic access to Socket.dev security analysis APIs.
  * Provides methods for package scanning, organization management, and security
@@ -191,14 +274,31 @@ export class SocketSdk {
   readonly #baseUrl: string
   readonly #cache: TtlCache | undefined
   readonly #cacheByTtl: Map<number, TtlCache>
+  readonly #cachePrefix: string
+  readonly #cacheStore: CacheStore | undefined
+  readonly #cacheStoreScope: string
   readonly #cacheTtlConfig: SocketSdkOptions['cacheTtl']
+  readonly #circuitBreaker: CircuitBreaker | undefined
+  readonly #correlationId: SocketSdkOptions['correlationId']
+  readonly #errorMode: SocketSdkOptions['errorMode']
   readonly #hooks: SocketSdkOptions['hooks']
+  readonly #inFlight: Map<string, Promise<unknown>>
+  readonly #metaSlots: AsyncLocalStorage<MetaSlot>
   readonly #onFileValidation: FileValidationCallback | undefined
+  readonly #permissionGuard: PermissionGuard | undefined
   readonly #pollIntervalMs: number
+  readonly #quotaGuard: QuotaGuard | undefined
+  readonly #rateLimiter: RateLimiter | undefined
+  #rateLimitState: RateLimitState = {}
   readonly #reqOptions: RequestOptions
   readonly #reqOptionsWithHooks: RequestOptionsWithHooks
+  readonly #responseMeta: WeakMap<object, ResponseMeta>
   readonly #retries: number
   readonly #retryDelay: number
+  readonly #retryPolicy: RetryPolicy | undefined
+  readonly #staleWhileRevalidate: number
+  readonly #transport: HttpTransport
+  readonly #validators: Map<string, ConditionalEntry> | undefined
   #v1FullScansUnavailable = false
 
   /**
@@ -224,54 +324,176 @@ export class SocketSdk {
 
     const {
       baseUrl = 'https://api.socket.dev/v0/',
-      cache = false,
+      ca,
+      cache,
+      cacheStore,
       cacheTtl,
+      circuitBreaker,
+      correlationId,
+      errorMode,
+      gzipRequestBodies,
       hooks,
       onFileValidation,
+      permissionGuard,
       pollIntervalMs = DEFAULT_POLL_INTERVAL,
+      proxy,
+      quotaGuard,
+      rateLimiter,
       retries = DEFAULT_RETRIES,
       retryDelay = DEFAULT_RETRY_DELAY,
+      retryPolicy,
+      staleWhileRevalidate = 0,
       timeout = DEFAULT_HTTP_TIMEOUT,
+      transport = createProxyTransport({ ca, proxy }),
       userAgent,
     } = { __proto__: null, ...options } as SocketSdkOptions
 
-    // Validate timeout parameter.
-    if (timeout !== undefined) {
-      if (
-        typeof timeout !== 'number' ||
-        Number.isNaN(timeout) ||
-        timeout < MIN_HTTP_TIMEOUT ||
-        timeout > MAX_HTTP_TIMEOUT
-      ) {
-        throw new TypeErrorCtor(
-          `"timeout" must be a number between ${MIN_HTTP_TIMEOUT} and ${MAX_HTTP_TIMEOUT} milliseconds`,
-        )
-      }
-    }
+    validateTimeout(timeout)
 
     this.#apiToken = trimmedToken
     this.#baseUrl = normalizeBaseUrl(baseUrl)
     this.#cacheTtlConfig = cacheTtl
+    this.#correlationId = correlationId
+    this.#errorMode = errorMode
     // For backward compatibility, if cacheTtl is a number, use it as default TTL.
     // If it's an object, use the default property or fallback to DEFAULT_CACHE_TTL.
     const defaultTtl =
       typeof cacheTtl === 'number'
         ? cacheTtl
         : (cacheTtl?.default ?? DEFAULT_CACHE_TTL)
-    this.#cache = cache
-      ? createTtlCache({
-          memoize: true,
-          prefix: 'socket-sdk',
-          ttl: defaultTtl,
-        })
-      : /* c8 ignore next - cache disabled by default */ undefined
+    // A cache store turns caching on unless `cache` says otherwise.
+    const useCache = cache ?? cacheStore !== undefined
+    this.#staleWhileRevalidate = MathMax(0, staleWhileRevalidate)
+    // Stale-while-revalidate entries record when they were fetched, so they
+    // live under their own prefix and are kept for the window past their TTL.
+    this.#cachePrefix = this.#staleWhileRevalidate
+      ? 'socket-sdk-swr'
+      : 'socket-sdk'
+    this.#cache =
+      useCache && !cacheStore
+        ? createTtlCache({
+            memoize: true,
+            prefix: this.#cachePrefix,
+            ttl: defaultTtl + this.#staleWhileRevalidate,
+          })
+        : /* c8 ignore next - cache disabled by default */ undefined
+    this.#cacheStore = useCache ? cacheStore : undefined
+    // Entries in a shared store are scoped to the API token and base URL so
+    // one store can serve several tokens without mixing their results.
+    this.#cacheStoreScope = this.#cacheStore
+      ? createHash('sha256')
+          .update(`${this.#baseUrl}\n${trimmedToken}`)
+          .digest('hex')
+          .slice(0, 16)
+      : ''
     // Map of TTL values to cache instances for per-endpoint caching.
     this.#cacheByTtl = new Map()
+    // One breaker per instance, shared by every method routed through
+    // #executeWithRetry. Only network errors and 5xx responses count as
+    // failures; any other response proves the API is reachable, and a call
+    // its caller aborted says nothing about the API.
+    this.#circuitBreaker = circuitBreaker
+      ? new CircuitBreaker({
+          ...circuitBreaker,
+          isFailure: e =>
+            e instanceof ResponseError
+              ? e.response.status >= 500
+              : !(e instanceof SyntaxError),
+          isIgnored: isAbortError,
+          onStateChange: info => {
+            try {
+              this.#hooks?.onCircuitStateChange?.(info)
+            } catch {
+              // A logging hook must not change the outcome of the call.
+            }
+          },
+        })
+      : undefined
     this.#hooks = hooks
+    // Requests currently in flight, keyed by method and URL path, so that
+    // concurrent identical GETs share one request.
+    this.#inFlight = new Map()
+    // Response metadata of the call in progress, and of finished calls keyed
+    // by the data or error they produced, until their result is built.
+    this.#metaSlots = new AsyncLocalStorage()
+    this.#responseMeta = new WeakMap()
     this.#onFileValidation = onFileValidation
+    // The guard looks the token's scopes up through getAPITokens, which is
+    // never checked itself (see #checkPermissions).
+    this.#permissionGuard = permissionGuard
+      ? new PermissionGuard({
+          ...permissionGuard,
+          fetchScopes: async () => {
+            const result = await this.#resolveScopes(permissionGuard.orgSlug!)
+            if (!result.success) {
+              throw new ErrorCtor(result.error)
+            }
+            return result.data
+          },
+        })
+      : undefined
     this.#pollIntervalMs = pollIntervalMs
+    // The guard learns the remaining quota through getQuota, which costs
+    // nothing and so never waits on the guard itself.
+    this.#quotaGuard = quotaGuard
+      ? new QuotaGuard({
+          ...quotaGuard,
+          // Straight from the API rather than through getQuota: a cached
+          // quota would start the local count from a stale figure.
+          fetchRemaining: async () => {
+            const data = (await this.#executeWithRetry(
+              async () =>
+                await getJsonConditional(
+                  this.#baseUrl,
+                  'quota',
+                  undefined,
+                  this.#reqOptions,
+                ),
+              'getQuota',
+            )) as SocketSdkSuccessResult<'getQuota'>['data']
+            return data.quota
+          },
+          onQuotaLow: info => this.#hooks?.onQuotaLow?.(info),
+        })
+      : undefined
+    // A limiter instance is used as-is so callers can share it across SDK
+    // instances; plain options get a limiter private to this instance.
+    this.#rateLimiter =
+      !rateLimiter || 'acquire' in rateLimiter
+        ? rateLimiter
+        : new RateLimiter(rateLimiter)
     this.#retries = retries
     this.#retryDelay = retryDelay
+    this.#retryPolicy = retryPolicy
+    // Every request goes through the compression wrapper: it gzips large
+    // bodies when asked to and decodes streamed responses. Response metadata
+    // is recorded for the call that sent the request, and rate-limit headers
+    // update the client's rate-limit state.
+    const sendTransport = createResponseMetaTransport(
+      createCompressionTransport(transport, {
+        gzipMinBytes:
+          gzipRequestBodies === true
+            ? DEFAULT_GZIP_MIN_BYTES
+            : typeof gzipRequestBodies === 'number'
+              ? gzipRequestBodies
+              : undefined,
+      }),
+      (meta, response) => {
+        const slot = this.#metaSlots.getStore()
+        if (slot) {
+          slot.meta = meta
+        }
+        this.#rateLimitState = updateRateLimitState(
+          this.#rateLimitState,
+          response.headers,
+          DateNow(),
+        )
+      },
+    )
+    this.#transport = sendTransport
+    // ETag / Last-Modified validators and bodies of revalidated GETs, keyed by
+    // cache key (URL path for uncached endpoints). Kept only with caching on.
+    this.#validators = useCache ? new Map() : undefined
     this.#reqOptions = {
       headers: {
         Authorization: `Basic ${btoa(`${trimmedToken}:`)}`,
@@ -282,25 +504,93 @@ export class SocketSdk {
       signal: getSdkAbortSignal(),
       /* c8 ignore next - Optional timeout parameter, tested implicitly through method calls */
       ...(timeout ? { timeout } : {}),
+      transport: sendTransport,
     }
+    // Hooks see the SDK method that sent each request.
     this.#reqOptionsWithHooks = {
       ...this.#reqOptions,
-      hooks: this.#hooks,
+      hooks: hooks && {
+        onRequest:
+          hooks.onRequest &&
+          (info => hooks.onRequest!(this.#withMethodName(info))),
+        onResponse:
+          hooks.onResponse &&
+          (info => hooks.onResponse!(this.#withMethodName(info))),
+      },
+    }
+  }
+
+  /**
+   * Wait for the rate limiter, if configured, before sending one request for
+   * `methodName`. Charges the method's quota cost unless `chargeQuota` is
+   * false (a retry of a call already charged); methods missing from the quota
+   * table are only counted as a request. Aborting `signal` leaves the queue.
+   */
+  async #acquireRateLimit(
+    methodName: string | undefined,
+    signal?: AbortSignal | undefined,
+    chargeQuota = true,
+  ): Promise<void> {
+    const limiter = this.#rateLimiter
+    if (!limiter) {
+      return
+    }
+    let cost = 0
+    if (methodName && chargeQuota) {
+      try {
+        cost = getQuotaCost(methodName)
+      } catch {
+        // Not in the quota table (e.g. getFullScan): count the request only.
+      }
+    }
+    await limiter.acquire(cost, signal)
+  }
+
+  /**
+   * Check with the permission guard, if configured, that the token has the
+   * scopes `methodName` requires. Throws `MissingPermissionsError` when it
+   * does not.
+   */
+  async #checkPermissions(methodName: string | undefined): Promise<void> {
+    const guard = this.#permissionGuard
+    // getAPITokens is how the guard looks the scopes up; checking it would
+    // wait on itself.
+    if (guard && methodName && methodName !== 'getAPITokens') {
+      await guard.check(methodName)
     }
   }
 
+  /**
+   * Reserve the quota cost of one `methodName` call with the quota guard, if
+   * configured. Throws `QuotaExceededError` when the guard blocks the call;
+   * otherwise resolves the function that settles the reservation once the
+   * call completes.
+   */
+  async #reserveQuota(
+    methodName: string | undefined,
+  ): Promise<((spent: boolean) => void) | undefined> {
+    const guard = this.#quotaGuard
+    return guard && methodName ? await guard.reserve(methodName) : undefined
+  }
+
   /**
    * Create async generator for streaming batch package URL processing. Internal
    * method for handling chunked PURL responses with error handling.
    */
   async *#createBatchPurlGenerator(
+    methodName: string,
     componentsObj: { components: Array<{ purl: string }> },
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): AsyncGenerator<BatchPackageFetchResultType> {
     let res: HttpResponse | undefined
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      res = await this.#executeWithRetry(() =>
-        this.#createBatchPurlRequest(componentsObj, queryParams),
+      res = await this.#executeWithRetry(
+        () =>
+          this.#createBatchPurlRequest(componentsObj, queryParams, reqOptions),
+        methodName,
+        callOptions,
       )
       /* c8 ignore next 4 - c8 ignored: because async generator catch+yield requires the caller to consume the generator during a network failure, which nock cannot simulate in threads pool */
     } catch (e) {
@@ -340,14 +630,16 @@ export class SocketSdk {
    */
   async #createBatchPurlRequest(
     componentsObj: { components: Array<{ purl: string }> },
-    queryParams?: QueryParams | undefined,
+    queryParams: QueryParams | undefined,
+    reqOptions: RequestOptions,
   ): Promise<HttpResponse> {
     const url = `${this.#baseUrl}purl?${queryToSearchParams(queryParams)}`
-    const response = await httpRequest(url, {
+    const response = await this.#transport(url, {
       method: 'POST',
       body: JSON.stringify(componentsObj),
-      headers: this.#reqOptions.headers as Record<string, string>,
-      timeout: this.#reqOptions.timeout,
+      headers: reqOptions.headers as Record<string, string>,
+      signal: reqOptions.signal,
+      timeout: reqOptions.timeout,
       maxResponseSize: MAX_RESPONSE_SIZE,
     })
 
@@ -365,6 +657,18 @@ export class SocketSdk {
    * error handling for non-throwing query API methods.
    */
   #createQueryErrorResult<T>(e: unknown): SocketSdkGenericResult<T> {
+    if (isAbortError(e)) {
+      return this.#createAbortedResult(e)
+    }
+    if (e instanceof CircuitOpenError) {
+      return this.#createCircuitOpenResult(e)
+    }
+    if (e instanceof MissingPermissionsError) {
+      return this.#createMissingPermissionsResult(e)
+    }
+    if (e instanceof QuotaExceededError) {
+      return this.#createQuotaExceededResult(e)
+    }
     if (e instanceof SyntaxError) {
       // Try to get response text from enhanced error, fall back to regex pattern for compatibility.
       const enhancedError = e as SyntaxError & {
@@ -381,6 +685,7 @@ export class SocketSdk {
       const preview = responseText.slice(0, 100) || ''
       return {
         cause: `Please report this. JSON.parse threw an error over the following response: \`${StringPrototypeTrim(preview)}${responseText.length > 100 ? '…' : ''}\``,
+        code: 'INVALID_JSON',
         data: undefined,
         error: 'Server returned invalid JSON',
         status: 0,
@@ -391,6 +696,7 @@ export class SocketSdk {
     const errStr = e ? StringPrototypeTrim(getErrorMessage(e)) : ''
     return {
       cause: errStr || UNKNOWN_ERROR,
+      code: 'NETWORK_ERROR',
       data: undefined,
       error: 'API request failed',
       status: 0,
@@ -398,49 +704,293 @@ export class SocketSdk {
     }
   }
 
+  /**
+   * Create the error result for a call cancelled through its signal. Under
+   * `errorMode: 'throw'` the abort reason is rethrown instead. Status 0
+   * because no response was received.
+   */
+  #createAbortedResult(e: unknown): StrictErrorResult {
+    if (this.#errorMode === 'throw') {
+      throw e
+    }
+    return {
+      cause: getErrorMessage(e),
+      code: 'ABORTED',
+      data: undefined,
+      error: 'Request aborted',
+      status: 0,
+      success: false,
+    }
+  }
+
+  /**
+   * Create the fast-fail error result returned while the circuit breaker is
+   * open. Status 0 because no request was sent.
+   */
+  #createCircuitOpenResult(e: CircuitOpenError): StrictErrorResult {
+    return {
+      cause: `Socket API circuit breaker is open after repeated failures; requests resume at ${DatePrototypeToISOString(new DateCtor(e.retryAt))}.`,
+      code: 'CIRCUIT_OPEN',
+      data: undefined,
+      error: e.message,
+      status: 0,
+      success: false,
+    }
+  }
+
+  /**
+   * Create the error result returned when the permission guard stops a call.
+   * Status 0 because no request was sent.
+   */
+  #createMissingPermissionsResult(
+    e: MissingPermissionsError,
+  ): StrictErrorResult {
+    const { methodName, missing } = e.info
+    return {
+      cause: `Calling ${methodName} needs the token scopes ${missing.join(', ')}, which it lacks.`,
+      code: 'FORBIDDEN_SCOPE',
+      data: undefined,
+      details: e.info,
+      error: e.message,
+      status: 0,
+      success: false,
+    }
+  }
+
+  /**
+   * Create the error result returned when the quota guard blocks a call.
+   * Status 0 because no request was sent.
+   */
+  #createQuotaExceededResult(e: QuotaExceededError): StrictErrorResult {
+    const { cost, floor, methodName, remaining } = e.info
+    return {
+      cause: `Calling ${methodName} would spend ${cost} quota units of the ${remaining} left, going below the configured floor of ${floor}.`,
+      code: 'QUOTA_EXCEEDED',
+      data: undefined,
+      details: e.info,
+      error: e.message,
+      status: 0,
+      success: false,
+    }
+  }
+
   /**
    * Execute an HTTP request with retry logic. Internal method for wrapping HTTP
-   * operations with exponential backoff.
-   */
-  async #executeWithRetry<T>(operation: () => Promise<T>): Promise<T> {
-    const result = await pRetry(operation, {
-      baseDelayMs: this.#retryDelay,
-      onRetry: (
-        _attempt: number,
-        error: unknown,
-        _delay: number,
-      ): boolean | number | undefined => {
-        /* c8 ignore next 3 - c8 ignored: because all SDK HTTP operations throw ResponseError on failure; non-ResponseError types (e.g. DNS, timeout) use pRetry's default retry behavior */
-        if (!(error instanceof ResponseError)) {
-          return undefined
-        }
-        const { status } = error.response
-        // Rate limiting (429) is always retried; use custom delay from Retry-After if present.
-        if (status === 429) {
-          const retryAfter = this.#parseRetryAfter(
-            error.response.headers['retry-after'],
-          )
-          if (retryAfter !== undefined) {
-            return retryAfter
-          }
-          return undefined
-        }
-        // Don't retry other client errors (4xx) - they won't succeed on retry.
-        if (status >= 400 && status < 500) {
-          throw error
+   * operations with exponential backoff. When the circuit breaker is enabled
+   * every attempt passes through it, so calls already backing off stop as soon
+   * as the circuit opens. Every attempt, retries included, waits for the rate
+   * limiter; `methodName` selects its quota cost.
+   */
+  async #executeWithRetry<T>(
+    operation: () => Promise<T>,
+    methodName?: string | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<T> {
+    const policy = resolveRetryPolicy(this.#retryPolicy, methodName)
+    const { retries = policy.retries ?? this.#retries, signal } = {
+      __proto__: null,
+      ...callOptions,
+    } as SocketSdkCallOptions
+    const {
+      baseDelayMs = this.#retryDelay,
+      jitter,
+      maxDelayMs = DEFAULT_RETRY_MAX_DELAY,
+    } = policy
+    const breaker = this.#circuitBreaker
+    // The call is charged its quota cost once; retries count as requests.
+    let charged = false
+    const paced = this.#rateLimiter
+      ? async () => {
+          await this.#acquireRateLimit(methodName, signal, !charged)
+          charged = true
+          return await operation()
         }
-        return undefined
-      },
-      onRetryRethrow: true,
-      retries: this.#retries,
-    })
-    /* c8 ignore next 3 - c8 ignored: because pRetry always returns a value or throws; undefined is only possible if the abort signal fires between attempts, which requires precise timing */
+      : operation
+    const attempt = breaker ? async () => await breaker.run(paced) : paced
+    const slot: MetaSlot = { methodName }
+    await this.#checkPermissions(methodName)
+    const settleQuota = await this.#reserveQuota(methodName)
+    let previousDelay = baseDelayMs
+    let result: T | undefined
+    try {
+      result = await this.#metaSlots.run(slot, () =>
+        pRetry(attempt, {
+          baseDelayMs,
+          // With a jitter mode set the delay is computed below; otherwise
+          // pRetry's own jittered backoff is used.
+          jitter: jitter === undefined,
+          maxDelayMs,
+          onRetry: (
+            retry: number,
+            error: unknown,
+            delay: number,
+          ): boolean | number | undefined => {
+            // An open circuit fails fast; retrying would only wait out backoff.
+            if (error instanceof CircuitOpenError) {
+              throw error
+            }
+            const status =
+              error instanceof ResponseError ? error.response.status : undefined
+            if (
+              status === undefined
+                ? !isRetryableError(policy, error)
+                : !isRetryableStatus(policy, status)
+            ) {
+              throw error
+            }
+            // A Retry-After header on a 429 replaces the computed backoff.
+            let retryAfter: number | undefined
+            if (status === 429) {
+              retryAfter = this.#parseRetryAfter(
+                (error as ResponseError).response.headers['retry-after'],
+              )
+            }
+            let delayMs = delay
+            if (retryAfter !== undefined) {
+              delayMs = MathMin(retryAfter, maxDelayMs)
+            } else if (jitter !== undefined) {
+              delayMs = computeRetryDelay(
+                jitter,
+                retry,
+                baseDelayMs,
+                maxDelayMs,
+                previousDelay,
+              )
+            }
+            previousDelay = delayMs
+            const info: RetryInfo = {
+              attempt: retry,
+              cause: error,
+              delayMs,
+              methodName,
+              status,
+            }
+            try {
+              policy.onRetry?.(info)
+            } catch {
+              // A logging hook must not change the outcome of the call.
+            }
+            try {
+              this.#hooks?.onRetry?.(info)
+            } catch {
+              // Nor must the SDK-wide hook.
+            }
+            return delayMs
+          },
+          onRetryRethrow: true,
+          retries,
+          signal,
+        }),
+      )
+    } catch (e) {
+      settleQuota?.(false)
+      // An aborted request fails with a network error wrapping the abort;
+      // surface the caller's abort reason instead.
+      if (signal?.aborted) {
+        throw signal.reason
+      }
+      this.#rememberMeta(e, slot.meta)
+      throw e
+    }
+    settleQuota?.(result !== undefined)
     if (result === undefined) {
+      // pRetry stops without a value when the call signal aborts between
+      // attempts; surface the caller's abort reason.
+      signal?.throwIfAborted()
+      /* c8 ignore next - pRetry only resolves undefined once aborted */
       throw new ErrorCtor('Request aborted')
     }
+    this.#rememberMeta(result, slot.meta)
     return result
   }
 
+  /**
+   * Remember `meta` as the response metadata behind `value`, the data or
+   * error a call produced, so the result built from it can carry it.
+   */
+  #rememberMeta(value: unknown, meta: ResponseMeta | undefined): void {
+    if (meta && isObject(value)) {
+      this.#responseMeta.set(value, meta)
+    }
+  }
+
+  /**
+   * `info` with the SDK method of the call in progress, if any.
+   */
+  #withMethodName<T extends RequestInfo | ResponseInfo>(info: T): T {
+    const methodName = this.#metaSlots.getStore()?.methodName
+    return methodName ? { ...info, methodName } : info
+  }
+
+  /**
+   * The response metadata remembered for `value`. A `ResponseError` not seen
+   * by `#executeWithRetry` still yields the metadata of its response headers.
+   */
+  #metaFor(value: unknown): ResponseMeta | undefined {
+    if (!isObject(value)) {
+      return undefined
+    }
+    return (
+      this.#responseMeta.get(value) ??
+      (value instanceof ResponseError
+        ? getResponseMeta(value.response.headers)
+        : undefined)
+    )
+  }
+
+  /**
+   * Request options for one POST/PUT call. The idempotency key is chosen here,
+   * outside the retry loop, so every attempt of the call sends the same key.
+   */
+  #sendRequestOptions(
+    callOptions: SocketSdkCallOptions | undefined,
+  ): SendRequestOptions {
+    return {
+      ...this.#callRequestOptions(callOptions),
+      idempotencyKey: callOptions?.idempotencyKey ?? randomUUID(),
+    }
+  }
+
+  /**
+   * Request options for one call, applying its `signal` and `timeout`
+   * overrides to `base` (the hooked instance options by default). A call
+   * signal takes the place of the SDK's process signal rather than being
+   * chained to it, which would leave one listener on the long-lived process
+   * signal per call.
+   */
+  #callRequestOptions(
+    callOptions: SocketSdkCallOptions | undefined,
+    base: RequestOptionsWithHooks = this.#reqOptionsWithHooks,
+  ): RequestOptionsWithHooks {
+    const {
+      correlationId = typeof this.#correlationId === 'function'
+        ? this.#correlationId()
+        : this.#correlationId,
+      signal,
+      timeout,
+    } = {
+      __proto__: null,
+      ...callOptions,
+    } as SocketSdkCallOptions
+    if (!correlationId && !signal && timeout === undefined) {
+      return base
+    }
+    validateTimeout(timeout)
+    return {
+      ...base,
+      ...(correlationId
+        ? {
+            headers: {
+              ...(base.headers as Record<string, string> | undefined),
+              [CORRELATION_ID_HEADER]: correlationId,
+            },
+          }
+        : {}),
+      ...(signal ? { signal } : {}),
+      ...(timeout === undefined ? {} : { timeout }),
+    }
+  }
+
   /**
    * Get the TTL for a specific endpoint. Returns endpoint-specific TTL if
    * configured, otherwise returns default TTL.
@@ -473,8 +1023,8 @@ export class SocketSdk {
     if (!cache) {
       cache = createTtlCache({
         memoize: true,
-        prefix: 'socket-sdk',
-        ttl,
+        prefix: this.#cachePrefix,
+        ttl: ttl + this.#staleWhileRevalidate,
       })
       this.#cacheByTtl.set(ttl, cache)
     }
@@ -484,16 +1034,30 @@ export class SocketSdk {
   /**
    * Execute a GET request with optional caching. Internal method for handling
    * cached GET requests with retry logic. Supports per-endpoint TTL
-   * configuration.
+   * configuration. Concurrent calls for the same key share one request.
    */
   async #getCached<T>(
+    methodName: string,
     cacheKey: string,
     fetcher: () => Promise<T>,
     endpointName?: string | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<T> {
-    // If caching is disabled, just execute the request.
-    if (!this.#cache) {
-      return await this.#executeWithRetry(fetcher)
+    // Concurrent callers for the same key share one request either way.
+    const fetchShared = async () =>
+      await this.#singleFlight(
+        `${methodName} ${cacheKey}`,
+        async () =>
+          await this.#executeWithRetry(fetcher, methodName, callOptions),
+        callOptions,
+      )
+    // If caching is disabled, or this endpoint has not opted in, just execute
+    // the request.
+    if (
+      (!this.#cache && !this.#cacheStore) ||
+      (endpointName !== undefined && !this.#isEndpointCached(endpointName))
+    ) {
+      return await fetchShared()
     }
 
     // Get endpoint-specific TTL if provided.
@@ -502,83 +1066,303 @@ export class SocketSdk {
       : undefined
 
     // Select the appropriate cache instance.
-    // If endpoint has custom TTL, get/create cache for that TTL.
-    // Otherwise use the default cache.
-    const cacheToUse =
-      endpointTtl !== undefined
+    // A cache store serves every TTL itself. Otherwise, if endpoint has custom
+    // TTL, get/create cache for that TTL, or use the default cache.
+    const cacheToUse = this.#cacheStore
+      ? this.#storeCache(
+          (endpointTtl ?? DEFAULT_CACHE_TTL) + this.#staleWhileRevalidate,
+        )
+      : endpointTtl !== undefined
         ? this.#getCacheForTtl(endpointTtl)
-        : this.#cache
+        : this.#cache!
+
+    if (this.#staleWhileRevalidate) {
+      return await this.#getOrRevalidate(
+        methodName,
+        cacheKey,
+        endpointTtl ?? DEFAULT_CACHE_TTL,
+        cacheToUse,
+        fetchShared,
+      )
+    }
 
     // Use cache with retry logic.
-    return await cacheToUse.getOrFetch(cacheKey, async () => {
-      return await this.#executeWithRetry(fetcher)
-    })
+    return await cacheToUse.getOrFetch(cacheKey, fetchShared)
+  }
+
+  /**
+   * Read `cacheKey` under the stale-while-revalidate window. A fresh entry is
+   * returned as is; a stale one is returned at once while `fetcher` refreshes
+   * it in the background; a missing one waits for `fetcher`. A failed refresh
+   * is reported to `hooks.onBackgroundRefreshError` and leaves the stale entry
+   * in place.
+   */
+  async #getOrRevalidate<T>(
+    methodName: string,
+    cacheKey: string,
+    ttl: number,
+    cache: CacheView,
+    fetcher: () => Promise<T>,
+  ): Promise<T> {
+    const entry = await cache.get<StaleEntry<T>>(cacheKey)
+    if (entry === undefined) {
+      const value = await fetcher()
+      await cache.set(cacheKey, { fetchedAt: DateNow(), value })
+      return value
+    }
+    if (DateNow() - entry.fetchedAt >= ttl) {
+      // Concurrent stale reads share one refresh through #singleFlight.
+      void fetcher()
+        .then(
+          async value =>
+            await cache.set(cacheKey, { fetchedAt: DateNow(), value }),
+        )
+        .catch(e => {
+          debugLog(
+            'cache',
+            `${methodName}: background refresh of ${cacheKey} failed: ${getErrorMessage(e)}`,
+          )
+          try {
+            this.#hooks?.onBackgroundRefreshError?.({
+              cacheKey,
+              error: e,
+              methodName,
+            })
+          } catch {
+            // A throwing hook must not surface as an unhandled rejection.
+          }
+        })
+    }
+    return entry.value
+  }
+
+  /**
+   * The configured cache store, scoped to this client and shaped like a
+   * `TtlCache` whose entries live for `ttl`. A store that fails is logged and
+   * treated as a miss so caching never fails a call.
+   */
+  #storeCache(ttl: number): CacheView {
+    const store = this.#cacheStore!
+    const scope = `${this.#cachePrefix}:${this.#cacheStoreScope}`
+    const get = async <T,>(key: string): Promise<T | undefined> => {
+      try {
+        return (await store.get(`${scope}:${key}`)) as T | undefined
+      } catch (e) {
+        debugLog('cache', `cache store get failed: ${getErrorMessage(e)}`)
+        return undefined
+      }
+    }
+    const set = async <T,>(key: string, data: T): Promise<void> => {
+      try {
+        await store.set(`${scope}:${key}`, data, ttl)
+      } catch (e) {
+        debugLog('cache', `cache store set failed: ${getErrorMessage(e)}`)
+      }
+    }
+    return {
+      get,
+      async getOrFetch<T>(key: string, fetcher: () => Promise<T>) {
+        const cached = await get<T>(key)
+        if (cached !== undefined) {
+          return cached
+        }
+        const data = await fetcher()
+        await set(key, data)
+        return data
+      },
+      set,
+    }
+  }
+
+  /**
+   * Whether responses from `endpoint` are cached: always for the endpoints
+   * cached since caching was introduced, otherwise only when the `cacheTtl`
+   * object names the endpoint.
+   */
+  #isEndpointCached(endpoint: string): boolean {
+    if (DEFAULT_CACHED_ENDPOINTS.includes(endpoint)) {
+      return true
+    }
+    const cacheTtl = this.#cacheTtlConfig
+    return (
+      typeof cacheTtl === 'object' &&
+      typeof (cacheTtl as Record<string, number | undefined>)[endpoint] ===
+        'number'
+    )
+  }
+
+  /**
+   * Evict the cached responses a successful `methodName` call has made stale,
+   * as listed in `CACHE_INVALIDATIONS`. A failed eviction is logged rather
+   * than failing the call that already succeeded.
+   */
+  async #invalidateAfter(methodName: string, orgSlug: string): Promise<void> {
+    if (!this.#cache && !this.#cacheStore) {
+      return
+    }
+    const patterns = CACHE_INVALIDATIONS[methodName] ?? []
+    for (let i = 0, { length } = patterns; i < length; i += 1) {
+      const pattern = patterns[i]!.replaceAll('{orgSlug}', orgSlug)
+      try {
+        await this.invalidateCache(pattern)
+      } catch (e) {
+        debugLog(
+          'cache',
+          `${methodName}: evicting ${pattern} failed: ${getErrorMessage(e)}`,
+        )
+      }
+    }
   }
 
   /**
    * Drive the cached-scan 200/202 polling loop for a GET url path. Each poll is
    * retry-wrapped (so 429/5xx still back off) and throws a ResponseError on a
    * non-2xx status; a 200 resolves with parsed JSON and a 202 keeps polling
-   * until the result is ready or the wall-clock budget is exhausted. Internal
-   * shared helper for getDiffScanById and getFullScan.
+   * until the result is ready or the wall-clock budget is exhausted.
+   * Concurrent calls for the same path share one poll loop. Internal shared
+   * helper for getDiffScanById and getFullScan.
    */
   async #pollCachedScan(
+    methodName: string,
     urlPath: string,
     label: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<JsonValue | undefined> {
-    return await pollCachedScan({
-      label,
-      pollIntervalMs: this.#pollIntervalMs,
-      requestFn: async () =>
-        await this.#executeWithRetry(async () => {
-          const response = await createGetRequest(
-            this.#baseUrl,
-            urlPath,
-            this.#reqOptionsWithHooks,
-          )
-          // 202 Accepted is ok (2xx); let it through for the poll loop. Any
-          // non-2xx throws so #executeWithRetry retries 429/5xx and 4xx
-          // surfaces to the caller's catch.
-          if (!isResponseOk(response)) {
-            throw new ResponseError(response, '', urlPath)
-          }
-          return response
+    const reqOptions = this.#callRequestOptions(callOptions)
+    return await this.#singleFlight(
+      `${methodName} ${urlPath}`,
+      async () =>
+        await pollCachedScan({
+          label,
+          pollIntervalMs: this.#pollIntervalMs,
+          requestFn: async () =>
+            await this.#executeWithRetry(
+              async () => {
+                const response = await createGetRequest(
+                  this.#baseUrl,
+                  urlPath,
+                  reqOptions,
+                )
+                // 202 Accepted is ok (2xx); let it through for the poll loop. Any
+                // non-2xx throws so #executeWithRetry retries 429/5xx and 4xx
+                // surfaces to the caller's catch.
+                if (!isResponseOk(response)) {
+                  throw new ResponseError(response, '', urlPath)
+                }
+                return response
+              },
+              methodName,
+              callOptions,
+            ),
+          signal: reqOptions.signal,
         }),
+      callOptions,
+    )
+  }
+
+  /**
+   * Share one in-flight call between concurrent callers asking for the same
+   * `key` (method name and URL path), so they send one request or run one poll
+   * loop and all receive its result. The entry is dropped once the call
+   * settles; later calls start afresh. Joining callers inherit the first
+   * caller's `timeout` and `retries`. Calls carrying their own `signal` are
+   * never shared, so aborting one caller cannot cancel another.
+   */
+  async #singleFlight<T>(
+    key: string,
+    fn: () => Promise<T>,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<T> {
+    if (callOptions?.signal) {
+      return await fn()
+    }
+    const pending = this.#inFlight.get(key) as Promise<T> | undefined
+    if (pending) {
+      return await pending
+    }
+    const promise = fn().finally(() => {
+      this.#inFlight.delete(key)
     })
+    this.#inFlight.set(key, promise)
+    return await promise
   }
 
   /**
    * Handle API error responses and convert to standardized error result.
    * Internal error handling with status code analysis and message formatting.
+   * Under `errorMode: 'throw'` the result is thrown as a `SocketApiError`
+   * instead; under `errorMode: 'result'` server and network errors become
+   * results too.
    */
   async #handleApiError<T extends SocketSdkOperations>(
     error: unknown,
   ): Promise<SocketSdkErrorResult<T>> {
+    if (isAbortError(error)) {
+      return this.#createAbortedResult(error)
+    }
+    const errorMode = this.#errorMode
+    // Failures without an HTTP status become results as well; under
+    // `errorMode: 'throw'` they are thrown as the matching `SocketApiError`
+    // with the original failure as its cause.
     // Handle JSON parsing errors (SyntaxError from invalid API responses)
     if (error instanceof SyntaxError) {
-      return {
-        success: false as const,
-        error: error.message,
-        // Response was HTTP 200 but body was not valid JSON
-        status: 200,
-      }
+      return this.#errorResult(
+        {
+          success: false as const,
+          code: 'INVALID_JSON',
+          error: error.message,
+          meta: this.#metaFor(error),
+          // Response was HTTP 200 but body was not valid JSON
+          status: 200,
+        },
+        error,
+      )
+    }
+    if (error instanceof CircuitOpenError) {
+      return this.#errorResult(this.#createCircuitOpenResult(error), error)
+    }
+    if (error instanceof MissingPermissionsError) {
+      return this.#errorResult(
+        this.#createMissingPermissionsResult(error),
+        error,
+      )
+    }
+    if (error instanceof QuotaExceededError) {
+      return this.#errorResult(this.#createQuotaExceededResult(error), error)
     }
     if (!(error instanceof ResponseError)) {
+      if (errorMode === 'result') {
+        return {
+          cause: getErrorMessage(error),
+          code: 'NETWORK_ERROR',
+          data: undefined,
+          error: 'Unexpected Socket API error',
+          meta: this.#metaFor(error),
+          status: 0,
+          success: false,
+        }
+      }
       throw new ErrorCtor('Unexpected Socket API error', {
         cause: error,
       })
     }
     const { status: statusCode } = error.response
-    // Throw server errors (5xx) immediately - these are not recoverable client-side.
-    if (statusCode && statusCode >= 500) {
-      throw new ErrorCtor(`Socket API server error (${statusCode})`, {
+    // Throw server errors (5xx) immediately - these are not recoverable
+    // client-side - unless an errorMode asks for uniform handling.
+    if (statusCode && statusCode >= 500 && errorMode === undefined) {
+      throw new SocketServerError(`Socket API server error (${statusCode})`, {
         cause: error,
+        response: error.response,
+        status: statusCode,
+        url: error.url,
       })
     }
     // The error payload may give a meaningful hint as to what went wrong.
     const bodyStr = error.response.text()
     // Try to parse the body as JSON, fallback to treating as plain text.
     let body: string | undefined
+    let details: unknown
+    let apiMessage: string | undefined
     try {
       const parsed: {
         error?:
@@ -589,6 +1373,8 @@ export class SocketSdk {
       // Extract both message and details from error response for better context.
       if (typeof parsed?.error?.message === 'string') {
         body = parsed.error.message
+        apiMessage = body
+        details = parsed.error.details ?? undefined
 
         // Include details if present for additional error context.
         if (parsed.error.details) {
@@ -676,18 +1462,58 @@ export class SocketSdk {
     // This prevents repeating essentially the same information twice.
     const finalCause = filterRedundantCause(errorMessage, causeWithGuidance)
 
-    return {
-      cause: finalCause,
-      data: undefined,
-      error: errorMessage,
-      /* c8 ignore next - fallback for missing status code in edge cases. */
-      status: statusCode ?? 0,
-      success: false,
-      url: error.url,
-    }
-  }
-
-  /**
+    return this.#errorResult(
+      {
+        cause: finalCause,
+        code: getErrorCodeForStatus(statusCode ?? 0, apiMessage ?? body),
+        data: undefined,
+        details,
+        error: errorMessage,
+        meta: this.#metaFor(error),
+        /* c8 ignore next - fallback for missing status code in edge cases. */
+        status: statusCode ?? 0,
+        success: false,
+        url: error.url,
+      },
+      error,
+    )
+  }
+
+  /**
+   * Return `result`, or throw it as the matching `SocketApiError` under
+   * `errorMode: 'throw'`. `error` is the failure behind the result, if any.
+   */
+  #errorResult<R extends StrictErrorResult>(result: R, error?: unknown): R {
+    if (this.#errorMode === 'throw') {
+      throw this.#toSocketApiError(result, error)
+    }
+    return result
+  }
+
+  /**
+   * The `SocketApiError` subclass describing a failed `result`.
+   */
+  #toSocketApiError(
+    result: StrictErrorResult,
+    error?: unknown,
+  ): SocketApiError {
+    const response = error instanceof ResponseError ? error.response : undefined
+    return createSocketApiError(result.error, {
+      cause: error,
+      code: result.code,
+      details: result.details,
+      hint: result.cause,
+      meta: result.meta,
+      response,
+      retryAfter: response
+        ? this.#parseRetryAfter(response.headers['retry-after'])
+        : undefined,
+      status: result.status,
+      url: error instanceof ResponseError ? error.url : undefined,
+    })
+  }
+
+  /**
    * Handle successful API responses and convert to standardized success result.
    * Internal success handling with consistent response formatting.
    */
@@ -698,6 +1524,7 @@ export class SocketSdk {
       cause: undefined,
       data: data as SocketSdkSuccessResult<T>['data'],
       error: undefined,
+      meta: this.#metaFor(data),
       // Use generic 200 OK status for all successful API responses.
       status: 200,
       success: true,
@@ -797,6 +1624,8 @@ export class SocketSdk {
    *
    * @param alertTypes - Alert type identifiers to look up.
    * @param options - Optional query params (e.g. `language`).
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Metadata for the requested alert types.
    *
@@ -811,19 +1640,26 @@ export class SocketSdk {
   async alertTypes(
     alertTypes: string[],
     options?: { language?: string | undefined } | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'alertTypes'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
+    const urlPath = `alert-types?${queryToSearchParams(options as QueryParams)}`
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'alertTypes',
+        `alertTypes:${hashCacheKey([urlPath, alertTypes])}`,
         async () =>
           await getResponseJson(
             await createRequestWithJson(
               'POST',
               this.#baseUrl,
-              `alert-types?${queryToSearchParams(options as QueryParams)}`,
+              urlPath,
               alertTypes,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'alertTypes',
+        callOptions,
       )
       return this.#handleApiSuccess<'alertTypes'>(data)
     } catch (e) {
@@ -837,6 +1673,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
    * @param repositoryId - Repository identifier to associate with the label.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Association result.
    *
@@ -854,7 +1692,9 @@ export class SocketSdk {
     orgSlug: string,
     labelId: string,
     repositoryId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'associateOrgRepoLabel'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -864,10 +1704,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}/associate`,
               { repository_id: repositoryId },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'associateOrgRepoLabel',
+        callOptions,
       )
+      await this.#invalidateAfter('associateOrgRepoLabel', orgSlug)
       return this.#handleApiSuccess<'associateOrgRepoLabel'>(data)
     } catch (e) {
       return await this.#handleApiError<'associateOrgRepoLabel'>(e)
@@ -904,6 +1747,7 @@ export class SocketSdk {
    *   strings.
    * @param queryParams - Optional query parameters including labels, alerts,
    *   compact, etc.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Package metadata and alerts for the requested PURLs
    *
@@ -921,25 +1765,32 @@ export class SocketSdk {
     orgSlug: string,
     componentsObj: { components: Array<{ purl: string }> },
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'batchPackageFetchByOrg'>> {
     const url = `${this.#baseUrl}orgs/${encodeURIComponent(orgSlug)}/purl?${queryToSearchParams(queryParams)}`
     let res: HttpResponse | undefined
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      res = await this.#executeWithRetry(async () => {
-        const response = await httpRequest(url, {
-          method: 'POST',
-          body: JSON.stringify(componentsObj),
-          headers: this.#reqOptions.headers as Record<string, string>,
-          timeout: this.#reqOptions.timeout,
-          maxResponseSize: MAX_RESPONSE_SIZE,
-        })
+      res = await this.#executeWithRetry(
+        async () => {
+          const response = await this.#transport(url, {
+            method: 'POST',
+            body: JSON.stringify(componentsObj),
+            headers: reqOptions.headers as Record<string, string>,
+            signal: reqOptions.signal,
+            timeout: reqOptions.timeout,
+            maxResponseSize: MAX_RESPONSE_SIZE,
+          })
 
-        // Throw ResponseError for non-2xx status codes so retry logic works properly.
-        if (!isResponseOk(response)) {
-          throw new ResponseError(response, 'POST Request failed', url)
-        }
-        return response
-      })
+          // Throw ResponseError for non-2xx status codes so retry logic works properly.
+          if (!isResponseOk(response)) {
+            throw new ResponseError(response, 'POST Request failed', url)
+          }
+          return response
+        },
+        'batchOrgPackageFetch',
+        callOptions,
+      )
     } catch (e) {
       return await this.#handleApiError<'batchPackageFetchByOrg'>(e)
     }
@@ -983,13 +1834,24 @@ export class SocketSdk {
   async batchPackageFetch(
     componentsObj: { components: Array<{ purl: string }> },
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<BatchPackageFetchResultType> {
     let res: HttpResponse | undefined
+    let settleQuota: ((spent: boolean) => void) | undefined
     try {
-      res = await this.#createBatchPurlRequest(componentsObj, queryParams)
+      await this.#checkPermissions('batchPackageFetch')
+      settleQuota = await this.#reserveQuota('batchPackageFetch')
+      await this.#acquireRateLimit('batchPackageFetch', callOptions?.signal)
+      res = await this.#createBatchPurlRequest(
+        componentsObj,
+        queryParams,
+        this.#callRequestOptions(callOptions),
+      )
     } catch (e) {
+      settleQuota?.(false)
       return await this.#handleApiError<'batchPackageFetch'>(e)
     }
+    settleQuota?.(true)
     // Validate response before processing.
     /* c8 ignore next 3 - c8 ignored: because #executeWithRetry always returns a value or throws; res is never undefined in practice */
     if (!res) {
@@ -1045,6 +1907,7 @@ export class SocketSdk {
   async *batchPackageStream(
     componentsObj: { components: Array<{ purl: string }> },
     options?: BatchPackageStreamOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): AsyncGenerator<BatchPackageFetchResultType> {
     const {
       // Default to the batch API's per-request component maximum. Quota is
@@ -1169,10 +2032,12 @@ export class SocketSdk {
         return
       }
       const generator = this.#createBatchPurlGenerator(
+        'batchPackageStream',
         {
           components: components.slice(index, index + chunkSize),
         },
         queryParams,
+        callOptions,
       )
       continueGen(generator)
       index += chunkSize
@@ -1228,6 +2093,7 @@ export class SocketSdk {
    * malware-relevant results.
    *
    * @param components - Array of package URLs to check.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Normalized results with policy-filtered alerts per package
    *
@@ -1235,18 +2101,21 @@ export class SocketSdk {
    */
   async checkMalware(
     components: Array<{ purl: string }>,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<MalwareCheckResult>> {
     if (components.length <= MAX_FIREWALL_COMPONENTS) {
-      return this.#checkMalwareFirewall(components)
+      return this.#checkMalwareFirewall(components, callOptions)
     }
-    return this.#checkMalwareBatch(components)
+    return this.#checkMalwareBatch(components, callOptions)
   }
 
   // Small-set path: parallel firewall API requests per PURL.
   // Returns full artifact data (score, alert props, categories, fix info).
   async #checkMalwareFirewall(
     components: Array<{ purl: string }>,
+    callOptions: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<MalwareCheckResult>> {
+    const reqOptions = this.#callRequestOptions(callOptions, this.#reqOptions)
     const packages: MalwareCheckPackage[] = []
     const results = await Promise.allSettled(
       components.map(async ({ purl }) => {
@@ -1273,7 +2142,7 @@ export class SocketSdk {
           SOCKET_FIREWALL_API_URL,
           urlPath,
           {
-            ...this.#reqOptions,
+            ...reqOptions,
             headers: publicHeaders,
           },
         )
@@ -1284,6 +2153,11 @@ export class SocketSdk {
         return json as unknown as SocketArtifact
       }),
     )
+    // Failed lookups are skipped below; an aborted call must not pass for a
+    // clean result.
+    if (callOptions?.signal?.aborted) {
+      return this.#createAbortedResult(callOptions.signal.reason)
+    }
     for (let i = 0, { length } = results; i < length; i += 1) {
       const settled = results[i]!
       if (settled.status === 'rejected' || !settled.value) {
@@ -1303,16 +2177,21 @@ export class SocketSdk {
   // Multi-component path: batch PURL API request, normalized to publicPolicy.
   async #checkMalwareBatch(
     components: Array<{ purl: string }>,
+    callOptions: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<MalwareCheckResult>> {
     const result = await this.batchPackageFetch(
       { components },
       { alerts: true, cachedResultsOnly: true },
+      callOptions,
     )
     if (!result.success) {
       return {
         cause: result.cause,
+        code: result.code,
         data: undefined,
+        details: result.details,
         error: result.error,
+        meta: result.meta,
         status: result.status,
         success: false,
       }
@@ -1326,6 +2205,7 @@ export class SocketSdk {
       cause: undefined,
       data: packages,
       error: undefined,
+      meta: result.meta,
       status: 200,
       success: true,
     }
@@ -1370,6 +2250,129 @@ export class SocketSdk {
     }
   }
 
+  /**
+   * Check that the token has the scopes the given methods require.
+   *
+   * Run it before a job rather than finding out from a 403 halfway through.
+   * The scopes come from `options.scopes` or, given `options.orgSlug`, from
+   * the entry for this token in `getAPITokens`, and are compared with each
+   * method's `getRequiredPermissions`. A scope without an `:action` suffix
+   * grants every action under it, and `*` grants everything.
+   *
+   * @example
+   *   ;```typescript
+   *   const result = await sdk.checkPermissions(
+   *     ['createFullScan', 'createOrgRepoDiff'],
+   *     { orgSlug: 'my-org' },
+   *   )
+   *   if (result.success && Object.keys(result.data.missing).length) {
+   *     console.error('Token lacks scopes:', result.data.missing)
+   *   }
+   *   ```
+   *
+   * @param methodNames - SDK methods the job will call.
+   * @param options - The token's `scopes`, or the `orgSlug` to look them up.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries` for the
+   *   `getAPITokens` lookup.
+   *
+   * @returns The missing scopes per method, the scopes checked against, and
+   *   the methods not in the requirements table
+   *
+   * @operationId none
+   */
+  async checkPermissions(
+    methodNames: Array<SocketSdkOperations | string>,
+    options: CheckPermissionsOptions,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkGenericResult<PermissionCheck>> {
+    const { orgSlug, scopes: givenScopes } = {
+      __proto__: null,
+      ...options,
+    } as CheckPermissionsOptions
+    if (!givenScopes && !orgSlug) {
+      throw new TypeErrorCtor('"orgSlug" or "scopes" is required')
+    }
+    let scopes: string[]
+    if (givenScopes) {
+      scopes = [...givenScopes]
+    } else {
+      const result = await this.#resolveScopes(orgSlug!, callOptions)
+      if (!result.success) {
+        return result
+      }
+      scopes = result.data
+    }
+    const missing: Record<string, string[]> = {}
+    const unknown: string[] = []
+    for (let i = 0, { length } = methodNames; i < length; i += 1) {
+      const methodName = methodNames[i]!
+      let lacking: string[]
+      try {
+        lacking = findMissingPermissions(scopes, methodName)
+      } catch {
+        unknown.push(methodName)
+        continue
+      }
+      if (lacking.length) {
+        missing[methodName] = lacking
+      }
+    }
+    return {
+      cause: undefined,
+      data: { missing, scopes, unknown },
+      error: undefined,
+      status: 200,
+      success: true,
+    }
+  }
+
+  /**
+   * Look up the scopes of this client's token among the organization's API
+   * tokens. Fails with `NOT_FOUND` when the listing does not include the
+   * token, e.g. because the API withheld token values.
+   */
+  async #resolveScopes(
+    orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkGenericResult<string[]>> {
+    const result = await this.getAPITokens(orgSlug, callOptions)
+    if (!result.success) {
+      return {
+        cause: result.cause,
+        code: result.code,
+        data: undefined,
+        details: result.details,
+        error: result.error,
+        meta: result.meta,
+        status: result.status,
+        success: false,
+      }
+    }
+    const { tokens } = result.data
+    for (let i = 0, { length } = tokens; i < length; i += 1) {
+      const token = tokens[i]!
+      if (token.token === this.#apiToken) {
+        return {
+          cause: undefined,
+          data: [...token.scopes],
+          error: undefined,
+          meta: result.meta,
+          status: result.status,
+          success: true,
+        }
+      }
+    }
+    return {
+      cause: `The API tokens of ${orgSlug} do not include this client's token. Pass its scopes instead.`,
+      code: 'NOT_FOUND',
+      data: undefined,
+      error: 'API token not found',
+      meta: result.meta,
+      status: result.status,
+      success: false,
+    }
+  }
+
   /**
    * Create a snapshot of project dependencies by uploading manifest files.
    * Analyzes dependency files to generate a comprehensive security report.
@@ -1379,6 +2382,7 @@ export class SocketSdk {
   async createDependenciesSnapshot(
     filepaths: string[],
     options?: CreateDependenciesSnapshotOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'createDependenciesSnapshot'>> {
     const { pathsRelativeTo = '.', queryParams } = {
       __proto__: null,
@@ -1398,13 +2402,15 @@ export class SocketSdk {
 
       if (!result.shouldContinue) {
         const errorMsg = result.errorMessage ?? 'File validation failed'
-        return {
+        return this.#errorResult({
           cause: filterRedundantCause(errorMsg, result.errorCause),
+          code: 'FILE_VALIDATION_FAILED',
           data: undefined,
+          details: { invalidPaths },
           error: errorMsg,
           status: 400,
           success: false,
-        }
+        })
       }
     }
 
@@ -1429,7 +2435,7 @@ export class SocketSdk {
         invalidPaths.length > 5
           ? `\n  ... and ${invalidPaths.length - 5} more`
           : ''
-      return {
+      return this.#errorResult({
         cause: [
           `All ${invalidPaths.length} files failed validation:`,
           `  - ${samplePaths}${remaining}`,
@@ -1446,14 +2452,17 @@ export class SocketSdk {
           '  ·Check file permissions with: ls -la <file>',
           '  ·Run package manager install command',
         ].join('\n'),
+        code: 'FILE_VALIDATION_FAILED',
         data: undefined,
+        details: { invalidPaths },
         error: 'No readable manifest files found',
         status: 400,
         success: false,
-      }
+      })
     }
 
     // Continue with validated files.
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -1462,9 +2471,11 @@ export class SocketSdk {
               this.#baseUrl,
               `dependencies/upload?${queryToSearchParams(queryParams)}`,
               createRequestBodyForFilepaths(validPaths, basePath),
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createDependenciesSnapshot',
+        callOptions,
       )
       return this.#handleApiSuccess<'createDependenciesSnapshot'>(data)
     } catch (e) {
@@ -1508,6 +2519,8 @@ export class SocketSdk {
    *   package-lock.json, etc.)
    * @param options - Scan configuration including repository, branch, and
    *   commit details.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Full scan metadata including ID and URLs
    *
@@ -1525,6 +2538,7 @@ export class SocketSdk {
     orgSlug: string,
     filepaths: string[],
     options: CreateFullScanOptions,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<FullScanResult | StrictErrorResult> {
     const { pathsRelativeTo = '.', ...queryParams } = {
       __proto__: null,
@@ -1545,13 +2559,15 @@ export class SocketSdk {
 
       if (!result.shouldContinue) {
         const errorMsg = result.errorMessage ?? 'File validation failed'
-        return {
+        return this.#errorResult({
           cause: filterRedundantCause(errorMsg, result.errorCause),
+          code: 'FILE_VALIDATION_FAILED',
           data: undefined,
+          details: { invalidPaths },
           error: errorMsg,
           status: 400,
           success: false,
-        }
+        })
       }
     }
 
@@ -1576,7 +2592,7 @@ export class SocketSdk {
         invalidPaths.length > 5
           ? `\n  ... and ${invalidPaths.length - 5} more`
           : ''
-      return {
+      return this.#errorResult({
         cause: [
           `All ${invalidPaths.length} files failed validation:`,
           `  - ${samplePaths}${remaining}`,
@@ -1593,27 +2609,32 @@ export class SocketSdk {
           '  ·Check file permissions with: ls -la <file>',
           '  ·Run package manager install command',
         ].join('\n'),
+        code: 'FILE_VALIDATION_FAILED',
         data: undefined,
+        details: { invalidPaths },
         error: 'No readable manifest files found',
         status: 400,
         success: false,
-      }
+      })
     }
 
     // Try the v1 content-addressed manifest flow first; every failure mode
     // (unavailable route, unrepresentable path, retry exhaustion) falls back
     // to the v0 multipart upload below rather than surfacing to the caller.
+    // An aborted call is the exception: it ends here without a v0 upload.
     const v1Result = await this.#tryCreateFullScanViaManifest(
       orgSlug,
       validPaths,
       basePath,
       queryParams,
+      callOptions,
     )
     if (v1Result) {
       return v1Result
     }
 
     // Continue with validated files.
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -1622,14 +2643,17 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/full-scans?${queryToSearchParams(queryParams as QueryParams)}`,
               createRequestBodyForFilepaths(validPaths, basePath),
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createFullScan',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as FullScanItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -1637,8 +2661,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'CreateOrgFullScan'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -1651,14 +2678,17 @@ export class SocketSdk {
    * caller should fall back to the v0 multipart upload — an unavailable v1
    * route, a path the manifest can't represent, a genuine request error, or
    * retry exhaustion all fall back rather than surfacing to the caller, so
-   * `createFullScan`'s caller-visible behavior never regresses.
+   * `createFullScan`'s caller-visible behavior never regresses. An aborted
+   * call resolves its `ABORTED` error result instead, or under
+   * `errorMode: 'throw'` rethrows the abort, so no v0 upload follows it.
    */
   async #tryCreateFullScanViaManifest(
     orgSlug: string,
     validPaths: string[],
     basePath: string,
     queryParams: QueryParams,
-  ): Promise<FullScanResult | undefined> {
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<FullScanResult | StrictErrorResult | undefined> {
     if (this.#v1FullScansUnavailable) {
       return undefined
     }
@@ -1767,9 +2797,13 @@ export class SocketSdk {
           orgSlug,
           assembled.manifest,
           params,
+          callOptions,
         )
 
         if (!result.success) {
+          if (result.code === 'ABORTED') {
+            return result
+          }
           if (result.status === 404) {
             this.#v1FullScansUnavailable = true
             debugLog(
@@ -1826,6 +2860,7 @@ export class SocketSdk {
             cause: undefined,
             data: v0Shaped,
             error: undefined,
+            meta: result.meta,
             status: 200,
             success: true,
           }
@@ -1868,8 +2903,12 @@ export class SocketSdk {
             localPath: entry.absPath,
             name: entry.relPath,
           })),
+          callOptions,
         )
         if (!uploadResult.success) {
+          if (uploadResult.code === 'ABORTED') {
+            return uploadResult
+          }
           debugLog(
             'createFullScan:v1',
             `blob upload failed (status ${uploadResult.status}) — falling back to v0: ${uploadResult.error}`,
@@ -1884,6 +2923,9 @@ export class SocketSdk {
       )
       return undefined
     } catch (e) {
+      if (isAbortError(e)) {
+        return this.#createAbortedResult(e)
+      }
       debugLog(
         'createFullScan:v1',
         `unexpected error in the v1 manifest flow — falling back to v0: ${getErrorMessage(e)}`,
@@ -1902,6 +2944,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param manifest - Content-addressed manifest (see `assembleManifest`).
    * @param params - Scan metadata; only defined keys are sent.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns 201 full-scan details, or 202 with the blob-presence breakdown
    *
@@ -1915,44 +2959,52 @@ export class SocketSdk {
     orgSlug: string,
     manifest: FullScanManifest,
     params: CreateFullScanFromManifestParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<CreateFullScanFromManifestResult | StrictErrorResult> {
     let v1BaseUrl: string
     try {
       v1BaseUrl = this.#requireApiV1BaseUrl()
     } catch (e) {
-      return {
+      return this.#errorResult({
         cause: undefined,
+        code: 'V1_UNAVAILABLE',
         data: undefined,
         error: getErrorMessage(e),
         status: 400,
         success: false,
-      }
+      })
     }
 
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createRequestWithJson(
-          'POST',
-          v1BaseUrl,
-          `orgs/${encodeURIComponent(orgSlug)}/full-scans`,
-          { manifest, ...params },
-          this.#reqOptionsWithHooks,
-        )
-        if (!isResponseOk(res)) {
-          throw new ResponseError(
-            res,
-            '',
-            `${v1BaseUrl}orgs/${encodeURIComponent(orgSlug)}/full-scans`,
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createRequestWithJson(
+            'POST',
+            v1BaseUrl,
+            `orgs/${encodeURIComponent(orgSlug)}/full-scans`,
+            { manifest, ...params },
+            reqOptions,
           )
-        }
-        return res
-      })
+          if (!isResponseOk(res)) {
+            throw new ResponseError(
+              res,
+              '',
+              `${v1BaseUrl}orgs/${encodeURIComponent(orgSlug)}/full-scans`,
+            )
+          }
+          return res
+        },
+        'createFullScanFromManifest',
+        callOptions,
+      )
       const data = await getResponseJson(response)
       if (response.status === 202) {
         return {
           cause: undefined,
           data: data as FullScanV1PendingData,
           error: undefined,
+          meta: this.#metaFor(data),
           status: 202,
           success: true,
         }
@@ -1961,6 +3013,7 @@ export class SocketSdk {
         cause: undefined,
         data: data as FullScanV1CreatedData,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 201,
         success: true,
       }
@@ -1968,8 +3021,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<never>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -2006,6 +3062,8 @@ export class SocketSdk {
    * @param options.on_duplicate - Set to "redirect" to receive a 302 redirect
    *   to the existing diff scan instead of a 409 error when a duplicate is
    *   detected.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Diff scan details
    *
@@ -2029,7 +3087,9 @@ export class SocketSdk {
       merge?: boolean | undefined
       on_duplicate?: string | undefined
     },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'createOrgDiffScanFromIds'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2039,9 +3099,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/diff-scans/from-ids?${queryToSearchParams(options)}`,
               {},
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createOrgDiffScanFromIds',
+        callOptions,
       )
       return this.#handleApiSuccess<'createOrgDiffScanFromIds'>(data)
     } catch (e) {
@@ -2057,6 +3119,8 @@ export class SocketSdk {
    * @param archivePath - Path to the archive file to upload.
    * @param options - Scan configuration options including repo, branch, and
    *   metadata.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Created full scan details with scan ID and status
    *
@@ -2087,8 +3151,10 @@ export class SocketSdk {
       tmp?: boolean | undefined
       workspace?: string | undefined
     },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'CreateOrgFullScanArchive'>> {
     const basePath = path.dirname(archivePath)
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2097,9 +3163,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/full-scans/archive?${queryToSearchParams(options as QueryParams)}`,
               createRequestBodyForFilepaths([archivePath], basePath),
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createOrgFullScanFromArchive',
+        callOptions,
       )
       return this.#handleApiSuccess<'CreateOrgFullScanArchive'>(data)
     } catch (e) {
@@ -2117,6 +3185,8 @@ export class SocketSdk {
    * @param filepaths - Manifest file paths to upload as the new full scan.
    * @param options - Diff scan metadata (branch, commit, PR, etc.) and
    *   `pathsRelativeTo` controlling how the file paths are resolved.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Created full scan and diff scan details.
    *
@@ -2135,6 +3205,7 @@ export class SocketSdk {
     repoSlug: string,
     filepaths: string[],
     options?: CreateOrgRepoDiffOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'createOrgRepoDiff'>> {
     const { pathsRelativeTo = '.', ...queryParams } = {
       __proto__: null,
@@ -2149,15 +3220,18 @@ export class SocketSdk {
     // one method would be the wrong boundary. All-invalid still fails clearly.
     const { invalidPaths, validPaths } = validateFiles(absFilepaths)
     if (validPaths.length === 0) {
-      return {
+      return this.#errorResult({
         cause: `All ${invalidPaths.length} manifest files failed validation`,
+        code: 'FILE_VALIDATION_FAILED',
         data: undefined,
+        details: { invalidPaths },
         error: 'No readable manifest files found',
         status: 400,
         success: false,
-      }
+      })
     }
 
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2166,9 +3240,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/diff-scans/from-repo/${encodeURIComponent(repoSlug)}?${queryToSearchParams(queryParams as QueryParams)}`,
               createRequestBodyForFilepaths(validPaths, basePath),
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createOrgRepoDiff',
+        callOptions,
       )
       return this.#handleApiSuccess<'createOrgRepoDiff'>(data)
     } catch (e) {
@@ -2183,6 +3259,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param webhookData - Webhook configuration including name, URL, secret, and
    *   events.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Created webhook details including webhook ID
    *
@@ -2199,7 +3277,9 @@ export class SocketSdk {
       secret: string
       url: string
     },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'createOrgWebhook'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2209,9 +3289,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/webhooks`,
               webhookData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createOrgWebhook',
+        callOptions,
       )
       return this.#handleApiSuccess<'createOrgWebhook'>(data)
     } catch (e) {
@@ -2246,6 +3328,8 @@ export class SocketSdk {
    * @param params.homepage - Homepage URL of the repository.
    * @param params.visibility - Visibility setting ('public' or 'private')
    * @param params.workspace - Workspace of the repository.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Created repository details
    *
@@ -2272,7 +3356,9 @@ export class SocketSdk {
           workspace?: string | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryResult | StrictErrorResult> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2282,14 +3368,18 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos`,
               { ...params, name: repoSlug },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createRepository',
+        callOptions,
       )
+      await this.#invalidateAfter('createRepository', orgSlug)
       return {
         cause: undefined,
         data: data as RepositoryItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -2297,8 +3387,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'createOrgRepo'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -2325,6 +3418,8 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param labelData - Label configuration (must include name property)
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Created label with guaranteed id and name fields
    *
@@ -2341,7 +3436,9 @@ export class SocketSdk {
   async createRepositoryLabel(
     orgSlug: string,
     labelData: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryLabelResult | StrictErrorResult> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2351,14 +3448,18 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels`,
               labelData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'createRepositoryLabel',
+        callOptions,
       )
+      await this.#invalidateAfter('createRepositoryLabel', orgSlug)
       return {
         cause: undefined,
         data: data as RepositoryLabelItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 201,
         success: true,
       }
@@ -2366,8 +3467,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'createOrgRepoLabel'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -2390,6 +3494,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param scanId - Full scan identifier to delete.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Success confirmation
    *
@@ -2406,7 +3511,9 @@ export class SocketSdk {
   async deleteFullScan(
     orgSlug: string,
     scanId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<DeleteResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2414,14 +3521,17 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(scanId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteFullScan',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as DeleteResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -2429,8 +3539,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'deleteOrgFullScan'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -2443,6 +3556,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param uuid - UUID of the alert resolution to delete.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Success confirmation
    *
@@ -2457,7 +3571,9 @@ export class SocketSdk {
   async deleteOrgAlertResolution(
     orgSlug: string,
     uuid: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'deleteOrgAlertResolution'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2465,9 +3581,11 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/alerts/resolutions/${encodeURIComponent(uuid)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteOrgAlertResolution',
+        callOptions,
       )
       return this.#handleApiSuccess<'deleteOrgAlertResolution'>(data)
     } catch (e) {
@@ -2481,6 +3599,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param uuid - Alert triage UUID to delete.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Deletion result.
    *
@@ -2497,7 +3616,9 @@ export class SocketSdk {
   async deleteOrgAlertTriage(
     orgSlug: string,
     uuid: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'deleteOrgAlertTriage'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2505,9 +3626,11 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/triage/alerts/${encodeURIComponent(uuid)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteOrgAlertTriage',
+        callOptions,
       )
       return this.#handleApiSuccess<'deleteOrgAlertTriage'>(data)
     } catch (e) {
@@ -2524,7 +3647,9 @@ export class SocketSdk {
   async deleteOrgDiffScan(
     orgSlug: string,
     diffScanId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'deleteOrgDiffScan'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2532,9 +3657,11 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/diff-scans/${encodeURIComponent(diffScanId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteOrgDiffScan',
+        callOptions,
       )
       return this.#handleApiSuccess<'deleteOrgDiffScan'>(data)
     } catch (e) {
@@ -2548,6 +3675,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
    * @param settingKey - Key of the label setting to delete.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Deletion result.
    *
@@ -2566,7 +3694,9 @@ export class SocketSdk {
     orgSlug: string,
     labelId: string,
     settingKey: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'deleteOrgRepoLabelSetting'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2574,9 +3704,11 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}/label-setting?${queryToSearchParams({ setting_key: settingKey })}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteOrgRepoLabelSetting',
+        callOptions,
       )
       return this.#handleApiSuccess<'deleteOrgRepoLabelSetting'>(data)
     } catch (e) {
@@ -2590,6 +3722,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param webhookId - Webhook ID to delete.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Success status
    *
@@ -2598,7 +3731,9 @@ export class SocketSdk {
   async deleteOrgWebhook(
     orgSlug: string,
     webhookId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'deleteOrgWebhook'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2606,9 +3741,11 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/webhooks/${encodeURIComponent(webhookId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteOrgWebhook',
+        callOptions,
       )
       return this.#handleApiSuccess<'deleteOrgWebhook'>(data)
     } catch (e) {
@@ -2633,6 +3770,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param repoSlug - Repository slug/name to delete.
    * @param options - Optional parameters including workspace.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Success confirmation
    *
@@ -2650,6 +3788,7 @@ export class SocketSdk {
     orgSlug: string,
     repoSlug: string,
     options?: GetRepositoryOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<DeleteResult | StrictErrorResult> {
     const { workspace } = {
       __proto__: null,
@@ -2658,6 +3797,7 @@ export class SocketSdk {
     const queryString = workspace
       ? `?${queryToSearchParams({ workspace } as QueryParams)}`
       : ''
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2665,14 +3805,18 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/${encodeURIComponent(repoSlug)}${queryString}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteRepository',
+        callOptions,
       )
+      await this.#invalidateAfter('deleteRepository', orgSlug)
       return {
         cause: undefined,
         data: data as DeleteResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -2680,8 +3824,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'deleteOrgRepo'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -2705,6 +3852,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Deletion confirmation
    *
@@ -2721,7 +3869,9 @@ export class SocketSdk {
   async deleteRepositoryLabel(
     orgSlug: string,
     labelId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<DeleteRepositoryLabelResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2729,14 +3879,18 @@ export class SocketSdk {
             await createDeleteRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'deleteRepositoryLabel',
+        callOptions,
       )
+      await this.#invalidateAfter('deleteRepositoryLabel', orgSlug)
       return {
         cause: undefined,
         data: data as DeleteRepositoryLabelResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -2744,8 +3898,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'deleteOrgRepoLabel'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -2758,6 +3915,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
    * @param repositoryId - Repository identifier to disassociate from the label.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Disassociation result.
    *
@@ -2775,7 +3934,9 @@ export class SocketSdk {
     orgSlug: string,
     labelId: string,
     repositoryId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'disassociateOrgRepoLabel'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2785,10 +3946,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}/disassociate`,
               { repository_id: repositoryId },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'disassociateOrgRepoLabel',
+        callOptions,
       )
+      await this.#invalidateAfter('disassociateOrgRepoLabel', orgSlug)
       return this.#handleApiSuccess<'disassociateOrgRepoLabel'>(data)
     } catch (e) {
       return await this.#handleApiError<'disassociateOrgRepoLabel'>(e)
@@ -2804,6 +3968,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param fullScanId - Full scan identifier.
    * @param outputPath - Local file path to write the tar archive.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Download result with success/error status
    *
@@ -2813,22 +3978,29 @@ export class SocketSdk {
     orgSlug: string,
     fullScanId: string,
     outputPath: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'downloadOrgFullScanFilesAsTar'>> {
     const url = `${this.#baseUrl}orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(fullScanId)}/files/tar`
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const res = await this.#executeWithRetry(async () => {
-        const response = await httpRequest(url, {
-          method: 'GET',
-          headers: this.#reqOptions.headers as Record<string, string>,
-          stream: true,
-          timeout: this.#reqOptions.timeout,
-        })
+      const res = await this.#executeWithRetry(
+        async () => {
+          const response = await this.#transport(url, {
+            method: 'GET',
+            headers: reqOptions.headers as Record<string, string>,
+            signal: reqOptions.signal,
+            stream: true,
+            timeout: reqOptions.timeout,
+          })
 
-        if (!isResponseOk(response)) {
-          throw new ResponseError(response, '', url)
-        }
-        return response
-      })
+          if (!isResponseOk(response)) {
+            throw new ResponseError(response, '', url)
+          }
+          return response
+        },
+        'downloadOrgFullScanFilesAsTar',
+        callOptions,
+      )
 
       // Stream response directly to file. Use pipeline() so errors from the
       // source response stream propagate (a bare .pipe() leaves the source
@@ -2836,7 +4008,11 @@ export class SocketSdk {
       // failure).
       const { createWriteStream } = await import('node:fs')
       const { pipeline } = await import('node:stream/promises')
-      await pipeline(res.rawResponse!, createWriteStream(outputPath))
+      await pipeline(
+        res.rawResponse!,
+        createWriteStream(outputPath),
+        reqOptions.signal ? { signal: reqOptions.signal } : {},
+      )
 
       return this.#handleApiSuccess<'downloadOrgFullScanFilesAsTar'>(res)
     } catch (e) {
@@ -2866,6 +4042,8 @@ export class SocketSdk {
    * @param hash - The blob hash in SSRI (sha256-base64) or hex format.
    * @param options - Optional configuration.
    * @param options.baseUrl - Override blob store URL (for testing)
+   * @param callOptions - Per-call `signal` and `timeout`; the download is
+   *   not retried.
    *
    * @returns Promise<string> - The patch file content as UTF-8 string
    *
@@ -2876,6 +4054,7 @@ export class SocketSdk {
   async downloadPatch(
     hash: string,
     options?: { baseUrl?: string | undefined } | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<string> {
     options = { __proto__: null, ...options } as typeof options
     const blobPath = `/blob/${encodeURIComponent(hash)}`
@@ -2884,8 +4063,12 @@ export class SocketSdk {
     // 50MB limit
     const MAX_PATCH_SIZE = 50 * 1024 * 1024
 
-    const res = await httpRequest(url, {
+    // The blob store is public: only the per-call signal and timeout apply.
+    const { signal, timeout } = this.#callRequestOptions(callOptions, {})
+    const res = await this.#transport(url, {
       maxResponseSize: MAX_PATCH_SIZE,
+      signal,
+      timeout,
     })
 
     if (res.status === 404) {
@@ -2896,7 +4079,9 @@ export class SocketSdk {
         '→ Verify: The blob hash is correct.',
         '→ Note: Blob URLs may expire after a certain time period.',
       ].join('\n')
-      throw new ErrorCtor(message)
+      throw this.#errorMode
+        ? createSocketApiError(message, { response: res, status: 404, url })
+        : new ErrorCtor(message)
     }
     if (res.status !== 200) {
       const message = [
@@ -2908,7 +4093,13 @@ export class SocketSdk {
           ? '→ Try: Retry the download after a short delay.'
           : '→ Verify: The blob hash and URL are correct.',
       ].join('\n')
-      throw new ErrorCtor(message)
+      throw this.#errorMode
+        ? createSocketApiError(message, {
+            response: res,
+            status: res.status,
+            url,
+          })
+        : new ErrorCtor(message)
     }
 
     return res.text()
@@ -2923,7 +4114,9 @@ export class SocketSdk {
   async exportCDX(
     orgSlug: string,
     fullScanId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'exportCDX'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2931,9 +4124,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/export/cdx/${encodeURIComponent(fullScanId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'exportCDX',
+        callOptions,
       )
       return this.#handleApiSuccess<'exportCDX'>(data)
     } catch (e) {
@@ -2963,6 +4158,7 @@ export class SocketSdk {
    * @param id - Full scan or SBOM report ID.
    * @param options - Optional parameters including author, role, and
    *   document_id.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns OpenVEX document with vulnerability exploitability information
    *
@@ -2986,10 +4182,12 @@ export class SocketSdk {
           role?: string | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'exportOpenVEX'>> {
     const queryString = options
       ? `?${queryToSearchParams(options as QueryParams)}`
       : ''
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -2997,9 +4195,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/export/openvex/${encodeURIComponent(id)}${queryString}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'exportOpenVEX',
+        callOptions,
       )
       return this.#handleApiSuccess<'exportOpenVEX'>(data)
     } catch (e) {
@@ -3016,7 +4216,9 @@ export class SocketSdk {
   async exportSPDX(
     orgSlug: string,
     fullScanId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'exportSPDX'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3024,9 +4226,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/export/spdx/${encodeURIComponent(fullScanId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'exportSPDX',
+        callOptions,
       )
       return this.#handleApiSuccess<'exportSPDX'>(data)
     } catch (e) {
@@ -3041,6 +4245,7 @@ export class SocketSdk {
    * @param urlPath - API endpoint path (e.g., 'organizations')
    * @param options - Request options including responseType and throws
    *   behavior.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Raw response, parsed data, or SocketSdkGenericResult based on
    *   options.
@@ -3052,6 +4257,7 @@ export class SocketSdk {
   async getApi<T = HttpResponse>(
     urlPath: string,
     options?: GetOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<T | SocketSdkGenericResult<T>> {
     const { responseType = 'response', throws = true } = {
       __proto__: null,
@@ -3059,19 +4265,20 @@ export class SocketSdk {
     } as GetOptions
 
     const url = `${this.#baseUrl}${urlPath}`
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createGetRequest(
-          this.#baseUrl,
-          urlPath,
-          this.#reqOptionsWithHooks,
-        )
-        // Check for HTTP error status codes first.
-        if (!isResponseOk(res)) {
-          throw new ResponseError(res, '', url)
-        }
-        return res
-      })
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createGetRequest(this.#baseUrl, urlPath, reqOptions)
+          // Check for HTTP error status codes first.
+          if (!isResponseOk(res)) {
+            throw new ResponseError(res, '', url)
+          }
+          return res
+        },
+        'getApi',
+        callOptions,
+      )
 
       const data = await this.#handleQueryResponseData<T>(
         response,
@@ -3086,6 +4293,7 @@ export class SocketSdk {
         cause: undefined,
         data,
         error: undefined,
+        meta: this.#metaFor(response),
         status: response.status,
         success: true,
       }
@@ -3099,8 +4307,11 @@ export class SocketSdk {
         const errorResult = await this.#handleApiError<never>(e)
         return {
           cause: errorResult.cause,
+          code: errorResult.code,
           data: undefined,
+          details: errorResult.details,
           error: errorResult.error,
+          meta: errorResult.meta,
           status: errorResult.status,
           success: false,
           url: errorResult.url,
@@ -3119,7 +4330,9 @@ export class SocketSdk {
    */
   async getAPITokens(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getAPITokens'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3127,9 +4340,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/api-tokens`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getAPITokens',
+        callOptions,
       )
       return this.#handleApiSuccess<'getAPITokens'>(data)
     } catch (e) {
@@ -3146,7 +4361,9 @@ export class SocketSdk {
   async getAuditLogEvents(
     orgSlug: string,
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getAuditLogEvents'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3154,9 +4371,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/audit-log?${queryToSearchParams(queryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getAuditLogEvents',
+        callOptions,
       )
       return this.#handleApiSuccess<'getAuditLogEvents'>(data)
     } catch (e) {
@@ -3192,6 +4411,7 @@ export class SocketSdk {
    * @param options.omit_license_details - Omit license details (ignored when
    *   cached).
    * @param options.omit_unchanged - Omit unchanged artifacts from the response.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Diff scan comparison with artifact changes
    *
@@ -3215,6 +4435,7 @@ export class SocketSdk {
           omit_unchanged?: boolean | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getDiffScanById'>> {
     const { cached = true, ...rest } = { __proto__: null, ...options } as {
       cached?: boolean | undefined
@@ -3228,7 +4449,12 @@ export class SocketSdk {
     } as QueryParams
     const urlPath = `orgs/${encodeURIComponent(orgSlug)}/diff-scans/${encodeURIComponent(diffScanId)}?${queryToSearchParams(queryParams)}`
     try {
-      const data = await this.#pollCachedScan(urlPath, diffScanId)
+      const data = await this.#pollCachedScan(
+        'getDiffScanById',
+        urlPath,
+        diffScanId,
+        callOptions,
+      )
       return this.#handleApiSuccess<'getDiffScanById'>(data)
     } catch (e) {
       return await this.#handleApiError<'getDiffScanById'>(e)
@@ -3254,6 +4480,7 @@ export class SocketSdk {
    * @param options - Optional query parameters.
    * @param options.github_installation_id - GitHub installation ID for
    *   settings.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Diff scan metadata with formatted markdown comments
    *
@@ -3271,7 +4498,9 @@ export class SocketSdk {
     orgSlug: string,
     diffScanId: string,
     options?: { github_installation_id?: string | undefined } | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'GetDiffScanGfm'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3279,9 +4508,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/diff-scans/${encodeURIComponent(diffScanId)}/gfm${options ? `?${queryToSearchParams(options)}` : ''}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getDiffScanGfm',
+        callOptions,
       )
       return this.#handleApiSuccess<'GetDiffScanGfm'>(data)
     } catch (e) {
@@ -3300,16 +4531,22 @@ export class SocketSdk {
    *
    * @quota 0 units
    */
-  async getEnabledEntitlements(orgSlug: string): Promise<string[]> {
+  async getEnabledEntitlements(
+    orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<string[]> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     const data = await this.#executeWithRetry(
       async () =>
         await getResponseJson(
           await createGetRequest(
             this.#baseUrl,
             `orgs/${encodeURIComponent(orgSlug)}/entitlements`,
-            this.#reqOptionsWithHooks,
+            reqOptions,
           ),
         ),
+      'getEnabledEntitlements',
+      callOptions,
     )
 
     // Extract enabled products from the response.
@@ -3330,16 +4567,22 @@ export class SocketSdk {
    *
    * @quota 0 units
    */
-  async getEntitlements(orgSlug: string): Promise<Entitlement[]> {
+  async getEntitlements(
+    orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<Entitlement[]> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     const data = await this.#executeWithRetry(
       async () =>
         await getResponseJson(
           await createGetRequest(
             this.#baseUrl,
             `orgs/${encodeURIComponent(orgSlug)}/entitlements`,
-            this.#reqOptionsWithHooks,
+            reqOptions,
           ),
         ),
+      'getEntitlements',
+      callOptions,
     )
 
     return (data as EntitlementsResponse)?.items || []
@@ -3374,6 +4617,7 @@ export class SocketSdk {
    * @param options.include_license_details - Include per-artifact license
    *   details.
    * @param options.include_scores - Include score data for each artifact.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Complete full scan data including all artifacts
    *
@@ -3397,6 +4641,7 @@ export class SocketSdk {
           include_scores?: boolean | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<FullScanResult | StrictErrorResult> {
     const { cached = true, ...rest } = { __proto__: null, ...options } as {
       cached?: boolean | undefined
@@ -3410,11 +4655,17 @@ export class SocketSdk {
     } as QueryParams
     const urlPath = `orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(scanId)}?${queryToSearchParams(queryParams)}`
     try {
-      const data = await this.#pollCachedScan(urlPath, scanId)
+      const data = await this.#pollCachedScan(
+        'getFullScan',
+        urlPath,
+        scanId,
+        callOptions,
+      )
       return {
         cause: undefined,
         data: data as FullScanItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -3422,8 +4673,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgFullScan'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -3449,6 +4703,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param scanId - Full scan identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Scan metadata including status and configuration
    *
@@ -3465,7 +4720,9 @@ export class SocketSdk {
   async getFullScanMetadata(
     orgSlug: string,
     scanId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<FullScanResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3473,14 +4730,17 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(scanId)}/metadata`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getFullScanMetadata',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as FullScanItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -3489,8 +4749,11 @@ export class SocketSdk {
         await this.#handleApiError<'getOrgFullScanMetadata'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -3502,6 +4765,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param integrationId - Integration identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Integration event history.
    *
@@ -3519,7 +4783,9 @@ export class SocketSdk {
   async getIntegrationEvents(
     orgSlug: string,
     integrationId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getIntegrationEvents'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3527,9 +4793,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/settings/integrations/${encodeURIComponent(integrationId)}/events`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getIntegrationEvents',
+        callOptions,
       )
       return this.#handleApiSuccess<'getIntegrationEvents'>(data)
     } catch (e) {
@@ -3546,7 +4814,9 @@ export class SocketSdk {
   async getIssuesByNpmPackage(
     pkgName: string,
     version: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getIssuesByNPMPackage'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3554,9 +4824,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `npm/${encodeURIComponent(pkgName)}/${encodeURIComponent(version)}/issues`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getIssuesByNpmPackage',
+        callOptions,
       )
       return this.#handleApiSuccess<'getIssuesByNPMPackage'>(data)
     } catch (e) {
@@ -3577,17 +4849,21 @@ export class SocketSdk {
    *
    * @see https://docs.socket.dev/reference/getopenapi
    */
-  async getOpenAPI(): Promise<SocketSdkResult<'getOpenAPI'>> {
+  async getOpenAPI(
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkResult<'getOpenAPI'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              'openapi',
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            'openapi',
+            this.#validators,
+            reqOptions,
           ),
+        'getOpenAPI',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOpenAPI'>(data)
     } catch (e) {
@@ -3608,17 +4884,21 @@ export class SocketSdk {
    *
    * @see https://docs.socket.dev/reference/getopenapijson
    */
-  async getOpenAPIJSON(): Promise<SocketSdkResult<'getOpenAPIJSON'>> {
+  async getOpenAPIJSON(
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkResult<'getOpenAPIJSON'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              'openapi.json',
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            'openapi.json',
+            this.#validators,
+            reqOptions,
           ),
+        'getOpenAPIJSON',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOpenAPIJSON'>(data)
     } catch (e) {
@@ -3647,6 +4927,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Query parameters including alertKey, range, pagination.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Paginated array of full scans associated with the alert
    *
@@ -3668,7 +4949,9 @@ export class SocketSdk {
       range?: string | undefined
       startAfterCursor?: string | undefined
     },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'alertFullScans'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3676,9 +4959,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/alert-full-scan-search?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgAlertFullScans',
+        callOptions,
       )
       return this.#handleApiSuccess<'alertFullScans'>(data)
     } catch (e) {
@@ -3692,6 +4977,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param uuid - UUID of the alert resolution to fetch.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns The requested alert resolution.
    *
@@ -3706,7 +4992,9 @@ export class SocketSdk {
   async getOrgAlertResolution(
     orgSlug: string,
     uuid: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgAlertResolution'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3714,9 +5002,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/alerts/resolutions/${encodeURIComponent(uuid)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgAlertResolution',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgAlertResolution'>(data)
     } catch (e) {
@@ -3731,6 +5021,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param options - Optional query parameters for sort direction and
    *   pagination.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Paginated list of alert resolutions with cursor-based
    * pagination.
@@ -3752,7 +5043,9 @@ export class SocketSdk {
           startAfterCursor?: string | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgAlertResolutions'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3760,9 +5053,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/alerts/resolutions?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgAlertResolutions',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgAlertResolutions'>(data)
     } catch (e) {
@@ -3776,6 +5071,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Optional query parameters for pagination and filtering.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Paginated list of alerts with cursor-based pagination
    *
@@ -3828,7 +5124,9 @@ export class SocketSdk {
           startAfterCursor?: string | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'alertsList'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3836,9 +5134,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/alerts?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgAlertsList',
+        callOptions,
       )
       return this.#handleApiSuccess<'alertsList'>(data)
     } catch (e) {
@@ -3854,17 +5154,23 @@ export class SocketSdk {
    */
   async getOrgAnalytics(
     time: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgAnalytics'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'getOrgAnalytics',
+        `analytics:${time}`,
         async () =>
           await getResponseJson(
             await createGetRequest(
               this.#baseUrl,
               `analytics/org/${encodeURIComponent(time)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'analytics',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgAnalytics'>(data)
     } catch (e) {
@@ -3882,6 +5188,7 @@ export class SocketSdk {
    * @param options.include_stateful_alert_ids - Set to include a
    *   statefulAlertIds map (GHSA ID → open stateful alert IDs) in the
    *   response, org-scoped only.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Fix details for requested vulnerabilities with upgrade
    *   recommendations.
@@ -3902,7 +5209,9 @@ export class SocketSdk {
       repo_slug?: string | undefined
       vulnerability_ids: string
     },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'fetch-fixes'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -3910,9 +5219,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/fixes?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgFixes',
+        callOptions,
       )
       return this.#handleApiSuccess<'fetch-fixes'>(data)
     } catch (e) {
@@ -3928,6 +5239,8 @@ export class SocketSdk {
    * @param fullScanId - Full scan identifier.
    * @param options - Query params (`include_license_details` is required) plus
    *   an optional `filters` body forwarded to the export.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns The CSV export text.
    *
@@ -3947,6 +5260,7 @@ export class SocketSdk {
     orgSlug: string,
     fullScanId: string,
     options: GetOrgFullScanCsvOptions,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<string>> {
     const { filters, ...queryParams } = {
       __proto__: null,
@@ -3954,24 +5268,30 @@ export class SocketSdk {
     } as GetOrgFullScanCsvOptions
     const urlPath = `orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(fullScanId)}/format/csv?${queryToSearchParams(queryParams as QueryParams)}`
     const url = `${this.#baseUrl}${urlPath}`
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createRequestWithJson(
-          'POST',
-          this.#baseUrl,
-          urlPath,
-          { filters },
-          this.#reqOptionsWithHooks,
-        )
-        if (!isResponseOk(res)) {
-          throw new ResponseError(res, '', url)
-        }
-        return res
-      })
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createRequestWithJson(
+            'POST',
+            this.#baseUrl,
+            urlPath,
+            { filters },
+            reqOptions,
+          )
+          if (!isResponseOk(res)) {
+            throw new ResponseError(res, '', url)
+          }
+          return res
+        },
+        'getOrgFullScanCsv',
+        callOptions,
+      )
       return {
         cause: undefined,
         data: response.text(),
         error: undefined,
+        meta: this.#metaFor(response),
         status: response.status,
         success: true,
       }
@@ -3979,8 +5299,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgFullScanCsv'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
         url: errorResult.url,
@@ -3996,6 +5319,8 @@ export class SocketSdk {
    * @param fullScanId - Full scan identifier.
    * @param options - Query params (`include_license_details` is required) plus
    *   optional `filters`, `groupBy`, and `additionalInformation` body fields.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns The PDF report bytes.
    *
@@ -4015,6 +5340,7 @@ export class SocketSdk {
     orgSlug: string,
     fullScanId: string,
     options: GetOrgFullScanPdfOptions,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<Buffer>> {
     const { additionalInformation, filters, groupBy, ...queryParams } = {
       __proto__: null,
@@ -4022,24 +5348,30 @@ export class SocketSdk {
     } as GetOrgFullScanPdfOptions
     const urlPath = `orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(fullScanId)}/format/pdf?${queryToSearchParams(queryParams as QueryParams)}`
     const url = `${this.#baseUrl}${urlPath}`
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createRequestWithJson(
-          'POST',
-          this.#baseUrl,
-          urlPath,
-          { additionalInformation, filters, groupBy },
-          this.#reqOptionsWithHooks,
-        )
-        if (!isResponseOk(res)) {
-          throw new ResponseError(res, '', url)
-        }
-        return res
-      })
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createRequestWithJson(
+            'POST',
+            this.#baseUrl,
+            urlPath,
+            { additionalInformation, filters, groupBy },
+            reqOptions,
+          )
+          if (!isResponseOk(res)) {
+            throw new ResponseError(res, '', url)
+          }
+          return res
+        },
+        'getOrgFullScanPdf',
+        callOptions,
+      )
       return {
         cause: undefined,
         data: response.body,
         error: undefined,
+        meta: this.#metaFor(response),
         status: response.status,
         success: true,
       }
@@ -4047,8 +5379,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgFullScanPdf'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
         url: errorResult.url,
@@ -4064,17 +5399,23 @@ export class SocketSdk {
    */
   async getOrgLicensePolicy(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgLicensePolicy'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'getOrgLicensePolicy',
+        `licensePolicy:${orgSlug}:settings`,
         async () =>
           await getResponseJson(
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/settings/license-policy`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'licensePolicy',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgLicensePolicy'>(data)
     } catch (e) {
@@ -4088,6 +5429,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
    * @param settingKey - Key of the label setting to fetch.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns The requested label setting.
    *
@@ -4105,7 +5447,9 @@ export class SocketSdk {
     orgSlug: string,
     labelId: string,
     settingKey: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgRepoLabelSetting'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4113,9 +5457,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}/label-setting?${queryToSearchParams({ setting_key: settingKey })}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgRepoLabelSetting',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgRepoLabelSetting'>(data)
     } catch (e) {
@@ -4131,17 +5477,23 @@ export class SocketSdk {
    */
   async getOrgSecurityPolicy(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgSecurityPolicy'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'getOrgSecurityPolicy',
+        `securityPolicy:${orgSlug}`,
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/settings/security-policy`,
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            `orgs/${encodeURIComponent(orgSlug)}/settings/security-policy`,
+            this.#validators,
+            reqOptions,
+            `securityPolicy:${orgSlug}`,
           ),
+        'securityPolicy',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgSecurityPolicy'>(data)
     } catch (e) {
@@ -4154,6 +5506,7 @@ export class SocketSdk {
    * enabled for the organization.
    *
    * @param orgSlug - Organization identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Telemetry configuration with enabled status
    *
@@ -4161,7 +5514,9 @@ export class SocketSdk {
    */
   async getOrgTelemetryConfig(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgTelemetryConfig'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4169,9 +5524,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/telemetry/config`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgTelemetryConfig',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgTelemetryConfig'>(data)
     } catch (e) {
@@ -4192,7 +5549,9 @@ export class SocketSdk {
   async getOrgThreatFeedItems(
     orgSlug: string,
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgThreatFeedItems'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4200,9 +5559,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/threat-feed?${queryToSearchParams(queryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgThreatFeedItems',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgThreatFeedItems'>(data)
     } catch (e) {
@@ -4218,7 +5579,9 @@ export class SocketSdk {
    */
   async getOrgTriage(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgTriage'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4226,9 +5589,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/triage/alerts`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgTriage',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgTriage'>(data)
     } catch (e) {
@@ -4242,6 +5607,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param webhookId - Webhook ID to retrieve.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Webhook details
    *
@@ -4250,7 +5616,9 @@ export class SocketSdk {
   async getOrgWebhook(
     orgSlug: string,
     webhookId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgWebhook'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4258,9 +5626,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/webhooks/${encodeURIComponent(webhookId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgWebhook',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgWebhook'>(data)
     } catch (e) {
@@ -4274,6 +5644,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Optional query parameters for pagination and sorting.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns List of webhooks with pagination info
    *
@@ -4289,7 +5660,9 @@ export class SocketSdk {
           sort?: string | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgWebhooksList'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4297,9 +5670,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/webhooks?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getOrgWebhooksList',
+        callOptions,
       )
       return this.#handleApiSuccess<'getOrgWebhooksList'>(data)
     } catch (e) {
@@ -4313,19 +5688,24 @@ export class SocketSdk {
    *
    * @throws {Error} When server returns 5xx status codes
    */
-  async getQuota(): Promise<SocketSdkResult<'getQuota'>> {
+  async getQuota(
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkResult<'getQuota'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#getCached(
+        'getQuota',
         'quota',
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              'quota',
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            'quota',
+            this.#validators,
+            reqOptions,
+            'quota',
           ),
         'quota',
+        callOptions,
       )
       return this.#handleApiSuccess<'getQuota'>(data)
     } catch (e) {
@@ -4333,6 +5713,29 @@ export class SocketSdk {
     }
   }
 
+  /**
+   * Get the rate-limit and quota state reported to this client.
+   *
+   * The state holds the requests left in the current window and when it
+   * resets, until when a `Retry-After` asked clients to wait, and the quota
+   * left when the API reports it. The latest response to report a field wins;
+   * every request path updates it, streaming and upload requests included.
+   * Fields are absent until a response has reported them.
+   *
+   * @example
+   *   ;```typescript
+   *   const { remaining, resetAt } = sdk.getRateLimitState()
+   *   if (remaining === 0 && resetAt) {
+   *     await setTimeout(resetAt - Date.now())
+   *   }
+   *   ```
+   *
+   * @operationId none
+   */
+  getRateLimitState(): RateLimitState {
+    return { ...this.#rateLimitState }
+  }
+
   /**
    * Get analytics data for a specific repository. Returns security metrics,
    * dependency trends, and vulnerability statistics.
@@ -4342,7 +5745,9 @@ export class SocketSdk {
   async getRepoAnalytics(
     repo: string,
     time: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getRepoAnalytics'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4350,9 +5755,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `analytics/repo/${encodeURIComponent(repo)}/${encodeURIComponent(time)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getRepoAnalytics',
+        callOptions,
       )
       return this.#handleApiSuccess<'getRepoAnalytics'>(data)
     } catch (e) {
@@ -4379,6 +5786,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param repoSlug - Repository slug/name.
    * @param options - Optional parameters including workspace.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Repository details with configuration
    *
@@ -4396,6 +5804,7 @@ export class SocketSdk {
     orgSlug: string,
     repoSlug: string,
     options?: GetRepositoryOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryResult | StrictErrorResult> {
     const orgSlugParam = encodeURIComponent(orgSlug)
     const repoSlugParam = encodeURIComponent(repoSlug)
@@ -4407,6 +5816,7 @@ export class SocketSdk {
       ? `?${queryToSearchParams({ workspace } as QueryParams)}`
       : ''
 
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4414,14 +5824,17 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${orgSlugParam}/repos/${repoSlugParam}${queryString}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getRepository',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as RepositoryItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -4429,8 +5842,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgRepo'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -4455,6 +5871,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Label details with guaranteed id and name fields
    *
@@ -4471,7 +5888,9 @@ export class SocketSdk {
   async getRepositoryLabel(
     orgSlug: string,
     labelId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryLabelResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4479,14 +5898,17 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getRepositoryLabel',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as RepositoryLabelItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -4494,8 +5916,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgRepoLabel'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -4511,7 +5936,9 @@ export class SocketSdk {
   async getScoreByNpmPackage(
     pkgName: string,
     version: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getScoreByNPMPackage'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4519,9 +5946,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `npm/${encodeURIComponent(pkgName)}/${encodeURIComponent(version)}/score`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getScoreByNpmPackage',
+        callOptions,
       )
       return this.#handleApiSuccess<'getScoreByNPMPackage'>(data)
     } catch (e) {
@@ -4533,6 +5962,7 @@ export class SocketSdk {
    * Get the Socket Basics configuration for an organization.
    *
    * @param orgSlug - Organization identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns The Socket Basics configuration.
    *
@@ -4548,7 +5978,9 @@ export class SocketSdk {
    */
   async getSocketBasicsConfig(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getSocketBasicsConfig'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4556,9 +5988,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/settings/socket-basics`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getSocketBasicsConfig',
+        callOptions,
       )
       return this.#handleApiSuccess<'getSocketBasicsConfig'>(data)
     } catch (e) {
@@ -4586,6 +6020,7 @@ export class SocketSdk {
    *   ```
    *
    * @param orgSlug - Organization identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Nested object with environment and file type patterns
    *
@@ -4601,17 +6036,23 @@ export class SocketSdk {
    */
   async getSupportedFiles(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getSupportedFiles'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'getSupportedFiles',
+        `supportedFiles:${orgSlug}`,
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/supported-files`,
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            `orgs/${encodeURIComponent(orgSlug)}/supported-files`,
+            this.#validators,
+            reqOptions,
+            `supportedFiles:${orgSlug}`,
           ),
+        'supportedFiles',
+        callOptions,
       )
       return this.#handleApiSuccess<'getSupportedFiles'>(data)
     } catch (e) {
@@ -4627,6 +6068,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param campaignId - Campaign identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns The campaign
    *
@@ -4639,20 +6081,23 @@ export class SocketSdk {
   async getThreatCampaign(
     orgSlug: string,
     campaignId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<GetThreatCampaignResult | StrictErrorResult> {
     let v1BaseUrl: string
     try {
       v1BaseUrl = this.#requireApiV1BaseUrl()
     } catch (e) {
-      return {
+      return this.#errorResult({
         cause: undefined,
+        code: 'V1_UNAVAILABLE',
         data: undefined,
         error: getErrorMessage(e),
         status: 400,
         success: false,
-      }
+      })
     }
 
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4660,14 +6105,17 @@ export class SocketSdk {
             await createGetRequest(
               v1BaseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/threat-campaigns/${encodeURIComponent(campaignId)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getThreatCampaign',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as ThreatCampaign,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -4675,8 +6123,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<never>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -4697,7 +6148,9 @@ export class SocketSdk {
    */
   async getThreatFeedItems(
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getThreatFeedItems'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4705,9 +6158,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `threat-feed?${queryToSearchParams(queryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'getThreatFeedItems',
+        callOptions,
       )
       return this.#handleApiSuccess<'getThreatFeedItems'>(data)
     } catch (e) {
@@ -4721,6 +6176,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Date, range, pagination, and alert filter options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Paginated historical alerts with an end cursor.
    *
@@ -4737,7 +6193,9 @@ export class SocketSdk {
   async historicalAlertsList(
     orgSlug: string,
     options?: HistoricalAlertsListOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'historicalAlertsList'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4745,9 +6203,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/historical/alerts?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'historicalAlertsList',
+        callOptions,
       )
       return this.#handleApiSuccess<'historicalAlertsList'>(data)
     } catch (e) {
@@ -4761,6 +6221,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Date, range, aggregation, and alert filter options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Historical alert trend data.
    *
@@ -4777,7 +6238,9 @@ export class SocketSdk {
   async historicalAlertsTrend(
     orgSlug: string,
     options?: HistoricalAlertsTrendOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'historicalAlertsTrend'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -4785,9 +6248,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/historical/alerts/trend?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'historicalAlertsTrend',
+        callOptions,
       )
       return this.#handleApiSuccess<'historicalAlertsTrend'>(data)
     } catch (e) {
@@ -4796,123 +6261,668 @@ export class SocketSdk {
   }
 
   /**
-   * Get a trend of historical dependency counts for an organization. Returns
-   * aggregated dependency totals over the requested time range.
+   * Get a trend of historical dependency counts for an organization. Returns
+   * aggregated dependency totals over the requested time range.
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Date, range, and dependency filter options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Historical dependency trend data.
+   *
+   * @throws {Error} When server returns 5xx status codes
+   *
+   * @apiEndpoint GET /orgs/{org_slug}/historical/dependencies/trend
+   *
+   * @quota 10 units
+   *
+   * @scopes historical:dependencies-trend
+   *
+   * @see https://docs.socket.dev/reference/historicaldependenciestrend
+   */
+  async historicalDependenciesTrend(
+    orgSlug: string,
+    options?: HistoricalDependenciesTrendOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkResult<'historicalDependenciesTrend'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
+    try {
+      const data = await this.#executeWithRetry(
+        async () =>
+          await getResponseJson(
+            await createGetRequest(
+              this.#baseUrl,
+              `orgs/${encodeURIComponent(orgSlug)}/historical/dependencies/trend?${queryToSearchParams(options as QueryParams)}`,
+              reqOptions,
+            ),
+          ),
+        'historicalDependenciesTrend',
+        callOptions,
+      )
+      return this.#handleApiSuccess<'historicalDependenciesTrend'>(data)
+    } catch (e) {
+      return await this.#handleApiError<'historicalDependenciesTrend'>(e)
+    }
+  }
+
+  /**
+   * List historical dependency snapshots for an organization. Returns snapshot
+   * metadata with status filtering and cursor pagination.
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Date, range, pagination, and snapshot filter options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Paginated historical snapshots with an end cursor.
+   *
+   * @throws {Error} When server returns 5xx status codes
+   *
+   * @apiEndpoint GET /orgs/{org_slug}/historical/snapshots
+   *
+   * @quota 10 units
+   *
+   * @scopes historical:snapshots-list
+   *
+   * @see https://docs.socket.dev/reference/historicalsnapshotslist
+   */
+  async historicalSnapshotsList(
+    orgSlug: string,
+    options?: HistoricalSnapshotsListOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkResult<'historicalSnapshotsList'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
+    try {
+      const data = await this.#executeWithRetry(
+        async () =>
+          await getResponseJson(
+            await createGetRequest(
+              this.#baseUrl,
+              `orgs/${encodeURIComponent(orgSlug)}/historical/snapshots?${queryToSearchParams(options as QueryParams)}`,
+              reqOptions,
+            ),
+          ),
+        'historicalSnapshotsList',
+        callOptions,
+      )
+      return this.#handleApiSuccess<'historicalSnapshotsList'>(data)
+    } catch (e) {
+      return await this.#handleApiError<'historicalSnapshotsList'>(e)
+    }
+  }
+
+  /**
+   * Start a new historical dependency snapshot for an organization. Triggers
+   * the background computation of a point-in-time dependency snapshot.
+   *
+   * @param orgSlug - Organization identifier.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
+   *
+   * @returns Snapshot start acknowledgement, including the new request ID.
+   *
+   * @throws {Error} When server returns 5xx status codes
+   *
+   * @apiEndpoint POST /orgs/{org_slug}/historical/snapshots
+   *
+   * @quota 10 units
+   *
+   * @scopes historical:snapshots-start
+   *
+   * @see https://docs.socket.dev/reference/historicalsnapshotsstart
+   */
+  async historicalSnapshotsStart(
+    orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<SocketSdkResult<'historicalSnapshotsStart'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
+    try {
+      const data = await this.#executeWithRetry(
+        async () =>
+          await getResponseJson(
+            await createRequestWithJson(
+              'POST',
+              this.#baseUrl,
+              `orgs/${encodeURIComponent(orgSlug)}/historical/snapshots`,
+              {},
+              reqOptions,
+            ),
+          ),
+        'historicalSnapshotsStart',
+        callOptions,
+      )
+      return this.#handleApiSuccess<'historicalSnapshotsStart'>(data)
+    } catch (e) {
+      return await this.#handleApiError<'historicalSnapshotsStart'>(e)
+    }
+  }
+
+  /**
+   * Evict cached responses so the next call fetches them again.
+   *
+   * `pattern` is a cache key, or a pattern in which `*` matches any run of
+   * characters; omit it to evict everything this client has cached. Keys are
+   * `quota`, `organizations`, `securityPolicy:<org>`, `supportedFiles:<org>`,
+   * `licensePolicy:<org>:settings`, `licensePolicy:<org>:view`,
+   * `alertTypes:<hash>` and `licenseMetadata:<hash>`. Matching ETag /
+   * Last-Modified validators are dropped too, so the next call downloads the
+   * full body rather than revalidating.
+   *
+   * @example
+   *   ;```typescript
+   *   await sdk.invalidateCache('securityPolicy:my-org')
+   *   await sdk.invalidateCache('licensePolicy:my-org:*')
+   *   await sdk.invalidateCache()
+   *   ```
+   *
+   * @operationId none
+   */
+  async invalidateCache(pattern?: string | undefined): Promise<void> {
+    const store = this.#cacheStore
+    if (store) {
+      await store.deleteAll(
+        `${this.#cachePrefix}:${this.#cacheStoreScope}:${pattern ?? '*'}`,
+      )
+    }
+    const validators = this.#validators
+    if (validators) {
+      if (pattern === undefined) {
+        validators.clear()
+      } else {
+        const matches = patternMatcher(pattern)
+        const keys = [...validators.keys()]
+        for (let i = 0, { length } = keys; i < length; i += 1) {
+          if (matches(keys[i]!)) {
+            validators.delete(keys[i]!)
+          }
+        }
+      }
+    }
+    if (!this.#cache) {
+      return
+    }
+    const caches = [this.#cache, ...this.#cacheByTtl.values()]
+    for (let i = 0, { length } = caches; i < length; i += 1) {
+      const cache = caches[i]!
+      if (pattern !== undefined && !pattern.includes('*')) {
+        await cache.delete(pattern)
+      } else {
+        await cache.deleteAll(pattern)
+      }
+    }
+  }
+
+  /**
+   * Iterate every full scan for an organization.
+   *
+   * Walks `page` / `nextPage` across pages, yielding scans one at a time until
+   * the server reports no further pages or the `maxItems` / `maxPages` budget
+   * is spent. Set `prefetch` to request that many following pages while the
+   * current one is consumed; scans are still yielded in order. Each page is a
+   * `listFullScans` call with the usual retry behavior.
+   *
+   * @example
+   *   ;```typescript
+   *   for await (const scan of sdk.iterateFullScans('my-org', {
+   *     branch: 'main',
+   *     per_page: 100,
+   *     prefetch: 3,
+   *   })) {
+   *     console.log(scan.id, scan.created_at)
+   *   }
+   *   ```
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Filters accepted by `listFullScans`, plus the `maxItems`
+   *   / `maxPages` budget and `prefetch` window. `page` sets the first page.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of full scans
+   *
+   * @throws {Error} When a page request fails
+   *
+   * @operationId getOrgFullScanList
+   *
+   * @quota 0 units
+   */
+  async *iterateFullScans(
+    orgSlug: string,
+    options?:
+      | (Omit<ListFullScansOptions, 'startAfterCursor' | 'use_cursor'> &
+          PageNumberPaginationOptions)
+      | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<FullScanItem> {
+    const { maxItems, maxPages, page, prefetch, ...filters } = {
+      __proto__: null,
+      ...options,
+    } as ListFullScansOptions & PageNumberPaginationOptions
+    yield* paginatePages<FullScanItem>({
+      fetchPage: async pageNumber =>
+        await this.listFullScans(
+          orgSlug,
+          { ...filters, page: pageNumber },
+          callOptions,
+        ),
+      label: 'full scans list',
+      maxItems,
+      maxPages,
+      prefetch,
+      startPage: page,
+    })
+  }
+
+  /**
+   * Iterate every historical alert for an organization.
+   *
+   * Follows `endCursor` across pages, yielding alerts one at a time until the
+   * server reports no further pages or the `maxItems` / `maxPages` budget is
+   * spent. Each page is a `historicalAlertsList` call with the usual retry
+   * behavior and quota cost.
+   *
+   * @example
+   *   ;```typescript
+   *   for await (const alert of sdk.iterateHistoricalAlerts('my-org', {
+   *     range: '-7d',
+   *     maxPages: 20,
+   *   })) {
+   *     console.log(alert.type)
+   *   }
+   *   ```
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Filters accepted by `historicalAlertsList`, plus the
+   *   `maxItems` / `maxPages` budget. `startAfterCursor` resumes from a
+   *   previously observed cursor.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of historical alerts
+   *
+   * @throws {Error} When a page request fails
+   *
+   * @operationId historicalAlertsList
+   *
+   * @quota 10 units
+   */
+  async *iterateHistoricalAlerts(
+    orgSlug: string,
+    options?: (HistoricalAlertsListOptions & PaginationOptions) | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<SocketSdkArrayElement<'historicalAlertsList', 'items'>> {
+    const { maxItems, maxPages, startAfterCursor, ...filters } = {
+      __proto__: null,
+      ...options,
+    } as HistoricalAlertsListOptions & PaginationOptions
+    yield* paginateCursor<
+      SocketSdkArrayElement<'historicalAlertsList', 'items'>
+    >({
+      fetchPage: async cursor =>
+        await this.historicalAlertsList(
+          orgSlug,
+          {
+            ...filters,
+            ...(cursor ? { startAfterCursor: cursor } : {}),
+          },
+          callOptions,
+        ),
+      label: 'historical alerts',
+      maxItems,
+      maxPages,
+      startCursor: startAfterCursor,
+    })
+  }
+
+  /**
+   * Iterate every historical dependency snapshot for an organization.
+   *
+   * Follows `endCursor` across pages. Each page is a `historicalSnapshotsList`
+   * call with the usual retry behavior and quota cost.
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Filters accepted by `historicalSnapshotsList`, plus the
+   *   `maxItems` / `maxPages` budget. `startAfterCursor` resumes from a
+   *   previously observed cursor.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of historical snapshots
+   *
+   * @throws {Error} When a page request fails
+   *
+   * @operationId historicalSnapshotsList
+   *
+   * @quota 10 units
+   */
+  async *iterateHistoricalSnapshots(
+    orgSlug: string,
+    options?: (HistoricalSnapshotsListOptions & PaginationOptions) | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<SocketSdkArrayElement<'historicalSnapshotsList', 'items'>> {
+    const { maxItems, maxPages, startAfterCursor, ...filters } = {
+      __proto__: null,
+      ...options,
+    } as HistoricalSnapshotsListOptions & PaginationOptions
+    yield* paginateCursor<
+      SocketSdkArrayElement<'historicalSnapshotsList', 'items'>
+    >({
+      fetchPage: async cursor =>
+        await this.historicalSnapshotsList(
+          orgSlug,
+          {
+            ...filters,
+            ...(cursor ? { startAfterCursor: cursor } : {}),
+          },
+          callOptions,
+        ),
+      label: 'historical snapshots',
+      maxItems,
+      maxPages,
+      startCursor: startAfterCursor,
+    })
+  }
+
+  /**
+   * Iterate every active alert resolution for an organization.
+   *
+   * Follows `endCursor` across pages. Each page is a `getOrgAlertResolutions`
+   * call with the usual retry behavior and quota cost.
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Sort direction and page size accepted by
+   *   `getOrgAlertResolutions`, plus the `maxItems` / `maxPages` budget.
+   *   `startAfterCursor` resumes from a previously observed cursor.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of alert resolutions
+   *
+   * @throws {Error} When a page request fails
+   *
+   * @operationId getOrgAlertResolutions
+   *
+   * @quota 1 units
+   */
+  async *iterateOrgAlertResolutions(
+    orgSlug: string,
+    options?: (OrgAlertResolutionsListOptions & PaginationOptions) | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<SocketSdkArrayElement<'getOrgAlertResolutions', 'items'>> {
+    const { maxItems, maxPages, startAfterCursor, ...rest } = {
+      __proto__: null,
+      ...options,
+    } as OrgAlertResolutionsListOptions & PaginationOptions
+    yield* paginateCursor<
+      SocketSdkArrayElement<'getOrgAlertResolutions', 'items'>
+    >({
+      fetchPage: async cursor =>
+        await this.getOrgAlertResolutions(
+          orgSlug,
+          {
+            ...rest,
+            ...(cursor ? { startAfterCursor: cursor } : {}),
+          },
+          callOptions,
+        ),
+      label: 'alert resolutions',
+      maxItems,
+      maxPages,
+      startCursor: startAfterCursor,
+    })
+  }
+
+  /**
+   * Iterate every latest alert for an organization.
+   *
+   * Follows `endCursor` across pages, yielding alerts one at a time until the
+   * server reports no further pages or the `maxItems` / `maxPages` budget is
+   * spent. Each page is a `getOrgAlertsList` call with the usual retry
+   * behavior and quota cost.
+   *
+   * @example
+   *   ;```typescript
+   *   for await (const alert of sdk.iterateOrgAlerts('my-org', {
+   *     'filters.alertSeverity': 'critical',
+   *     per_page: 100,
+   *   })) {
+   *     console.log(alert.type, alert.repoSlug)
+   *   }
+   *   ```
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Filters accepted by `getOrgAlertsList`, plus the
+   *   `maxItems` / `maxPages` budget. `startAfterCursor` resumes from a
+   *   previously observed cursor.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of alerts
+   *
+   * @throws {Error} When a page request fails
+   *
+   * @operationId none
+   */
+  async *iterateOrgAlerts(
+    orgSlug: string,
+    options?: (OrgAlertsListOptions & PaginationOptions) | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<SocketSdkArrayElement<'alertsList', 'items'>> {
+    const { maxItems, maxPages, startAfterCursor, ...filters } = {
+      __proto__: null,
+      ...options,
+    } as OrgAlertsListOptions & PaginationOptions
+    yield* paginateCursor<SocketSdkArrayElement<'alertsList', 'items'>>({
+      fetchPage: async cursor =>
+        await this.getOrgAlertsList(
+          orgSlug,
+          {
+            ...filters,
+            ...(cursor ? { startAfterCursor: cursor } : {}),
+          },
+          callOptions,
+        ),
+      label: 'alerts list',
+      maxItems,
+      maxPages,
+      startCursor: startAfterCursor,
+    })
+  }
+
+  /**
+   * Iterate every webhook for an organization.
+   *
+   * Walks `page` / `nextPage` across pages. Each page is a
+   * `getOrgWebhooksList` call with the usual retry behavior; `prefetch`
+   * requests that many following pages ahead.
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Sorting accepted by `getOrgWebhooksList`, plus the
+   *   `maxItems` / `maxPages` budget and `prefetch` window. `page` sets the
+   *   first page.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of webhooks
+   *
+   * @throws {Error} When a page request fails
+   *
+   * @operationId none
+   */
+  async *iterateOrgWebhooks(
+    orgSlug: string,
+    options?:
+      | ({
+          direction?: string | undefined
+          page?: number | undefined
+          per_page?: number | undefined
+          sort?: string | undefined
+        } & PageNumberPaginationOptions)
+      | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<SocketSdkArrayElement<'getOrgWebhooksList', 'results'>> {
+    const { maxItems, maxPages, page, prefetch, ...sorting } = {
+      __proto__: null,
+      ...options,
+    } as { page?: number | undefined } & PageNumberPaginationOptions
+    yield* paginatePages<
+      SocketSdkArrayElement<'getOrgWebhooksList', 'results'>
+    >({
+      fetchPage: async pageNumber =>
+        await this.getOrgWebhooksList(
+          orgSlug,
+          {
+            ...sorting,
+            page: pageNumber,
+          },
+          callOptions,
+        ),
+      label: 'webhooks list',
+      maxItems,
+      maxPages,
+      prefetch,
+      startPage: page,
+    })
+  }
+
+  /**
+   * Iterate every repository in an organization.
    *
-   * @param orgSlug - Organization identifier.
-   * @param options - Date, range, and dependency filter options.
+   * Walks `page` / `nextPage` across pages. Each page is a `listRepositories`
+   * call with the usual retry behavior; `prefetch` requests that many
+   * following pages ahead so large inventories are not fetched strictly one
+   * request at a time.
    *
-   * @returns Historical dependency trend data.
+   * @example
+   *   ;```typescript
+   *   const repos = await collectAll(
+   *     sdk.iterateRepositories('my-org', { per_page: 100, prefetch: 4 }),
+   *   )
+   *   ```
    *
-   * @throws {Error} When server returns 5xx status codes
+   * @param orgSlug - Organization identifier.
+   * @param options - Filters accepted by `listRepositories`, plus the
+   *   `maxItems` / `maxPages` budget and `prefetch` window. `page` sets the
+   *   first page.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
-   * @apiEndpoint GET /orgs/{org_slug}/historical/dependencies/trend
+   * @returns Async generator of repositories
    *
-   * @quota 10 units
+   * @throws {Error} When a page request fails
    *
-   * @scopes historical:dependencies-trend
+   * @operationId getOrgRepoList
    *
-   * @see https://docs.socket.dev/reference/historicaldependenciestrend
+   * @quota 0 units
    */
-  async historicalDependenciesTrend(
+  async *iterateRepositories(
     orgSlug: string,
-    options?: HistoricalDependenciesTrendOptions | undefined,
-  ): Promise<SocketSdkResult<'historicalDependenciesTrend'>> {
-    try {
-      const data = await this.#executeWithRetry(
-        async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/historical/dependencies/trend?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
-            ),
-          ),
-      )
-      return this.#handleApiSuccess<'historicalDependenciesTrend'>(data)
-    } catch (e) {
-      return await this.#handleApiError<'historicalDependenciesTrend'>(e)
-    }
+    options?:
+      | (ListRepositoriesOptions & PageNumberPaginationOptions)
+      | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<RepositoryListItem> {
+    const { maxItems, maxPages, page, prefetch, ...filters } = {
+      __proto__: null,
+      ...options,
+    } as ListRepositoriesOptions & PageNumberPaginationOptions
+    yield* paginatePages<RepositoryListItem>({
+      fetchPage: async pageNumber =>
+        await this.listRepositories(
+          orgSlug,
+          { ...filters, page: pageNumber },
+          callOptions,
+        ),
+      label: 'repositories list',
+      maxItems,
+      maxPages,
+      prefetch,
+      startPage: page,
+    })
   }
 
   /**
-   * List historical dependency snapshots for an organization. Returns snapshot
-   * metadata with status filtering and cursor pagination.
-   *
-   * @param orgSlug - Organization identifier.
-   * @param options - Date, range, pagination, and snapshot filter options.
+   * Iterate every package PURL affected by a threat campaign (v1 API).
    *
-   * @returns Paginated historical snapshots with an end cursor.
-   *
-   * @throws {Error} When server returns 5xx status codes
+   * Follows `endCursor` across pages. Each page is a
+   * `listThreatCampaignPackages` call with the usual retry behavior.
    *
-   * @apiEndpoint GET /orgs/{org_slug}/historical/snapshots
+   * @param orgSlug - Organization identifier.
+   * @param campaignId - Campaign identifier.
+   * @param options - Page size plus the `maxItems` / `maxPages` budget.
+   *   `cursor` resumes from a previously observed cursor.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
-   * @quota 10 units
+   * @returns Async generator of PURL strings
    *
-   * @scopes historical:snapshots-list
+   * @throws {Error} When a page request fails
    *
-   * @see https://docs.socket.dev/reference/historicalsnapshotslist
+   * @operationId none
    */
-  async historicalSnapshotsList(
+  async *iterateThreatCampaignPackages(
     orgSlug: string,
-    options?: HistoricalSnapshotsListOptions | undefined,
-  ): Promise<SocketSdkResult<'historicalSnapshotsList'>> {
-    try {
-      const data = await this.#executeWithRetry(
-        async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/historical/snapshots?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
-            ),
-          ),
-      )
-      return this.#handleApiSuccess<'historicalSnapshotsList'>(data)
-    } catch (e) {
-      return await this.#handleApiError<'historicalSnapshotsList'>(e)
-    }
+    campaignId: string,
+    options?:
+      | (ListThreatCampaignPackagesOptions & PaginationOptions)
+      | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<string> {
+    const { cursor, maxItems, maxPages, ...rest } = {
+      __proto__: null,
+      ...options,
+    } as ListThreatCampaignPackagesOptions & PaginationOptions
+    yield* paginateCursor<string>({
+      fetchPage: async pageCursor =>
+        await this.listThreatCampaignPackages(
+          orgSlug,
+          campaignId,
+          {
+            ...rest,
+            ...(pageCursor ? { cursor: pageCursor } : {}),
+          },
+          callOptions,
+        ),
+      label: `threat campaign ${campaignId} packages`,
+      maxItems,
+      maxPages,
+      startCursor: cursor,
+    })
   }
 
   /**
-   * Start a new historical dependency snapshot for an organization. Triggers
-   * the background computation of a point-in-time dependency snapshot.
-   *
-   * @param orgSlug - Organization identifier.
-   *
-   * @returns Snapshot start acknowledgement, including the new request ID.
+   * Iterate every threat campaign for an organization (v1 API).
    *
-   * @throws {Error} When server returns 5xx status codes
+   * Follows `endCursor` across pages. Each page is a `listThreatCampaigns`
+   * call with the usual retry behavior.
    *
-   * @apiEndpoint POST /orgs/{org_slug}/historical/snapshots
+   * @param orgSlug - Organization identifier.
+   * @param options - Filters accepted by `listThreatCampaigns`, plus the
+   *   `maxItems` / `maxPages` budget. `cursor` resumes from a previously
+   *   observed cursor.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
-   * @quota 10 units
+   * @returns Async generator of threat campaigns
    *
-   * @scopes historical:snapshots-start
+   * @throws {Error} When a page request fails
    *
-   * @see https://docs.socket.dev/reference/historicalsnapshotsstart
+   * @operationId none
    */
-  async historicalSnapshotsStart(
+  async *iterateThreatCampaigns(
     orgSlug: string,
-  ): Promise<SocketSdkResult<'historicalSnapshotsStart'>> {
-    try {
-      const data = await this.#executeWithRetry(
-        async () =>
-          await getResponseJson(
-            await createRequestWithJson(
-              'POST',
-              this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/historical/snapshots`,
-              {},
-              this.#reqOptionsWithHooks,
-            ),
-          ),
-      )
-      return this.#handleApiSuccess<'historicalSnapshotsStart'>(data)
-    } catch (e) {
-      return await this.#handleApiError<'historicalSnapshotsStart'>(e)
-    }
+    options?: (ListThreatCampaignsOptions & PaginationOptions) | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<ThreatCampaign> {
+    const { cursor, maxItems, maxPages, ...filters } = {
+      __proto__: null,
+      ...options,
+    } as ListThreatCampaignsOptions & PaginationOptions
+    yield* paginateCursor<ThreatCampaign>({
+      fetchPage: async pageCursor =>
+        await this.listThreatCampaigns(
+          orgSlug,
+          {
+            ...filters,
+            ...(pageCursor ? { cursor: pageCursor } : {}),
+          },
+          callOptions,
+        ),
+      label: 'threat campaigns',
+      maxItems,
+      maxPages,
+      startCursor: cursor,
+    })
   }
 
   /**
@@ -4921,6 +6931,8 @@ export class SocketSdk {
    * @param request - License metadata request body.
    * @param options - Optional query params (e.g. `includetext` to include the
    *   full license text).
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Metadata for the requested licenses.
    *
@@ -4935,19 +6947,26 @@ export class SocketSdk {
   async licenseMetadata(
     request: QueryParams,
     options?: { includetext?: boolean | undefined } | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'licenseMetadata'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
+    const urlPath = `license-metadata?${queryToSearchParams(options as QueryParams)}`
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'licenseMetadata',
+        `licenseMetadata:${hashCacheKey([urlPath, request])}`,
         async () =>
           await getResponseJson(
             await createRequestWithJson(
               'POST',
               this.#baseUrl,
-              `license-metadata?${queryToSearchParams(options as QueryParams)}`,
+              urlPath,
               request,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'licenseMetadata',
+        callOptions,
       )
       return this.#handleApiSuccess<'licenseMetadata'>(data)
     } catch (e) {
@@ -4961,6 +6980,8 @@ export class SocketSdk {
    * array of violation records.
    *
    * @param request - License allow-list request body.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns The parsed license policy violations.
    *
@@ -4978,23 +6999,29 @@ export class SocketSdk {
    */
   async licensePolicy(
     request: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<LicensePolicyViolations>> {
     const urlPath = 'license-policy'
     const url = `${this.#baseUrl}${urlPath}`
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createRequestWithJson(
-          'POST',
-          this.#baseUrl,
-          urlPath,
-          request,
-          this.#reqOptionsWithHooks,
-        )
-        if (!isResponseOk(res)) {
-          throw new ResponseError(res, '', url)
-        }
-        return res
-      })
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createRequestWithJson(
+            'POST',
+            this.#baseUrl,
+            urlPath,
+            request,
+            reqOptions,
+          )
+          if (!isResponseOk(res)) {
+            throw new ResponseError(res, '', url)
+          }
+          return res
+        },
+        'licensePolicy',
+        callOptions,
+      )
       // Parse the newline-delimited JSON response into violation records.
       const results: LicensePolicyViolations = []
       const text = response.text()
@@ -5017,6 +7044,7 @@ export class SocketSdk {
         cause: undefined,
         data: results,
         error: undefined,
+        meta: this.#metaFor(response),
         status: response.status,
         success: true,
       }
@@ -5024,8 +7052,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'licensePolicy'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
         url: errorResult.url,
@@ -5056,6 +7087,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Filtering and pagination options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns List of full scans with metadata
    *
@@ -5072,7 +7104,9 @@ export class SocketSdk {
   async listFullScans(
     orgSlug: string,
     options?: ListFullScansOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<FullScanListResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5080,14 +7114,17 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/full-scans?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'listFullScans',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as FullScanListResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5095,8 +7132,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgFullScanList'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5131,24 +7171,30 @@ export class SocketSdk {
    *
    * @see https://docs.socket.dev/reference/getorganizations
    */
-  async listOrganizations(): Promise<OrganizationsResult | StrictErrorResult> {
+  async listOrganizations(
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<OrganizationsResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#getCached(
+        'listOrganizations',
         'organizations',
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              'organizations',
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            'organizations',
+            this.#validators,
+            reqOptions,
+            'organizations',
           ),
         'organizations',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as OrganizationsResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5156,8 +7202,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrganizations'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5172,7 +7221,9 @@ export class SocketSdk {
    */
   async listOrgDiffScans(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'listOrgDiffScans'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5180,9 +7231,11 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/diff-scans`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'listOrgDiffScans',
+        callOptions,
       )
       return this.#handleApiSuccess<'listOrgDiffScans'>(data)
     } catch (e) {
@@ -5213,6 +7266,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Pagination and filtering options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns List of repositories with metadata
    *
@@ -5229,22 +7283,30 @@ export class SocketSdk {
   async listRepositories(
     orgSlug: string,
     options?: ListRepositoriesOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoriesListResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
+    const query = queryToSearchParams(options as QueryParams).toString()
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'listRepositories',
+        `repositories:${orgSlug}:${hashCacheKey(query)}`,
         async () =>
           await getResponseJson(
             await createGetRequest(
               this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/repos?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              `orgs/${encodeURIComponent(orgSlug)}/repos?${query}`,
+              reqOptions,
             ),
           ),
+        'repositories',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as RepositoriesListResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5252,8 +7314,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgRepoList'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5283,6 +7348,7 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param options - Pagination options.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns List of labels with guaranteed id and name fields
    *
@@ -5299,7 +7365,9 @@ export class SocketSdk {
   async listRepositoryLabels(
     orgSlug: string,
     options?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryLabelsListResult | StrictErrorResult> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5307,14 +7375,17 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'listRepositoryLabels',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as RepositoryLabelsListResult['data'],
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5322,8 +7393,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'getOrgRepoLabelList'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5339,6 +7413,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param campaignId - Campaign identifier.
    * @param options - Pagination options (`per_page`, `cursor`).
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns `{ items, endCursor }` — opaque PURL strings and the next cursor
    *
@@ -5352,20 +7427,23 @@ export class SocketSdk {
     orgSlug: string,
     campaignId: string,
     options?: ListThreatCampaignPackagesOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<ListThreatCampaignPackagesResult | StrictErrorResult> {
     let v1BaseUrl: string
     try {
       v1BaseUrl = this.#requireApiV1BaseUrl()
     } catch (e) {
-      return {
+      return this.#errorResult({
         cause: undefined,
+        code: 'V1_UNAVAILABLE',
         data: undefined,
         error: getErrorMessage(e),
         status: 400,
         success: false,
-      }
+      })
     }
 
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5373,14 +7451,17 @@ export class SocketSdk {
             await createGetRequest(
               v1BaseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/threat-campaigns/${encodeURIComponent(campaignId)}/packages?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'listThreatCampaignPackages',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as ThreatCampaignPackagesData,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5388,8 +7469,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<never>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5407,6 +7491,7 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param options - Filter and pagination options; `status` defaults to
    *   `'ongoing'` server-side when omitted.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns `{ items, endCursor }` — campaigns and the next cursor
    *
@@ -5419,20 +7504,23 @@ export class SocketSdk {
   async listThreatCampaigns(
     orgSlug: string,
     options?: ListThreatCampaignsOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<ListThreatCampaignsResult | StrictErrorResult> {
     let v1BaseUrl: string
     try {
       v1BaseUrl = this.#requireApiV1BaseUrl()
     } catch (e) {
-      return {
+      return this.#errorResult({
         cause: undefined,
+        code: 'V1_UNAVAILABLE',
         data: undefined,
         error: getErrorMessage(e),
         status: 400,
         success: false,
-      }
+      })
     }
 
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5440,14 +7528,17 @@ export class SocketSdk {
             await createGetRequest(
               v1BaseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/threat-campaigns?${queryToSearchParams(options as QueryParams)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'listThreatCampaigns',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as ThreatCampaignsListData,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5455,8 +7546,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<never>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5472,7 +7566,9 @@ export class SocketSdk {
   async postAPIToken(
     orgSlug: string,
     tokenData: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'postAPIToken'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5482,9 +7578,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/api-tokens`,
               tokenData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'postAPIToken',
+        callOptions,
       )
       return this.#handleApiSuccess<'postAPIToken'>(data)
     } catch (e) {
@@ -5501,7 +7599,9 @@ export class SocketSdk {
   async postAPITokensRevoke(
     orgSlug: string,
     tokenId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'postAPITokensRevoke'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5511,10 +7611,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/api-tokens/revoke`,
               { id: tokenId },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'postAPITokensRevoke',
+        callOptions,
       )
+      await this.#invalidateAfter('postAPITokensRevoke', orgSlug)
       return this.#handleApiSuccess<'postAPITokensRevoke'>(data)
     } catch (e) {
       return await this.#handleApiError<'postAPITokensRevoke'>(e)
@@ -5530,7 +7633,9 @@ export class SocketSdk {
   async postAPITokensRotate(
     orgSlug: string,
     tokenId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'postAPITokensRotate'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5540,10 +7645,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/api-tokens/rotate`,
               { id: tokenId },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'postAPITokensRotate',
+        callOptions,
       )
+      await this.#invalidateAfter('postAPITokensRotate', orgSlug)
       return this.#handleApiSuccess<'postAPITokensRotate'>(data)
     } catch (e) {
       return await this.#handleApiError<'postAPITokensRotate'>(e)
@@ -5560,7 +7668,9 @@ export class SocketSdk {
     orgSlug: string,
     tokenId: string,
     updateData: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'postAPITokenUpdate'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5570,10 +7680,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/api-tokens/update`,
               { id: tokenId, ...updateData },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'postAPITokenUpdate',
+        callOptions,
       )
+      await this.#invalidateAfter('postAPITokenUpdate', orgSlug)
       return this.#handleApiSuccess<'postAPITokenUpdate'>(data)
     } catch (e) {
       return await this.#handleApiError<'postAPITokenUpdate'>(e)
@@ -5587,6 +7700,8 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param events - Event payloads to ingest (max 1000 per call).
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Empty object envelope on success
    *
@@ -5599,43 +7714,51 @@ export class SocketSdk {
   async postEvents(
     orgSlug: string,
     events: SocketEvent[],
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<PostEventsResult | StrictErrorResult> {
     let v1BaseUrl: string
     try {
       v1BaseUrl = this.#requireApiV1BaseUrl()
     } catch (e) {
-      return {
+      return this.#errorResult({
         cause: undefined,
+        code: 'V1_UNAVAILABLE',
         data: undefined,
         error: getErrorMessage(e),
         status: 400,
         success: false,
-      }
+      })
     }
 
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createRequestWithJson(
-          'POST',
-          v1BaseUrl,
-          `orgs/${encodeURIComponent(orgSlug)}/events`,
-          events,
-          this.#reqOptionsWithHooks,
-        )
-        if (!isResponseOk(res)) {
-          throw new ResponseError(
-            res,
-            '',
-            `${v1BaseUrl}orgs/${encodeURIComponent(orgSlug)}/events`,
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createRequestWithJson(
+            'POST',
+            v1BaseUrl,
+            `orgs/${encodeURIComponent(orgSlug)}/events`,
+            events,
+            reqOptions,
           )
-        }
-        return res
-      })
+          if (!isResponseOk(res)) {
+            throw new ResponseError(
+              res,
+              '',
+              `${v1BaseUrl}orgs/${encodeURIComponent(orgSlug)}/events`,
+            )
+          }
+          return res
+        },
+        'postEvents',
+        callOptions,
+      )
       const data = await getResponseJson(response)
       return {
         cause: undefined,
         data: data as PostEventsData,
         error: undefined,
+        meta: this.#metaFor(data),
         status: response.status as 200 | 201,
         success: true,
       }
@@ -5643,8 +7766,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<never>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -5657,6 +7783,8 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param telemetryData - Telemetry payload containing events and metrics.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Empty object on successful submission
    *
@@ -5667,7 +7795,9 @@ export class SocketSdk {
   async postOrgTelemetry(
     orgSlug: string,
     telemetryData: PostOrgTelemetryPayload,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkGenericResult<PostOrgTelemetryResponse>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = (await this.#executeWithRetry(
         async () =>
@@ -5677,14 +7807,17 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/telemetry`,
               telemetryData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'postOrgTelemetry',
+        callOptions,
       )) as PostOrgTelemetryResponse
       return {
         cause: undefined,
         data,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -5701,7 +7834,9 @@ export class SocketSdk {
    */
   async postSettings(
     selectors: Array<{ organization?: string | undefined }>,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'postSettings'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5711,9 +7846,11 @@ export class SocketSdk {
               this.#baseUrl,
               'settings',
               { json: selectors },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'postSettings',
+        callOptions,
       )
       return this.#handleApiSuccess<'postSettings'>(data)
     } catch (e) {
@@ -5746,6 +7883,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param fullScanId - Full scan ID to rescan.
    * @param options - Rescan options including mode (shallow or deep)
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns New scan ID and status
    *
@@ -5767,10 +7906,12 @@ export class SocketSdk {
           mode?: 'shallow' | 'deep' | undefined
         }
       | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'rescanOrgFullScan'>> {
     const queryString = options
       ? `?${queryToSearchParams(options as QueryParams)}`
       : ''
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5780,9 +7921,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(fullScanId)}/rescan${queryString}`,
               {},
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'rescanFullScan',
+        callOptions,
       )
       return this.#handleApiSuccess<'rescanOrgFullScan'>(data)
     } catch (e) {
@@ -5798,7 +7941,9 @@ export class SocketSdk {
    */
   async searchDependencies(
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'searchDependencies'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -5808,9 +7953,11 @@ export class SocketSdk {
               this.#baseUrl,
               'dependencies/search',
               queryParams,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'searchDependencies',
+        callOptions,
       )
       return this.#handleApiSuccess<'searchDependencies'>(data)
     } catch (e) {
@@ -5825,6 +7972,8 @@ export class SocketSdk {
    * @param urlPath - API endpoint path (e.g., 'organizations')
    * @param options - Request options including method, body, and throws
    *   behavior.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Parsed JSON response or SocketSdkGenericResult based on options
    *
@@ -5835,6 +7984,7 @@ export class SocketSdk {
   async sendApi<T>(
     urlPath: string,
     options?: SendOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<T | SocketSdkGenericResult<T>> {
     const {
       body,
@@ -5844,21 +7994,26 @@ export class SocketSdk {
     } = { __proto__: null, ...options } as SendOptions
 
     const url = `${this.#baseUrl}${urlPath}`
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       // Route to appropriate HTTP method handler (POST or PUT).
-      const response = await this.#executeWithRetry(async () => {
-        const res = await createRequestWithJson(
-          method,
-          this.#baseUrl,
-          urlPath,
-          body,
-          this.#reqOptionsWithHooks,
-        )
-        if (!isResponseOk(res)) {
-          throw new ResponseError(res, '', url)
-        }
-        return res
-      })
+      const response = await this.#executeWithRetry(
+        async () => {
+          const res = await createRequestWithJson(
+            method,
+            this.#baseUrl,
+            urlPath,
+            body,
+            reqOptions,
+          )
+          if (!isResponseOk(res)) {
+            throw new ResponseError(res, '', url)
+          }
+          return res
+        },
+        'sendApi',
+        callOptions,
+      )
 
       const data = (await getResponseJson(response)) as T
 
@@ -5870,6 +8025,7 @@ export class SocketSdk {
         cause: undefined,
         data,
         error: undefined,
+        meta: this.#metaFor(response),
         status: response.status,
         success: true,
       }
@@ -5882,8 +8038,11 @@ export class SocketSdk {
         const errorResult = await this.#handleApiError<never>(e)
         return {
           cause: errorResult.cause,
+          code: errorResult.code,
           data: undefined,
+          details: errorResult.details,
           error: errorResult.error,
+          meta: errorResult.meta,
           status: errorResult.status,
           success: false,
           url: errorResult.url,
@@ -5927,6 +8086,7 @@ export class SocketSdk {
    * @param scanId - Full scan identifier.
    * @param options - Where to send the body. Set `output` to a file path to
    *   write there, or to `true` to write to stdout.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns Scan result carrying the unconsumed response stream
    *
@@ -5944,39 +8104,51 @@ export class SocketSdk {
     orgSlug: string,
     scanId: string,
     options?: StreamOrgFullScanOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'getOrgFullScan'>> {
     const { output } = {
       __proto__: null,
       ...options,
     } as StreamOrgFullScanOptions
     const url = `${this.#baseUrl}orgs/${encodeURIComponent(orgSlug)}/full-scans/${encodeURIComponent(scanId)}`
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const res = await this.#executeWithRetry(async () => {
-        const response = await httpRequest(url, {
-          method: 'GET',
-          headers: this.#reqOptions.headers as Record<string, string>,
-          stream: true,
-          timeout: this.#reqOptions.timeout,
-        })
+      const res = await this.#executeWithRetry(
+        async () => {
+          const response = await this.#transport(url, {
+            method: 'GET',
+            headers: reqOptions.headers as Record<string, string>,
+            signal: reqOptions.signal,
+            stream: true,
+            timeout: reqOptions.timeout,
+          })
 
-        if (!isResponseOk(response)) {
-          throw new ResponseError(
-            await bufferStreamedErrorResponse(response),
-            '',
-            url,
-          )
-        }
-        return response
-      })
+          if (!isResponseOk(response)) {
+            throw new ResponseError(
+              await bufferStreamedErrorResponse(response),
+              '',
+              url,
+            )
+          }
+          return response
+        },
+        'streamFullScan',
+        callOptions,
+      )
 
+      const { signal } = reqOptions
       if (typeof output === 'string') {
         const { createWriteStream } = await import('node:fs')
         const { pipeline } = await import('node:stream/promises')
-        await pipeline(res.rawResponse!, createWriteStream(output))
+        await pipeline(
+          res.rawResponse!,
+          createWriteStream(output),
+          signal ? { signal } : {},
+        )
       } else if (output === true) {
         const { pipeline } = await import('node:stream/promises')
         // Pipe to stdout but don't end stdout when the source ends.
-        await pipeline(res.rawResponse!, process.stdout, { end: false })
+        await pipeline(res.rawResponse!, process.stdout, { end: false, signal })
       }
 
       return this.#handleApiSuccess<'getOrgFullScan'>(res)
@@ -6005,24 +8177,35 @@ export class SocketSdk {
   async streamPatchesFromScan(
     orgSlug: string,
     scanId: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<ReadableStream<ArtifactPatches>> {
     const urlPath = `orgs/${encodeURIComponent(orgSlug)}/patches/scan/${encodeURIComponent(scanId)}`
     const url = `${this.#baseUrl}${urlPath}`
+    const reqOptions = this.#callRequestOptions(callOptions)
     const response = await this.#executeWithRetry(
       async () =>
         await createGetRequest(this.#baseUrl, urlPath, {
-          ...this.#reqOptionsWithHooks,
+          ...reqOptions,
           stream: true,
         }),
+      'streamPatchesFromScan',
+      callOptions,
     )
 
     // Check for HTTP error status codes.
     if (!isResponseOk(response)) {
-      throw new ResponseError(
+      const error = new ResponseError(
         await bufferStreamedErrorResponse(response),
         'GET Request failed',
         url,
       )
+      if (this.#errorMode) {
+        throw this.#toSocketApiError(
+          await this.#handleApiError<never>(error),
+          error,
+        )
+      }
+      throw error
     }
 
     const raw = response.rawResponse
@@ -6067,7 +8250,9 @@ export class SocketSdk {
     orgSlug: string,
     alertId: string,
     triageData: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'updateOrgAlertTriage'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6077,9 +8262,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/triage/alerts`,
               { alertTriage: [{ uuid: alertId, ...triageData }] },
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateOrgAlertTriage',
+        callOptions,
       )
       return this.#handleApiSuccess<'updateOrgAlertTriage'>(data)
     } catch (e) {
@@ -6097,7 +8284,9 @@ export class SocketSdk {
     orgSlug: string,
     policyData: QueryParams,
     queryParams?: QueryParams | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'updateOrgLicensePolicy'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6107,10 +8296,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/settings/license-policy?${queryToSearchParams(queryParams)}`,
               policyData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateOrgLicensePolicy',
+        callOptions,
       )
+      await this.#invalidateAfter('updateOrgLicensePolicy', orgSlug)
       return this.#handleApiSuccess<'updateOrgLicensePolicy'>(data)
     } catch (e) {
       return await this.#handleApiError<'updateOrgLicensePolicy'>(e)
@@ -6124,6 +8316,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
    * @param settings - Label settings body (issue rules).
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Update result.
    *
@@ -6141,7 +8335,9 @@ export class SocketSdk {
     orgSlug: string,
     labelId: string,
     settings: UpdateOrgRepoLabelSettingBody,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'updateOrgRepoLabelSetting'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6151,9 +8347,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}/label-setting`,
               settings,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateOrgRepoLabelSetting',
+        callOptions,
       )
       return this.#handleApiSuccess<'updateOrgRepoLabelSetting'>(data)
     } catch (e) {
@@ -6170,7 +8368,9 @@ export class SocketSdk {
   async updateOrgSecurityPolicy(
     orgSlug: string,
     policyData: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'updateOrgSecurityPolicy'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6180,10 +8380,13 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/settings/security-policy`,
               policyData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateOrgSecurityPolicy',
+        callOptions,
       )
+      await this.#invalidateAfter('updateOrgSecurityPolicy', orgSlug)
       return this.#handleApiSuccess<'updateOrgSecurityPolicy'>(data)
     } catch (e) {
       return await this.#handleApiError<'updateOrgSecurityPolicy'>(e)
@@ -6196,6 +8399,8 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param telemetryData - Telemetry configuration with enabled flag.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Updated telemetry configuration
    *
@@ -6204,7 +8409,9 @@ export class SocketSdk {
   async updateOrgTelemetryConfig(
     orgSlug: string,
     telemetryData: { enabled?: boolean | undefined },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'updateOrgTelemetryConfig'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6214,9 +8421,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/telemetry/config`,
               telemetryData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateOrgTelemetryConfig',
+        callOptions,
       )
       return this.#handleApiSuccess<'updateOrgTelemetryConfig'>(data)
     } catch (e) {
@@ -6231,6 +8440,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param webhookId - Webhook ID to update.
    * @param webhookData - Updated webhook configuration.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Updated webhook details
    *
@@ -6248,7 +8459,9 @@ export class SocketSdk {
       secret?: null | string | undefined
       url?: string | undefined
     },
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'updateOrgWebhook'>> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6258,9 +8471,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/webhooks/${encodeURIComponent(webhookId)}`,
               webhookData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateOrgWebhook',
+        callOptions,
       )
       return this.#handleApiSuccess<'updateOrgWebhook'>(data)
     } catch (e) {
@@ -6290,6 +8505,8 @@ export class SocketSdk {
    * @param params - Configuration updates (description, homepage,
    *   default_branch, etc.)
    * @param options - Optional parameters including workspace.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Updated repository details
    *
@@ -6308,6 +8525,7 @@ export class SocketSdk {
     repoSlug: string,
     params?: QueryParams | undefined,
     options?: GetRepositoryOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryResult | StrictErrorResult> {
     const { workspace } = {
       __proto__: null,
@@ -6316,6 +8534,7 @@ export class SocketSdk {
     const queryString = workspace
       ? `?${queryToSearchParams({ workspace } as QueryParams)}`
       : ''
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6325,14 +8544,18 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/${encodeURIComponent(repoSlug)}${queryString}`,
               params,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateRepository',
+        callOptions,
       )
+      await this.#invalidateAfter('updateRepository', orgSlug)
       return {
         cause: undefined,
         data: data as RepositoryItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -6340,8 +8563,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'updateOrgRepo'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -6371,6 +8597,8 @@ export class SocketSdk {
    * @param orgSlug - Organization identifier.
    * @param labelId - Label identifier.
    * @param labelData - Label updates (typically name property)
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Updated label with guaranteed id and name fields
    *
@@ -6388,7 +8616,9 @@ export class SocketSdk {
     orgSlug: string,
     labelId: string,
     labelData: QueryParams,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<RepositoryLabelResult | StrictErrorResult> {
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6398,14 +8628,18 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/repos/labels/${encodeURIComponent(labelId)}`,
               labelData,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'updateRepositoryLabel',
+        callOptions,
       )
+      await this.#invalidateAfter('updateRepositoryLabel', orgSlug)
       return {
         cause: undefined,
         data: data as RepositoryLabelItem,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -6413,8 +8647,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<'updateOrgRepoLabel'>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -6430,6 +8667,8 @@ export class SocketSdk {
    *
    * @param orgSlug - Organization identifier.
    * @param entries - Files to upload; see `BlobUploadEntry`.
+   * @param callOptions - Per-call `signal`, `timeout`, `retries` and
+   *   `idempotencyKey`.
    *
    * @returns Digests grouped into `stored` (newly written) and
    *   `already_existed`
@@ -6443,18 +8682,20 @@ export class SocketSdk {
   async uploadBlobs(
     orgSlug: string,
     entries: BlobUploadEntry[],
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<UploadBlobsResult | StrictErrorResult> {
     let v1BaseUrl: string
     try {
       v1BaseUrl = this.#requireApiV1BaseUrl()
     } catch (e) {
-      return {
+      return this.#errorResult({
         cause: undefined,
+        code: 'V1_UNAVAILABLE',
         data: undefined,
         error: getErrorMessage(e),
         status: 400,
         success: false,
-      }
+      })
     }
 
     const resolvedEntries: Array<{
@@ -6468,9 +8709,11 @@ export class SocketSdk {
       try {
         hash = entry.hash ?? (await hashFile(entry.localPath)).hash
       } catch (e) {
-        return {
+        return this.#errorResult({
           cause: getErrorMessage(e),
+          code: 'FILE_VALIDATION_FAILED',
           data: undefined,
+          details: { invalidPaths: [entry.localPath] },
           error: [
             'Failed to hash a blob-upload entry before uploading.',
             `→ Where: uploadBlobs(orgSlug="${orgSlug}"), entries[${i}].localPath`,
@@ -6479,7 +8722,7 @@ export class SocketSdk {
           ].join('\n'),
           status: 400,
           success: false,
-        }
+        })
       }
       resolvedEntries.push({
         absPath: entry.localPath,
@@ -6488,6 +8731,7 @@ export class SocketSdk {
       })
     }
 
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6496,14 +8740,17 @@ export class SocketSdk {
               v1BaseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/blobs`,
               createRequestBodyForBlobs(resolvedEntries),
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'uploadBlobs',
+        callOptions,
       )
       return {
         cause: undefined,
         data: data as BlobsUploadData,
         error: undefined,
+        meta: this.#metaFor(data),
         status: 200,
         success: true,
       }
@@ -6511,8 +8758,11 @@ export class SocketSdk {
       const errorResult = await this.#handleApiError<never>(e)
       return {
         cause: errorResult.cause,
+        code: errorResult.code,
         data: undefined,
+        details: errorResult.details,
         error: errorResult.error,
+        meta: errorResult.meta,
         status: errorResult.status,
         success: false,
       }
@@ -6533,6 +8783,7 @@ export class SocketSdk {
     orgSlug: string,
     filepaths: string[],
     options?: UploadManifestFilesOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<UploadManifestFilesReturnType | UploadManifestFilesError> {
     const { pathsRelativeTo = '.' } = {
       __proto__: null,
@@ -6554,12 +8805,14 @@ export class SocketSdk {
       if (!result.shouldContinue) {
         const errorMsg = result.errorMessage ?? 'File validation failed'
         const finalCause = filterRedundantCause(errorMsg, result.errorCause)
-        return {
+        return this.#errorResult({
+          code: 'FILE_VALIDATION_FAILED',
+          details: { invalidPaths },
           error: errorMsg,
           status: 400,
           success: false,
           ...(finalCause ? { cause: finalCause } : {}),
-        }
+        })
       }
     }
 
@@ -6584,7 +8837,7 @@ export class SocketSdk {
         invalidPaths.length > 5
           ? `\n  ... and ${invalidPaths.length - 5} more`
           : ''
-      return {
+      return this.#errorResult({
         cause: [
           `All ${invalidPaths.length} files failed validation:`,
           `  - ${samplePaths}${remaining}`,
@@ -6601,13 +8854,16 @@ export class SocketSdk {
           '  ·Check file permissions with: ls -la <file>',
           '  ·Run package manager install command',
         ].join('\n'),
+        code: 'FILE_VALIDATION_FAILED',
+        details: { invalidPaths },
         error: 'No readable manifest files found',
         status: 400,
         success: false,
-      }
+      })
     }
 
     // Continue with validated files.
+    const reqOptions = this.#sendRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6616,9 +8872,11 @@ export class SocketSdk {
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/upload-manifest-files`,
               createRequestBodyForFilepaths(validPaths, basePath),
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'uploadManifestFiles',
+        callOptions,
       )
       return this.#handleApiSuccess<never>(
         data,
@@ -6635,6 +8893,7 @@ export class SocketSdk {
    * the saturated license policy for the organization.
    *
    * @param orgSlug - Organization identifier.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
    *
    * @returns The organization's license policy view.
    *
@@ -6650,17 +8909,23 @@ export class SocketSdk {
    */
   async viewLicensePolicy(
     orgSlug: string,
+    callOptions?: SocketSdkCallOptions | undefined,
   ): Promise<SocketSdkResult<'viewLicensePolicy'>> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
-      const data = await this.#executeWithRetry(
+      const data = await this.#getCached(
+        'viewLicensePolicy',
+        `licensePolicy:${orgSlug}:view`,
         async () =>
-          await getResponseJson(
-            await createGetRequest(
-              this.#baseUrl,
-              `orgs/${encodeURIComponent(orgSlug)}/settings/license-policy/view`,
-              this.#reqOptionsWithHooks,
-            ),
+          await getJsonConditional(
+            this.#baseUrl,
+            `orgs/${encodeURIComponent(orgSlug)}/settings/license-policy/view`,
+            this.#validators,
+            reqOptions,
+            `licensePolicy:${orgSlug}:view`,
           ),
+        'licensePolicy',
+        callOptions,
       )
       return this.#handleApiSuccess<'viewLicensePolicy'>(data)
     } catch (e) {
@@ -6678,7 +8943,12 @@ export class SocketSdk {
    *
    * @quota 0 units
    */
-  async viewPatch(orgSlug: string, uuid: string): Promise<PatchViewResponse> {
+  async viewPatch(
+    orgSlug: string,
+    uuid: string,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): Promise<PatchViewResponse> {
+    const reqOptions = this.#callRequestOptions(callOptions)
     try {
       const data = await this.#executeWithRetry(
         async () =>
@@ -6686,16 +8956,137 @@ export class SocketSdk {
             await createGetRequest(
               this.#baseUrl,
               `orgs/${encodeURIComponent(orgSlug)}/patches/view/${encodeURIComponent(uuid)}`,
-              this.#reqOptionsWithHooks,
+              reqOptions,
             ),
           ),
+        'viewPatch',
+        callOptions,
       )
       return data as PatchViewResponse
     } catch (e) {
       const result = await this.#handleApiError<never>(e)
-      throw new ErrorCtor(result.error, { cause: result.cause })
+      // The patch itself is the return value, so a failure always throws.
+      throw this.#errorMode
+        ? this.#toSocketApiError(result, e)
+        : new ErrorCtor(result.error, { cause: result.cause })
     }
   }
+
+  /**
+   * Tail the audit log for an organization.
+   *
+   * Polls `getAuditLogEvents` every `intervalMs`, drops events that were
+   * already yielded, and yields each new event oldest first together with a
+   * checkpoint. Persist the checkpoint after handling an event and pass it
+   * back as `since` to resume after a restart without gaps or duplicates.
+   * Runs until `signal` or the call's `signal` aborts, which also cancels a
+   * poll in flight. Each poll is a normal retried request and is charged quota
+   * like a direct call; a poll that still fails throws.
+   *
+   * @example
+   *   ;```typescript
+   *   const controller = new AbortController()
+   *   for await (const { checkpoint, event } of sdk.watchAuditLogEvents(
+   *     'my-org',
+   *     { since: loadCheckpoint(), signal: controller.signal },
+   *   )) {
+   *     await forwardToSiem(event)
+   *     saveCheckpoint(checkpoint)
+   *   }
+   *   ```
+   *
+   * @param orgSlug - Organization identifier.
+   * @param options - Start point, poll interval, abort signal, and the
+   *   `type` / `per_page` query filters.
+   * @param callOptions - Per-call `signal`, `timeout` and `retries`.
+   *
+   * @returns Async generator of new events with their resume checkpoint
+   *
+   * @throws {Error} When a poll request fails
+   *
+   * @operationId getAuditLogEvents
+   *
+   * @quota 10 units
+   */
+  async *watchAuditLogEvents(
+    orgSlug: string,
+    options?: WatchAuditLogEventsOptions | undefined,
+    callOptions?: SocketSdkCallOptions | undefined,
+  ): AsyncGenerator<AuditLogWatchItem> {
+    const { intervalMs, per_page, signal, since, type } = {
+      __proto__: null,
+      ...options,
+    } as WatchAuditLogEventsOptions
+    // Either signal stops the watcher, and an abort also cancels the poll in
+    // flight.
+    const callSignal = callOptions?.signal
+    const watchSignal =
+      signal && callSignal
+        ? AbortSignal.any([signal, callSignal])
+        : (signal ?? callSignal)
+    const pageCallOptions = watchSignal
+      ? { ...callOptions, signal: watchSignal }
+      : callOptions
+    yield* tailAuditLog({
+      fetchPage: async page =>
+        await this.getAuditLogEvents(
+          orgSlug,
+          {
+            ...(page ? { page } : {}),
+            ...(per_page ? { per_page } : {}),
+            ...(type ? { type } : {}),
+          },
+          pageCallOptions,
+        ),
+      intervalMs,
+      signal: watchSignal,
+      since,
+    })
+  }
+}
+
+/**
+ * Whether `error` is, or wraps, the rejection of an aborted signal.
+ */
+function isAbortError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false
+  }
+  return (
+    error.name === 'AbortError' ||
+    error.name === 'TimeoutError' ||
+    isAbortError(error.cause)
+  )
+}
+
+/**
+ * Short, wildcard-free cache key for a request body that may be long or
+ * contain arbitrary characters.
+ */
+function hashCacheKey(value: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(value))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Validate a constructor or per-call `timeout` against the supported range.
+ */
+function validateTimeout(timeout: unknown): void {
+  if (timeout === undefined) {
+    return
+  }
+  if (
+    typeof timeout !== 'number' ||
+    Number.isNaN(timeout) ||
+    timeout < MIN_HTTP_TIMEOUT ||
+    timeout > MAX_HTTP_TIMEOUT
+  ) {
+    throw new TypeErrorCtor(
+      `"timeout" must be a number between ${MIN_HTTP_TIMEOUT} and ${MAX_HTTP_TIMEOUT} milliseconds`,
+    )
+  }
 }
 
 // Optional live heap trace.
@@ -0,0 +1,270 @@
+/**
+ * @file A pool of `SocketSdk` clients for several organizations, each with
+ *   its own API token. The pool creates an organization's client the first
+ *   time it is needed and reuses it afterwards, and routes every org-scoped
+ *   method to the client of the organization its `orgSlug` argument names.
+ *   The clients share one response cache, one rate limiter and one hooks
+ *   configuration.
+ */
+import { ErrorCtor, TypeErrorCtor } from '@socketsecurity/lib/primordials/error'
+import {
+  ObjectDefineProperty,
+  ObjectKeys,
+} from '@socketsecurity/lib/primordials/object'
+import { ReflectApply } from '@socketsecurity/lib/primordials/reflect'
+
+import { SocketSdk } from './socket-sdk-class.mts'
+import { createMemoryCacheStore } from './utils/cache-store.mts'
+import { RateLimiter } from './utils/rate-limiter.mts'
+
+import type { SocketSdkOptions } from './types.mts'
+
+/**
+ * An organization's API token, or a function resolving it. The function is
+ * called once, when the organization's client is first needed, so tokens can
+ * come from a secret store; if it throws, the next call tries again.
+ */
+export type SocketSdkTokenProvider = string | (() => string | Promise<string>)
+
+// SocketSdk methods whose first parameter is `orgSlug`: those resolving a
+// promise, then those returning an async generator.
+const ORG_SCOPED_METHODS = [
+  'associateOrgRepoLabel',
+  'batchOrgPackageFetch',
+  'createFullScan',
+  'createFullScanFromManifest',
+  'createOrgDiffScanFromIds',
+  'createOrgFullScanFromArchive',
+  'createOrgRepoDiff',
+  'createOrgWebhook',
+  'createRepository',
+  'createRepositoryLabel',
+  'deleteFullScan',
+  'deleteOrgAlertResolution',
+  'deleteOrgAlertTriage',
+  'deleteOrgDiffScan',
+  'deleteOrgRepoLabelSetting',
+  'deleteOrgWebhook',
+  'deleteRepository',
+  'deleteRepositoryLabel',
+  'disassociateOrgRepoLabel',
+  'downloadOrgFullScanFilesAsTar',
+  'exportCDX',
+  'exportOpenVEX',
+  'exportSPDX',
+  'getAPITokens',
+  'getAuditLogEvents',
+  'getDiffScanById',
+  'getDiffScanGfm',
+  'getEnabledEntitlements',
+  'getEntitlements',
+  'getFullScan',
+  'getFullScanMetadata',
+  'getIntegrationEvents',
+  'getOrgAlertFullScans',
+  'getOrgAlertResolution',
+  'getOrgAlertResolutions',
+  'getOrgAlertsList',
+  'getOrgFixes',
+  'getOrgFullScanCsv',
+  'getOrgFullScanPdf',
+  'getOrgLicensePolicy',
+  'getOrgRepoLabelSetting',
+  'getOrgSecurityPolicy',
+  'getOrgTelemetryConfig',
+  'getOrgThreatFeedItems',
+  'getOrgTriage',
+  'getOrgWebhook',
+  'getOrgWebhooksList',
+  'getRepository',
+  'getRepositoryLabel',
+  'getSocketBasicsConfig',
+  'getSupportedFiles',
+  'getThreatCampaign',
+  'historicalAlertsList',
+  'historicalAlertsTrend',
+  'historicalDependenciesTrend',
+  'historicalSnapshotsList',
+  'historicalSnapshotsStart',
+  'listFullScans',
+  'listOrgDiffScans',
+  'listRepositories',
+  'listRepositoryLabels',
+  'listThreatCampaignPackages',
+  'listThreatCampaigns',
+  'postAPIToken',
+  'postAPITokenUpdate',
+  'postAPITokensRevoke',
+  'postAPITokensRotate',
+  'postEvents',
+  'postOrgTelemetry',
+  'rescanFullScan',
+  'streamFullScan',
+  'streamPatchesFromScan',
+  'updateOrgAlertTriage',
+  'updateOrgLicensePolicy',
+  'updateOrgRepoLabelSetting',
+  'updateOrgSecurityPolicy',
+  'updateOrgTelemetryConfig',
+  'updateOrgWebhook',
+  'updateRepository',
+  'updateRepositoryLabel',
+  'uploadBlobs',
+  'uploadManifestFiles',
+  'viewLicensePolicy',
+  'viewPatch',
+] as const
+
+const ORG_SCOPED_ITERATORS = [
+  'iterateFullScans',
+  'iterateHistoricalAlerts',
+  'iterateHistoricalSnapshots',
+  'iterateOrgAlertResolutions',
+  'iterateOrgAlerts',
+  'iterateOrgWebhooks',
+  'iterateRepositories',
+  'iterateThreatCampaignPackages',
+  'iterateThreatCampaigns',
+  'watchAuditLogEvents',
+] as const
+
+type OrgScopedMethodName =
+  | (typeof ORG_SCOPED_METHODS)[number]
+  | (typeof ORG_SCOPED_ITERATORS)[number]
+
+// oxlint-disable-next-line typescript/no-unsafe-declaration-merging -- the routed methods are installed on the prototype below
+export interface SocketSdkPool extends Pick<SocketSdk, OrgScopedMethodName> {}
+
+/**
+ * `SocketSdk` clients for several organizations behind one object. Every
+ * org-scoped `SocketSdk` method is available on the pool with the same
+ * signature and runs on the client of its `orgSlug`; use `forOrg` for the
+ * rest. The options apply to every client: with `cache` they share one
+ * in-memory cache store (unless `cacheStore` is set), plain `rateLimiter`
+ * options become one limiter shared by all of them, and `permissionGuard`
+ * looks each token's scopes up in its own organization. Circuit breakers and
+ * quota guards stay per client, since each token has its own quota.
+ *
+ * @example
+ *   ;```typescript
+ *   const pool = new SocketSdkPool(
+ *     { 'org-a': tokenA, 'org-b': () => vault.read('socket/org-b') },
+ *     { cache: true, rateLimiter: { requestsPerSecond: 10 } },
+ *   )
+ *   for (const orgSlug of pool.orgSlugs) {
+ *     const result = await pool.listRepositories(orgSlug)
+ *   }
+ *   ```
+ */
+export class SocketSdkPool {
+  readonly #clients: Map<string, Promise<SocketSdk>>
+  readonly #options: SocketSdkOptions
+  readonly #tokens: Map<string, SocketSdkTokenProvider>
+
+  constructor(
+    tokens: Record<string, SocketSdkTokenProvider>,
+    options?: SocketSdkOptions | undefined,
+  ) {
+    if (!tokens || typeof tokens !== 'object') {
+      throw new TypeErrorCtor('"tokens" must be an object')
+    }
+    this.#tokens = new Map()
+    const orgSlugs = ObjectKeys(tokens)
+    for (let i = 0, { length } = orgSlugs; i < length; i += 1) {
+      const orgSlug = orgSlugs[i]!
+      const token = tokens[orgSlug]
+      if (typeof token !== 'string' && typeof token !== 'function') {
+        throw new TypeErrorCtor(
+          `Token for "${orgSlug}" must be a string or a function`,
+        )
+      }
+      this.#tokens.set(orgSlug, token)
+    }
+    const { cache, cacheStore, rateLimiter, ...rest } = {
+      __proto__: null,
+      ...options,
+    } as SocketSdkOptions
+    this.#clients = new Map()
+    this.#options = {
+      ...rest,
+      cache,
+      // One store serves every client; the SDK scopes its entries to each
+      // token, so organizations never see each other's results.
+      cacheStore: cacheStore ?? (cache ? createMemoryCacheStore() : undefined),
+      // Plain options would give each client a limiter of its own.
+      rateLimiter:
+        !rateLimiter || 'acquire' in rateLimiter
+          ? rateLimiter
+          : new RateLimiter(rateLimiter),
+    }
+  }
+
+  /**
+   * Slugs of the organizations the pool has tokens for.
+   */
+  get orgSlugs(): string[] {
+    return [...this.#tokens.keys()]
+  }
+
+  /**
+   * The client of `orgSlug`, created on first use. Concurrent first calls
+   * share one client.
+   *
+   * @throws {Error} When the pool has no token for `orgSlug`
+   */
+  async forOrg(orgSlug: string): Promise<SocketSdk> {
+    let client = this.#clients.get(orgSlug)
+    if (!client) {
+      const token = this.#tokens.get(orgSlug)
+      if (token === undefined) {
+        throw new ErrorCtor(`No API token for organization "${orgSlug}"`)
+      }
+      client = this.#createClient(orgSlug, token).catch((e: unknown) => {
+        // Forget the failure so the next call resolves the token again.
+        this.#clients.delete(orgSlug)
+        throw e
+      })
+      this.#clients.set(orgSlug, client)
+    }
+    return await client
+  }
+
+  async #createClient(
+    orgSlug: string,
+    token: SocketSdkTokenProvider,
+  ): Promise<SocketSdk> {
+    const apiToken = typeof token === 'string' ? token : await token()
+    const { permissionGuard } = this.#options
+    return new SocketSdk(apiToken, {
+      ...this.#options,
+      permissionGuard: permissionGuard && { ...permissionGuard, orgSlug },
+    })
+  }
+}
+
+for (let i = 0, { length } = ORG_SCOPED_METHODS; i < length; i += 1) {
+  const name = ORG_SCOPED_METHODS[i]!
+  ObjectDefineProperty(SocketSdkPool.prototype, name, {
+    configurable: true,
+    async value(this: SocketSdkPool, orgSlug: string, ...args: unknown[]) {
+      const client = await this.forOrg(orgSlug)
+      return await ReflectApply(client[name], client, [orgSlug, ...args])
+    },
+    writable: true,
+  })
+}
+
+for (let i = 0, { length } = ORG_SCOPED_ITERATORS; i < length; i += 1) {
+  const name = ORG_SCOPED_ITERATORS[i]!
+  ObjectDefineProperty(SocketSdkPool.prototype, name, {
+    configurable: true,
+    async *value(this: SocketSdkPool, orgSlug: string, ...args: unknown[]) {
+      const client = await this.forOrg(orgSlug)
+      yield* ReflectApply(client[name], client, [
+        orgSlug,
+        ...args,
+      ]) as AsyncGenerator<unknown>
+    },
+    writable: true,
+  })
+}
@@ -4,6 +4,7 @@
  *   the types are hand-written and derived directly from the depscan route
  *   schemas, mirroring the precedent set by full-scans-v1.mts).
  */
+import type { ResponseMeta } from './utils/response-meta.mts'
 
 export type ThreatCampaignStatus = 'ongoing' | 'past'
 
@@ -36,6 +37,7 @@ export type ListThreatCampaignsResult = {
   cause: undefined
   data: ThreatCampaignsListData
   error: undefined
+  meta?: ResponseMeta | undefined
   status: 200
   success: true
 }
@@ -44,6 +46,7 @@ export type GetThreatCampaignResult = {
   cause: undefined
   data: ThreatCampaign
   error: undefined
+  meta?: ResponseMeta | undefined
   status: 200
   success: true
 }
@@ -62,6 +65,7 @@ export type ListThreatCampaignPackagesResult = {
   cause: undefined
   data: ThreatCampaignPackagesData
   error: undefined
+  meta?: ResponseMeta | undefined
   status: 200
   success: true
 }
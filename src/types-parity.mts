@@ -11,6 +11,14 @@
 
 import type { operations } from '../types/api'
 
+export type OrgAlertsListOptions = NonNullable<
+  operations['alertsList']['parameters']['query']
+>
+
+export type OrgAlertResolutionsListOptions = NonNullable<
+  operations['getOrgAlertResolutions']['parameters']['query']
+>
+
 export type HistoricalAlertsListOptions = NonNullable<
   operations['historicalAlertsList']['parameters']['query']
 >
@@ -5,6 +5,9 @@
  *   keeping truly optional fields as optional. Generated by:
  *   scripts/repo/generate-strict-types.mts.
  */
+import type { SocketSdkErrorCode } from './types.mts'
+import type { ResponseMeta } from './utils/response-meta.mts'
+
 /* c8 ignore start - Type definitions only, no runtime code to test. */
 
 /**
@@ -268,8 +271,11 @@ export type RepositoryListItem = {
  */
 export type StrictErrorResult = {
   cause?: string | undefined
+  code?: SocketSdkErrorCode | undefined
   data?: undefined
+  details?: unknown | undefined
   error: string
+  meta?: ResponseMeta | undefined
   status: number
   success: false
 }
@@ -282,6 +288,7 @@ export type StrictResult<T> =
       cause?: undefined
       data: T
       error?: undefined
+      meta?: ResponseMeta | undefined
       status: number
       success: true
     }
@@ -294,6 +301,7 @@ export type FullScanListResult = {
   cause?: undefined
   data: FullScanListData
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -305,6 +313,7 @@ export type FullScanResult = {
   cause?: undefined
   data: FullScanItem
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -329,6 +338,7 @@ export type OrganizationsResult = {
     organizations: Record<string, OrganizationItem>
   }
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -340,6 +350,7 @@ export type RepositoriesListResult = {
   cause?: undefined
   data: RepositoriesListData
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -351,6 +362,7 @@ export type DeleteResult = {
   cause?: undefined
   data: { success: boolean }
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -362,6 +374,7 @@ export type RepositoryResult = {
   cause?: undefined
   data: RepositoryItem
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -373,6 +386,7 @@ export type RepositoryLabelsListResult = {
   cause?: undefined
   data: RepositoryLabelsListData
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -384,6 +398,7 @@ export type RepositoryLabelResult = {
   cause?: undefined
   data: RepositoryLabelItem
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -395,6 +410,7 @@ export type DeleteRepositoryLabelResult = {
   cause?: undefined
   data: { status: string }
   error?: undefined
+  meta?: ResponseMeta | undefined
   status: number
   success: true
 }
@@ -0,0 +1,239 @@
+/**
+ * @file Polling tail for the organization audit log. The endpoint has no
+ *   "events after X" filter: it lists events newest first behind an opaque
+ *   `nextPage` token. Each poll therefore walks pages from the newest event
+ *   until it reaches events older than the checkpoint, drops the ones already
+ *   handled, and yields the rest oldest first. The checkpoint is the newest
+ *   handled `created_at` plus the ids seen at exactly that timestamp, so
+ *   events sharing a timestamp are neither lost nor repeated across polls or
+ *   restarts.
+ */
+import { setTimeout as delay } from 'node:timers/promises'
+
+import { isObject } from '@socketsecurity/lib/objects/predicates'
+import { DateCtor, DateParse } from '@socketsecurity/lib/primordials/date'
+import { ErrorCtor, TypeErrorCtor } from '@socketsecurity/lib/primordials/error'
+import { SetCtor } from '@socketsecurity/lib/primordials/map-set'
+import { NumberIsNaN } from '@socketsecurity/lib/primordials/number'
+
+import { DEFAULT_AUDIT_LOG_POLL_INTERVAL } from '../constants.mts'
+
+import type { SocketSdkArrayElement } from '../types.mts'
+import type { PageResult } from './paginate.mts'
+import type { operations } from '../../types/api'
+
+/**
+ * A single audit log event as returned by `getAuditLogEvents`.
+ */
+export type AuditLogEvent = SocketSdkArrayElement<
+  'getAuditLogEvents',
+  'results'
+>
+
+/**
+ * Resume point for `watchAuditLogEvents`. Plain JSON: persist it (e.g. with
+ * `JSON.stringify`) after handling each event and pass it back as `since` to
+ * pick up where the previous watcher stopped.
+ */
+export type AuditLogCheckpoint = {
+  /**
+   * `created_at` of the newest event handled so far.
+   */
+  createdAt: string
+  /**
+   * Ids of the handled events that share `createdAt`, so events with an
+   * identical timestamp are neither skipped nor yielded twice.
+   */
+  seenEventIds: string[]
+}
+
+/**
+ * One item yielded by `watchAuditLogEvents`: the new event plus the
+ * checkpoint to persist once it has been handled.
+ */
+export type AuditLogWatchItem = {
+  checkpoint: AuditLogCheckpoint
+  event: AuditLogEvent
+}
+
+export type WatchAuditLogEventsOptions = {
+  /**
+   * Delay between polls in milliseconds. Defaults to 30 seconds.
+   */
+  intervalMs?: number | undefined
+  /**
+   * Events per page requested on each poll.
+   */
+  per_page?: number | undefined
+  /**
+   * Stops the watcher. The iterator finishes normally once aborted.
+   */
+  signal?: AbortSignal | undefined
+  /**
+   * Where to start. A checkpoint resumes a previous watcher; a Date, epoch
+   * milliseconds or ISO string replays events created at or after that time.
+   * When omitted, only events created after the first poll are yielded.
+   */
+  since?: AuditLogCheckpoint | Date | number | string | undefined
+  /**
+   * Only watch events of this type.
+   */
+  type?:
+    | NonNullable<
+        operations['getAuditLogEvents']['parameters']['query']
+      >['type']
+    | undefined
+}
+
+// One page of the audit log endpoint.
+export type AuditLogPage = {
+  nextPage?: string | null | undefined
+  results?: AuditLogEvent[] | undefined
+}
+
+export type TailAuditLogOptions = {
+  // Fetches one page of events, newest first. Called with `undefined` for the
+  // first page and the previous page's `nextPage` token after that.
+  fetchPage: (page: string | undefined) => Promise<PageResult<AuditLogPage>>
+  intervalMs?: number | undefined
+  signal?: AbortSignal | undefined
+  since?: AuditLogCheckpoint | Date | number | string | undefined
+}
+
+/**
+ * Poll the audit log and yield each new event once, oldest first, together
+ * with the checkpoint to persist after handling it. Runs until `signal`
+ * aborts, including mid-poll, and then finishes normally. A failed poll
+ * throws an Error carrying the SDK error message; resume from the last
+ * yielded checkpoint.
+ */
+export async function* tailAuditLog(
+  options: TailAuditLogOptions,
+): AsyncGenerator<AuditLogWatchItem> {
+  const {
+    fetchPage,
+    intervalMs = DEFAULT_AUDIT_LOG_POLL_INTERVAL,
+    signal,
+    since,
+  } = {
+    __proto__: null,
+    ...options,
+  } as TailAuditLogOptions
+
+  // Newest handled timestamp (ms), its wire form, and the ids seen at it.
+  // With no `since`, the first poll only establishes this baseline.
+  let baselinePending = since === undefined
+  let createdAt = ''
+  let floorMs = -Infinity
+  let seenIds = new SetCtor<string>()
+  if (isCheckpoint(since)) {
+    createdAt = since.createdAt
+    floorMs = parseTime(since.createdAt)
+    seenIds = new SetCtor(since.seenEventIds)
+  } else if (since !== undefined) {
+    floorMs = since instanceof DateCtor ? since.getTime() : parseTime(since)
+    if (NumberIsNaN(floorMs)) {
+      throw new TypeErrorCtor(
+        `"since" must be a checkpoint, Date, epoch milliseconds, or ISO date string (received: ${String(since)})`,
+      )
+    }
+    createdAt = new DateCtor(floorMs).toISOString()
+  }
+
+  const isNew = (event: AuditLogEvent): boolean => {
+    const time = eventTime(event, floorMs)
+    return (
+      time > floorMs || (time === floorMs && !seenIds.has(event.event_id ?? ''))
+    )
+  }
+
+  while (!signal?.aborted) {
+    const fresh: AuditLogEvent[] = []
+    let page: string | undefined
+    let pageCount = 0
+    do {
+      let result: PageResult<AuditLogPage>
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        result = await fetchPage(page)
+      } catch (e) {
+        if (signal?.aborted) {
+          // Aborted mid-poll: end the iteration like an abort between polls.
+          return
+        }
+        throw e
+      }
+      pageCount += 1
+      if (!result.success) {
+        if (signal?.aborted) {
+          return
+        }
+        throw new ErrorCtor(
+          `Socket API audit log page ${pageCount} failed (${result.status}): ${result.error}`,
+          { cause: result.cause },
+        )
+      }
+      const { nextPage, results = [] } = result.data
+      let reachedCheckpoint = baselinePending
+      for (let i = 0, { length } = results; i < length; i += 1) {
+        const event = results[i]!
+        if (isNew(event)) {
+          fresh.push(event)
+        } else {
+          reachedCheckpoint = true
+        }
+      }
+      // Pages run newest first, so once a page reaches the checkpoint every
+      // later page is older still.
+      page = reachedCheckpoint ? undefined : (nextPage ?? undefined)
+    } while (page)
+
+    fresh.sort((a, b) => eventTime(a, floorMs) - eventTime(b, floorMs))
+    for (let i = 0, { length } = fresh; i < length; i += 1) {
+      const event = fresh[i]!
+      const time = eventTime(event, floorMs)
+      if (time > floorMs) {
+        createdAt = event.created_at ?? createdAt
+        floorMs = time
+        seenIds = new SetCtor()
+      }
+      if (event.event_id) {
+        seenIds.add(event.event_id)
+      }
+      if (!baselinePending) {
+        yield {
+          checkpoint: { createdAt, seenEventIds: [...seenIds] },
+          event,
+        }
+      }
+    }
+    baselinePending = false
+
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      await delay(intervalMs, undefined, { signal })
+    } catch {
+      // Aborted while waiting: end the iteration.
+      return
+    }
+  }
+}
+
+// Events without a parseable `created_at` sort at the checkpoint and are
+// de-duplicated by id alone.
+function eventTime(event: AuditLogEvent, fallback: number): number {
+  const time = parseTime(event.created_at ?? '')
+  return NumberIsNaN(time) ? fallback : time
+}
+
+function isCheckpoint(value: unknown): value is AuditLogCheckpoint {
+  return (
+    isObject(value) &&
+    typeof (value as AuditLogCheckpoint).createdAt === 'string' &&
+    Array.isArray((value as AuditLogCheckpoint).seenEventIds)
+  )
+}
+
+function parseTime(value: number | string): number {
+  return typeof value === 'number' ? value : DateParse(value)
+}
@@ -0,0 +1,181 @@
+/**
+ * @file Pluggable storage for `SocketSdk` response caching. A `CacheStore`
+ *   holds JSON-serializable API results under string keys, each with its own
+ *   time-to-live, so an SDK-wide cache can outlive the process that filled it.
+ *   `createFileCacheStore` is the built-in implementation: one JSON file per
+ *   key under a directory, suited to short-lived CLI processes that share a
+ *   cache between runs. `createMemoryCacheStore` keeps entries in process, for
+ *   several clients to share one cache.
+ */
+import crypto from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+import { DateNow } from '@socketsecurity/lib/primordials/date'
+import { TypeErrorCtor } from '@socketsecurity/lib/primordials/error'
+
+/**
+ * Key-value storage with per-entry TTL. `get` resolves `undefined` for a
+ * missing or expired key. A store that rejects is treated as a cache miss by
+ * the SDK, never as a failed call.
+ */
+export interface CacheStore {
+  delete(key: string): Promise<void>
+  /**
+   * Delete every key matching `pattern`, in which `*` matches any run of
+   * characters. Resolves with the number of keys deleted.
+   */
+  deleteAll(pattern: string): Promise<number>
+  get(key: string): Promise<unknown>
+  set(key: string, value: unknown, ttlMs: number): Promise<void>
+}
+
+export type FileCacheStoreOptions = {
+  /**
+   * Directory holding the cache files; created on first write.
+   */
+  dir: string
+}
+
+type FileCacheEntry = {
+  expiresAt: number
+  key: string
+  value: unknown
+}
+
+/**
+ * Create a `CacheStore` that keeps one JSON file per key in `dir`. Files are
+ * written atomically and readable only by the current user, since cached
+ * responses may hold organization data.
+ */
+export function createFileCacheStore(
+  options: FileCacheStoreOptions,
+): CacheStore {
+  const { dir } = { __proto__: null, ...options } as FileCacheStoreOptions
+  if (!dir || typeof dir !== 'string') {
+    throw new TypeErrorCtor('"dir" must be a non-empty string')
+  }
+  const fileFor = (key: string) =>
+    path.join(
+      dir,
+      `${crypto.createHash('sha256').update(key).digest('hex')}.json`,
+    )
+  return {
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true })
+    },
+    async deleteAll(pattern) {
+      // File names are hashes, so each entry is read to learn its key.
+      const matches = patternMatcher(pattern)
+      let names: string[]
+      try {
+        names = await fs.readdir(dir)
+      } catch {
+        return 0
+      }
+      let deleted = 0
+      for (let i = 0, { length } = names; i < length; i += 1) {
+        const name = names[i]!
+        if (!name.endsWith('.json')) {
+          continue
+        }
+        const file = path.join(dir, name)
+        let entry: FileCacheEntry | undefined
+        try {
+          entry = JSON.parse(await fs.readFile(file, 'utf8')) as FileCacheEntry
+        } catch {
+          continue
+        }
+        if (typeof entry?.key === 'string' && matches(entry.key)) {
+          await fs.rm(file, { force: true })
+          deleted += 1
+        }
+      }
+      return deleted
+    },
+    async get(key) {
+      const file = fileFor(key)
+      let entry: FileCacheEntry | undefined
+      try {
+        entry = JSON.parse(await fs.readFile(file, 'utf8')) as FileCacheEntry
+      } catch {
+        return undefined
+      }
+      if (entry?.key !== key) {
+        return undefined
+      }
+      if (!(entry.expiresAt > DateNow())) {
+        await fs.rm(file, { force: true })
+        return undefined
+      }
+      return entry.value
+    },
+    async set(key, value, ttlMs) {
+      await fs.mkdir(dir, { mode: 0o700, recursive: true })
+      const file = fileFor(key)
+      const tmpFile = `${file}.${crypto.randomUUID()}.tmp`
+      const entry: FileCacheEntry = { expiresAt: DateNow() + ttlMs, key, value }
+      await fs.writeFile(tmpFile, JSON.stringify(entry), { mode: 0o600 })
+      try {
+        await fs.rename(tmpFile, file)
+      } catch (e) {
+        await fs.rm(tmpFile, { force: true })
+        throw e
+      }
+    },
+  }
+}
+
+/**
+ * Create a `CacheStore` that keeps entries in memory. Values are stored
+ * serialized, as in a file store, so a caller mutating a cached result does
+ * not change it for the next caller.
+ */
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, { expiresAt: number; json: string }>()
+  return {
+    async delete(key) {
+      entries.delete(key)
+    },
+    async deleteAll(pattern) {
+      const matches = patternMatcher(pattern)
+      let deleted = 0
+      for (const key of entries.keys()) {
+        if (matches(key)) {
+          entries.delete(key)
+          deleted += 1
+        }
+      }
+      return deleted
+    },
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) {
+        return undefined
+      }
+      if (!(entry.expiresAt > DateNow())) {
+        entries.delete(key)
+        return undefined
+      }
+      return JSON.parse(entry.json)
+    },
+    async set(key, value, ttlMs) {
+      entries.set(key, {
+        expiresAt: DateNow() + ttlMs,
+        json: JSON.stringify(value),
+      })
+    },
+  }
+}
+
+/**
+ * Whole-key matcher for a pattern in which `*` matches any run of characters.
+ */
+export function patternMatcher(pattern: string): (key: string) => boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  const regex = new RegExp(`^${source}$`)
+  return key => regex.test(key)
+}
@@ -0,0 +1,179 @@
+/**
+ * @file Circuit breaker shared by every request an SDK instance sends. While
+ *   the API is degraded, each call would otherwise sit through its own full
+ *   retry backoff; once `failureThreshold` consecutive attempts fail the
+ *   breaker opens and calls fail fast for `openDurationMs`. After that a
+ *   limited number of half-open probe requests are let through: a probe that
+ *   reaches the server closes the breaker, a probe that fails re-opens it.
+ */
+import { DateNow } from '@socketsecurity/lib/primordials/date'
+import {
+  ErrorCaptureStackTrace,
+  ErrorCtor,
+} from '@socketsecurity/lib/primordials/error'
+
+export type CircuitState = 'closed' | 'half-open' | 'open'
+
+export type CircuitBreakerOptions = {
+  /**
+   * Consecutive failed attempts (network errors and 5xx responses) that open
+   * the circuit (default: 5).
+   */
+  failureThreshold?: number | undefined
+  /**
+   * Concurrent probe requests allowed while half-open (default: 1).
+   */
+  halfOpenProbes?: number | undefined
+  /**
+   * How long the circuit stays open before probing, in milliseconds
+   * (default: 30_000).
+   */
+  openDurationMs?: number | undefined
+}
+
+export type CircuitStateChangeInfo = {
+  /**
+   * Consecutive failures counted when the change happened.
+   */
+  failures: number
+  previousState: CircuitState
+  /**
+   * When an open circuit will next allow a probe (epoch milliseconds). Only
+   * set when `state` is `'open'`.
+   */
+  retryAt?: number | undefined
+  state: CircuitState
+}
+
+type CircuitBreakerConfig = CircuitBreakerOptions & {
+  // Decides whether a thrown error counts against the breaker. Errors that
+  // prove the server answered (e.g. a 4xx) should return false.
+  isFailure: (error: unknown) => boolean
+  // Errors that say nothing about the server either way (e.g. the caller
+  // aborted) count neither as a failure nor as a success.
+  isIgnored?: ((error: unknown) => boolean) | undefined
+  now?: (() => number) | undefined
+  onStateChange?: ((info: CircuitStateChangeInfo) => void) | undefined
+}
+
+/**
+ * Thrown instead of sending a request while the circuit is open.
+ */
+export class CircuitOpenError extends ErrorCtor {
+  retryAt: number
+
+  constructor(retryAt: number) {
+    super('circuit open')
+    this.name = 'CircuitOpenError'
+    this.retryAt = retryAt
+    ErrorCaptureStackTrace?.(this, CircuitOpenError)
+  }
+}
+
+export class CircuitBreaker {
+  readonly #failureThreshold: number
+  readonly #halfOpenProbes: number
+  readonly #isFailure: (error: unknown) => boolean
+  readonly #isIgnored: ((error: unknown) => boolean) | undefined
+  readonly #now: () => number
+  readonly #onStateChange: ((info: CircuitStateChangeInfo) => void) | undefined
+  readonly #openDurationMs: number
+  #failures = 0
+  #probesInFlight = 0
+  #retryAt = 0
+  #state: CircuitState = 'closed'
+
+  constructor(config: CircuitBreakerConfig) {
+    const {
+      failureThreshold = 5,
+      halfOpenProbes = 1,
+      isFailure,
+      isIgnored,
+      now = DateNow,
+      onStateChange,
+      openDurationMs = 30_000,
+    } = { __proto__: null, ...config } as CircuitBreakerConfig
+    this.#failureThreshold = failureThreshold
+    this.#halfOpenProbes = halfOpenProbes
+    this.#isFailure = isFailure
+    this.#isIgnored = isIgnored
+    this.#now = now
+    this.#onStateChange = onStateChange
+    this.#openDurationMs = openDurationMs
+  }
+
+  get state(): CircuitState {
+    return this.#state
+  }
+
+  /**
+   * Run one request attempt through the breaker. Throws CircuitOpenError
+   * without calling `operation` while the circuit is open or every half-open
+   * probe slot is taken.
+   */
+  async run<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.#state === 'open') {
+      if (this.#now() < this.#retryAt) {
+        throw new CircuitOpenError(this.#retryAt)
+      }
+      this.#transition('half-open')
+    }
+    const isProbe = this.#state === 'half-open'
+    if (isProbe) {
+      if (this.#probesInFlight >= this.#halfOpenProbes) {
+        throw new CircuitOpenError(this.#retryAt)
+      }
+      this.#probesInFlight += 1
+    }
+    try {
+      const result = await operation()
+      this.#recordSuccess()
+      return result
+    } catch (e) {
+      if (this.#isIgnored?.(e)) {
+        // Only the probe slot is released, below.
+      } else if (this.#isFailure(e)) {
+        this.#recordFailure(isProbe)
+      } else {
+        this.#recordSuccess()
+      }
+      throw e
+    } finally {
+      if (isProbe) {
+        this.#probesInFlight -= 1
+      }
+    }
+  }
+
+  #recordFailure(isProbe: boolean): void {
+    this.#failures += 1
+    if (
+      isProbe ||
+      (this.#state === 'closed' && this.#failures >= this.#failureThreshold)
+    ) {
+      this.#retryAt = this.#now() + this.#openDurationMs
+      this.#transition('open')
+    }
+  }
+
+  #recordSuccess(): void {
+    this.#failures = 0
+    if (this.#state !== 'closed') {
+      this.#transition('closed')
+    }
+  }
+
+  #transition(state: CircuitState): void {
+    const previousState = this.#state
+    if (previousState === state) {
+      return
+    }
+    this.#state = state
+    this.#onStateChange?.({
+      failures: this.#failures,
+      previousState,
+      ...(state === 'open' ? { retryAt: this.#retryAt } : {}),
+      state,
+    })
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * @file HTTP compression for `SocketSdk` requests. Large JSON request bodies
+ *   can be gzipped (opt-in, since not every proxy in front of the API accepts
+ *   compressed uploads), and streamed responses are requested with
+ *   `Accept-Encoding: gzip, br` and decoded before they reach a caller.
+ *   Buffered responses need no help here: `httpRequest` from
+ *   `@socketsecurity/lib` already negotiates and decodes them.
+ */
+import { pipeline } from 'node:stream'
+import { promisify } from 'node:util'
+import zlib from 'node:zlib'
+
+import type { HttpTransport, TransportRequest } from '../types.mts'
+import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
+import type { IncomingMessage } from 'node:http'
+import type { Transform } from 'node:stream'
+
+export type CompressionOptions = {
+  /**
+   * Gzip string request bodies of at least this many bytes. `undefined`
+   * sends every body uncompressed.
+   */
+  gzipMinBytes?: number | undefined
+}
+
+const gzip = promisify(zlib.gzip)
+
+/**
+ * Wrap `transport` so request bodies of at least `gzipMinBytes` are sent with
+ * `Content-Encoding: gzip`, and streamed responses are negotiated and decoded.
+ * A decoded `rawResponse` keeps the `headers`, `statusCode` and
+ * `statusMessage` of the response it was read from.
+ */
+export function createCompressionTransport(
+  transport: HttpTransport,
+  options?: CompressionOptions | undefined,
+): HttpTransport {
+  const { gzipMinBytes } = { __proto__: null, ...options } as CompressionOptions
+  return async (url, request) => {
+    let { body, headers } = request
+    if (
+      gzipMinBytes !== undefined &&
+      typeof body === 'string' &&
+      Buffer.byteLength(body) >= gzipMinBytes &&
+      !hasHeader(headers, 'content-encoding')
+    ) {
+      body = await gzip(body)
+      headers = { ...headers, 'Content-Encoding': 'gzip' }
+    }
+    // Only decode what this wrapper asked for; a caller that sets its own
+    // Accept-Encoding gets the body as sent.
+    const decode = !!request.stream && !hasHeader(headers, 'accept-encoding')
+    if (decode) {
+      headers = { ...headers, 'Accept-Encoding': 'gzip, br' }
+    }
+    const response = await transport(url, { ...request, body, headers })
+    return decode ? decodeStreamedResponse(response) : response
+  }
+}
+
+// Replace a compressed `rawResponse` with a stream of its decoded bytes.
+function decodeStreamedResponse(response: HttpResponse): HttpResponse {
+  const raw = response.rawResponse
+  const encoding = response.headers['content-encoding']
+  const decoder =
+    typeof encoding === 'string' ? createDecoder(encoding) : undefined
+  if (!raw || !decoder) {
+    return response
+  }
+  const stripped = new Set(['content-encoding', 'content-length'])
+  const headers = Object.fromEntries(
+    Object.entries(response.headers).filter(([key]) => !stripped.has(key)),
+  )
+  // Errors on either side reach the decoder, whose reader sees them.
+  pipeline(raw, decoder, () => {})
+  return {
+    ...response,
+    headers,
+    rawResponse: Object.assign(decoder, {
+      headers,
+      statusCode: raw.statusCode,
+      statusMessage: raw.statusMessage,
+    }) as unknown as IncomingMessage,
+  }
+}
+
+function createDecoder(encoding: string): Transform | undefined {
+  switch (encoding.trim().toLowerCase()) {
+    case 'br':
+      return zlib.createBrotliDecompress()
+    case 'deflate':
+      return zlib.createInflate()
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip()
+    default:
+      return undefined
+  }
+}
+
+function hasHeader(
+  headers: TransportRequest['headers'],
+  name: string,
+): boolean {
+  return !!headers && Object.keys(headers).some(k => k.toLowerCase() === name)
+}
@@ -0,0 +1,283 @@
+/**
+ * @file Metrics for `SocketSdk` requests. `createSdkMetrics` returns hooks to
+ *   pass as `SocketSdkOptions.hooks` and aggregates what they report per SDK
+ *   method: request counts by status class, a latency histogram, retries, and
+ *   the quota units the requests are estimated to have spent. Totals are read
+ *   back as a JSON snapshot or as Prometheus text exposition for a `/metrics`
+ *   endpoint.
+ */
+import { TypeErrorCtor } from '@socketsecurity/lib/primordials/error'
+import { MathFloor } from '@socketsecurity/lib/primordials/math'
+import { NumberIsFinite } from '@socketsecurity/lib/primordials/number'
+
+import { getQuotaCost } from '../quota-utils.mts'
+
+import type { ResponseInfo } from '../types.mts'
+import type { RetryInfo } from './retry-policy.mts'
+
+export type SdkMetricsOptions = {
+  /**
+   * Upper bounds of the latency histogram buckets in milliseconds (default:
+   * 50, 100, 250, 500, 1000, 2500, 5000 and 10_000).
+   */
+  latencyBucketsMs?: readonly number[] | undefined
+  /**
+   * Prefix of the Prometheus metric names (default: `'socket_sdk'`).
+   */
+  prefix?: string | undefined
+}
+
+export type SdkLatencyHistogram = {
+  /**
+   * Upper bounds of the buckets in milliseconds.
+   */
+  bucketsMs: number[]
+  /**
+   * Requests that took at most each bound. Counts are cumulative, as in a
+   * Prometheus histogram.
+   */
+  counts: number[]
+  /**
+   * Requests observed.
+   */
+  count: number
+  /**
+   * Total time of the requests observed, in milliseconds.
+   */
+  sumMs: number
+}
+
+export type SdkMethodMetrics = {
+  latency: SdkLatencyHistogram
+  /**
+   * Quota units spent, estimated from `getQuotaCost` for each 2xx response.
+   */
+  quotaUnits: number
+  requests: number
+  retries: number
+  /**
+   * Requests by status class: `'2xx'` to `'5xx'`, or `'error'` when no
+   * response arrived.
+   */
+  statuses: Record<string, number>
+}
+
+export type SdkMetricsSnapshot = {
+  /**
+   * Per-method metrics keyed by SDK method name. Requests sent outside a named
+   * method are counted under `'unknown'`.
+   */
+  methods: Record<string, SdkMethodMetrics>
+  quotaUnits: number
+  requests: number
+  retries: number
+}
+
+export type SdkMetrics = {
+  /**
+   * Hooks that feed the collector. Pass them as `SocketSdkOptions.hooks`, or
+   * call them from your own hooks; one collector may serve several clients.
+   */
+  hooks: {
+    onResponse: (info: ResponseInfo) => void
+    onRetry: (info: RetryInfo) => void
+  }
+  /**
+   * Forget everything collected so far.
+   */
+  reset(): void
+  /**
+   * A copy of the metrics collected so far.
+   */
+  snapshot(): SdkMetricsSnapshot
+  /**
+   * The metrics in Prometheus text exposition format. Latencies are exported
+   * in seconds, following Prometheus naming conventions.
+   */
+  toPrometheus(): string
+}
+
+const DEFAULT_LATENCY_BUCKETS_MS = [50, 100, 250, 500, 1000, 2500, 5000, 10_000]
+
+const UNKNOWN_METHOD = 'unknown'
+
+/**
+ * Create a metrics collector for `SocketSdk` requests.
+ *
+ * @example
+ *   ;```ts
+ *   const metrics = createSdkMetrics()
+ *   const client = new SocketSdk(token, { hooks: metrics.hooks })
+ *
+ *   await client.getQuota()
+ *   metrics.snapshot().methods['getQuota']?.requests // 1
+ *   ```
+ */
+export function createSdkMetrics(
+  options?: SdkMetricsOptions | undefined,
+): SdkMetrics {
+  const {
+    latencyBucketsMs = DEFAULT_LATENCY_BUCKETS_MS,
+    prefix = 'socket_sdk',
+  } = { __proto__: null, ...options } as SdkMetricsOptions
+  const bucketsMs = [...latencyBucketsMs].sort((a, b) => a - b)
+  for (let i = 0, { length } = bucketsMs; i < length; i += 1) {
+    const bound = bucketsMs[i]!
+    if (!NumberIsFinite(bound) || bound <= 0) {
+      throw new TypeErrorCtor(
+        '"latencyBucketsMs" must contain only positive numbers',
+      )
+    }
+  }
+  let methods = new Map<string, SdkMethodMetrics>()
+
+  const methodMetrics = (methodName: string | undefined) => {
+    const name = methodName ?? UNKNOWN_METHOD
+    let entry = methods.get(name)
+    if (!entry) {
+      entry = {
+        latency: {
+          bucketsMs: [...bucketsMs],
+          count: 0,
+          counts: bucketsMs.map(() => 0),
+          sumMs: 0,
+        },
+        quotaUnits: 0,
+        requests: 0,
+        retries: 0,
+        statuses: {},
+      }
+      methods.set(name, entry)
+    }
+    return entry
+  }
+
+  const snapshot = (): SdkMetricsSnapshot => {
+    const result: SdkMetricsSnapshot = {
+      methods: {},
+      quotaUnits: 0,
+      requests: 0,
+      retries: 0,
+    }
+    const names = [...methods.keys()].sort()
+    for (let i = 0, { length } = names; i < length; i += 1) {
+      const name = names[i]!
+      const entry = methods.get(name)!
+      result.methods[name] = {
+        latency: {
+          ...entry.latency,
+          bucketsMs: [...entry.latency.bucketsMs],
+          counts: [...entry.latency.counts],
+        },
+        quotaUnits: entry.quotaUnits,
+        requests: entry.requests,
+        retries: entry.retries,
+        statuses: { ...entry.statuses },
+      }
+      result.quotaUnits += entry.quotaUnits
+      result.requests += entry.requests
+      result.retries += entry.retries
+    }
+    return result
+  }
+
+  return {
+    hooks: {
+      onResponse(info) {
+        const entry = methodMetrics(info.methodName)
+        const statusClass = getStatusClass(info.status)
+        entry.requests += 1
+        entry.statuses[statusClass] = (entry.statuses[statusClass] ?? 0) + 1
+        const { latency } = entry
+        latency.count += 1
+        latency.sumMs += info.duration
+        for (let i = 0, { length } = latency.bucketsMs; i < length; i += 1) {
+          if (info.duration <= latency.bucketsMs[i]!) {
+            latency.counts[i]! += 1
+          }
+        }
+        if (statusClass === '2xx' && info.methodName) {
+          entry.quotaUnits += getQuotaCostOrZero(info.methodName)
+        }
+      },
+      onRetry(info) {
+        methodMetrics(info.methodName).retries += 1
+      },
+    },
+    reset() {
+      methods = new Map()
+    },
+    snapshot,
+    toPrometheus() {
+      return formatPrometheus(snapshot(), prefix)
+    },
+  }
+}
+
+function formatPrometheus(
+  snapshot: SdkMetricsSnapshot,
+  prefix: string,
+): string {
+  const requests: string[] = []
+  const latency: string[] = []
+  const retries: string[] = []
+  const quota: string[] = []
+  const names = Object.keys(snapshot.methods)
+  for (let i = 0, { length } = names; i < length; i += 1) {
+    const name = names[i]!
+    const entry = snapshot.methods[name]!
+    const method = `method="${escapeLabel(name)}"`
+    const statuses = Object.keys(entry.statuses).sort()
+    for (let j = 0, { length: count } = statuses; j < count; j += 1) {
+      const status = statuses[j]!
+      requests.push(
+        `${prefix}_requests_total{${method},status="${status}"} ${entry.statuses[status]}`,
+      )
+    }
+    const { bucketsMs, counts } = entry.latency
+    for (let j = 0, { length: count } = bucketsMs; j < count; j += 1) {
+      latency.push(
+        `${prefix}_request_duration_seconds_bucket{${method},le="${bucketsMs[j]! / 1000}"} ${counts[j]}`,
+      )
+    }
+    latency.push(
+      `${prefix}_request_duration_seconds_bucket{${method},le="+Inf"} ${entry.latency.count}`,
+      `${prefix}_request_duration_seconds_sum{${method}} ${entry.latency.sumMs / 1000}`,
+      `${prefix}_request_duration_seconds_count{${method}} ${entry.latency.count}`,
+    )
+    retries.push(`${prefix}_retries_total{${method}} ${entry.retries}`)
+    quota.push(`${prefix}_quota_units_total{${method}} ${entry.quotaUnits}`)
+  }
+  return [
+    `# HELP ${prefix}_requests_total Socket API requests by SDK method and status class.`,
+    `# TYPE ${prefix}_requests_total counter`,
+    ...requests,
+    `# HELP ${prefix}_request_duration_seconds Socket API request latency by SDK method.`,
+    `# TYPE ${prefix}_request_duration_seconds histogram`,
+    ...latency,
+    `# HELP ${prefix}_retries_total Retries by SDK method.`,
+    `# TYPE ${prefix}_retries_total counter`,
+    ...retries,
+    `# HELP ${prefix}_quota_units_total Estimated quota units spent by SDK method.`,
+    `# TYPE ${prefix}_quota_units_total counter`,
+    ...quota,
+    '',
+  ].join('\n')
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/[\\"\n]/g, c => (c === '\n' ? '\\n' : `\\${c}`))
+}
+
+// Methods missing from the quota table are not charged.
+function getQuotaCostOrZero(methodName: string): number {
+  try {
+    return getQuotaCost(methodName)
+  } catch {
+    return 0
+  }
+}
+
+function getStatusClass(status: number | undefined): string {
+  return status ? `${MathFloor(status / 100)}xx` : 'error'
+}
@@ -0,0 +1,207 @@
+/**
+ * @file Pagination helpers for Socket API list endpoints. Cursor endpoints
+ *   return `{ items, endCursor }` and expect the cursor echoed back on the next
+ *   request; the loop only ends when `endCursor` is null (an empty `items` page
+ *   can still be followed by more results). Page-number endpoints return
+ *   `{ results, nextPage }` and take `page`/`per_page`. These helpers drive
+ *   both loops and yield items one at a time so callers never re-implement
+ *   them.
+ */
+import { ErrorCtor } from '@socketsecurity/lib/primordials/error'
+import { MapCtor } from '@socketsecurity/lib/primordials/map-set'
+
+import type {
+  PageNumberPaginationOptions,
+  PaginationOptions,
+} from '../types.mts'
+
+// One page of a cursor-paginated list endpoint.
+export type CursorPage<TItem> = {
+  endCursor?: string | null | undefined
+  items?: TItem[] | undefined
+}
+
+// One page of a page-number-paginated list endpoint.
+export type NumberedPage<TItem> = {
+  nextPage?: number | null | undefined
+  results?: TItem[] | undefined
+}
+
+// The subset of an SDK result the pagination loop reads. Both the generic
+// SocketSdkResult and the strict result types satisfy it.
+export type PageResult<TPage> =
+  | {
+      data: TPage
+      success: true
+    }
+  | {
+      cause?: string | undefined
+      error: string
+      status: number
+      success: false
+    }
+
+export type PaginateCursorOptions<TItem> = PaginationOptions & {
+  // Fetches a single page. Called with `undefined` for the first page (unless
+  // `startCursor` is set) and with the previous page's `endCursor` after that.
+  // Retry/backoff stays in the SDK method this wraps.
+  fetchPage: (
+    cursor: string | undefined,
+  ) => Promise<PageResult<CursorPage<TItem>>>
+  // Human-readable name of the listing, used only in the error message.
+  label: string
+  // Cursor to resume from (a previously observed `endCursor`).
+  startCursor?: string | undefined
+}
+
+export type PaginatePagesOptions<TItem> = PageNumberPaginationOptions & {
+  // Fetches a single page by number. May be called for several pages at once
+  // when `prefetch` is set, so it must not share mutable request state.
+  fetchPage: (page: number) => Promise<PageResult<NumberedPage<TItem>>>
+  // Human-readable name of the listing, used only in the error message.
+  label: string
+  // Page number to start from. Defaults to 1.
+  startPage?: number | undefined
+}
+
+/**
+ * Drain an async iterable into an array. Pairs with the `iterate*` methods
+ * when the whole listing is needed at once; set `maxItems` / `maxPages` on the
+ * iterator to bound memory.
+ *
+ * @example
+ *   ;```typescript
+ *   const repos = await collectAll(
+ *     sdk.iterateRepositories('my-org', { per_page: 100, prefetch: 4 }),
+ *   )
+ *   ```
+ */
+export async function collectAll<TItem>(
+  iterable: AsyncIterable<TItem>,
+): Promise<TItem[]> {
+  const items: TItem[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+/**
+ * Walk a cursor-paginated endpoint and yield its items one at a time. Stops
+ * when the server returns a null/empty `endCursor`, or when the `maxItems` /
+ * `maxPages` budget is spent. A failed page throws an Error carrying the SDK
+ * error message; items from earlier pages have already been yielded.
+ */
+export async function* paginateCursor<TItem>(
+  options: PaginateCursorOptions<TItem>,
+): AsyncGenerator<TItem> {
+  const {
+    fetchPage,
+    label,
+    maxItems = Infinity,
+    maxPages = Infinity,
+    startCursor,
+  } = {
+    __proto__: null,
+    ...options,
+  } as PaginateCursorOptions<TItem>
+
+  let cursor = startCursor
+  let itemCount = 0
+  let pageCount = 0
+  while (pageCount < maxPages && itemCount < maxItems) {
+    // eslint-disable-next-line no-await-in-loop
+    const result = await fetchPage(cursor)
+    pageCount += 1
+    if (!result.success) {
+      throw new ErrorCtor(
+        `Socket API ${label} page ${pageCount} failed (${result.status}): ${result.error}`,
+        { cause: result.cause },
+      )
+    }
+    const { endCursor, items = [] } = result.data
+    for (let i = 0, { length } = items; i < length; i += 1) {
+      if (itemCount >= maxItems) {
+        return
+      }
+      itemCount += 1
+      yield items[i]!
+    }
+    // A null endCursor is the only reliable end-of-results signal.
+    if (!endCursor) {
+      return
+    }
+    cursor = endCursor
+  }
+}
+
+/**
+ * Walk a page-number-paginated endpoint and yield its items one at a time.
+ * Stops when the server returns a null/zero `nextPage`, or when the `maxItems`
+ * / `maxPages` budget is spent. With `prefetch` set, up to that many following
+ * pages are requested while the current one is consumed; results are still
+ * yielded in page order. A failed page throws an Error carrying the SDK error
+ * message; items from earlier pages have already been yielded.
+ */
+export async function* paginatePages<TItem>(
+  options: PaginatePagesOptions<TItem>,
+): AsyncGenerator<TItem> {
+  const {
+    fetchPage,
+    label,
+    maxItems = Infinity,
+    maxPages = Infinity,
+    prefetch = 0,
+    startPage = 1,
+  } = {
+    __proto__: null,
+    ...options,
+  } as PaginatePagesOptions<TItem>
+
+  // Keyed by page number: page numbers are absolute, so a prefetched page is
+  // still valid if the server skips ahead to it.
+  const inFlight = new MapCtor<
+    number,
+    Promise<PageResult<NumberedPage<TItem>>>
+  >()
+  let itemCount = 0
+  let page = startPage
+  let pageCount = 0
+  while (pageCount < maxPages && itemCount < maxItems) {
+    // Never request more pages than the remaining maxPages budget allows.
+    const lastPage = page + Math.min(prefetch, maxPages - pageCount - 1)
+    for (let n = page; n <= lastPage; n += 1) {
+      if (!inFlight.has(n)) {
+        const pending = fetchPage(n)
+        // Speculative pages may be abandoned; keep their rejections from
+        // surfacing as unhandled. Awaiting `pending` below still throws.
+        pending.catch(() => {})
+        inFlight.set(n, pending)
+      }
+    }
+    // eslint-disable-next-line no-await-in-loop
+    const result = await inFlight.get(page)!
+    inFlight.delete(page)
+    pageCount += 1
+    if (!result.success) {
+      throw new ErrorCtor(
+        `Socket API ${label} page ${page} failed (${result.status}): ${result.error}`,
+        { cause: result.cause },
+      )
+    }
+    const { nextPage, results = [] } = result.data
+    for (let i = 0, { length } = results; i < length; i += 1) {
+      if (itemCount >= maxItems) {
+        return
+      }
+      itemCount += 1
+      yield results[i]!
+    }
+    // The API reports the last page with a null (or default 0) nextPage; a
+    // nextPage that does not move forward would loop forever.
+    if (!nextPage || nextPage <= page) {
+      return
+    }
+    page = nextPage
+  }
+}
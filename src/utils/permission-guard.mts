@@ -0,0 +1,188 @@
+/**
+ * @file Token scope checks against the method requirements in
+ *   `data/api-method-quota-and-permissions.json`. A token missing a scope is
+ *   otherwise only found out from a 403 halfway through a job.
+ *   `findMissingPermissions` compares a scope list with one method's
+ *   requirements; `PermissionGuard` runs that check before every call of an
+ *   SDK instance and stops calls the token cannot make before they are sent.
+ */
+import {
+  ErrorCaptureStackTrace,
+  ErrorCtor,
+  TypeErrorCtor,
+} from '@socketsecurity/lib/primordials/error'
+import { MapCtor } from '@socketsecurity/lib/primordials/map-set'
+
+import { getRequiredPermissions } from '../quota-utils.mts'
+
+export type CheckPermissionsOptions = {
+  /**
+   * Organization whose API tokens are listed with `getAPITokens` to find the
+   * scopes of the SDK's token. Required unless `scopes` is set.
+   */
+  orgSlug?: string | undefined
+  /**
+   * Scopes of the SDK's token, used as-is instead of looking them up.
+   */
+  scopes?: readonly string[] | undefined
+}
+
+export type PermissionCheck = {
+  /**
+   * Required scopes the token lacks, keyed by method name. Methods the token
+   * can call are left out, so an empty object means every method passed.
+   */
+  missing: Record<string, string[]>
+  /**
+   * Scopes the methods were checked against.
+   */
+  scopes: string[]
+  /**
+   * Methods missing from the requirements table, which were not checked.
+   */
+  unknown: string[]
+}
+
+export type PermissionGuardOptions = CheckPermissionsOptions
+
+export type MissingPermissionsInfo = {
+  methodName: string
+  /**
+   * Required scopes the token lacks.
+   */
+  missing: string[]
+}
+
+type PermissionGuardConfig = PermissionGuardOptions & {
+  // Resolves the token's scopes; a rejection leaves the guard unarmed until
+  // the next call tries again.
+  fetchScopes: () => Promise<string[]>
+}
+
+// SDK methods whose requirements are listed under the API operationId rather
+// than the method name.
+const OPERATION_IDS: ReadonlyMap<string, string> = new MapCtor([
+  ['createRepository', 'createOrgRepo'],
+  ['createRepositoryLabel', 'createOrgRepoLabel'],
+  ['deleteFullScan', 'deleteOrgFullScan'],
+  ['deleteRepository', 'deleteOrgRepo'],
+  ['deleteRepositoryLabel', 'deleteOrgRepoLabel'],
+  ['getFullScan', 'getOrgFullScanBuffered'],
+  ['getFullScanMetadata', 'getOrgFullScanMetadata'],
+  ['getRepository', 'getOrgRepo'],
+  ['getRepositoryLabel', 'getOrgRepoLabel'],
+  ['iterateFullScans', 'getOrgFullScanList'],
+  ['iterateRepositories', 'getOrgRepoList'],
+  ['listFullScans', 'getOrgFullScanList'],
+  ['listOrganizations', 'getOrganizations'],
+  ['listRepositories', 'getOrgRepoList'],
+  ['listRepositoryLabels', 'getOrgRepoLabelList'],
+  ['streamFullScan', 'streamOrgFullScan'],
+  ['updateRepository', 'updateOrgRepo'],
+  ['updateRepositoryLabel', 'updateOrgRepoLabel'],
+])
+
+/**
+ * Thrown instead of sending a call the token lacks scopes for.
+ */
+export class MissingPermissionsError extends ErrorCtor {
+  info: MissingPermissionsInfo
+
+  constructor(info: MissingPermissionsInfo) {
+    super('missing token scopes')
+    this.name = 'MissingPermissionsError'
+    this.info = info
+    ErrorCaptureStackTrace?.(this, MissingPermissionsError)
+  }
+}
+
+/**
+ * Required scopes of `methodName` that `scopes` does not grant. A scope
+ * grants itself and, without a `:action` suffix, every action under it
+ * (`repo` grants `repo:list`); `*` grants everything. SDK methods listed
+ * under their operationId, such as `createRepository`, are looked up by it.
+ *
+ * @throws {Error} When `methodName` is not in the requirements table
+ */
+export function findMissingPermissions(
+  scopes: readonly string[],
+  methodName: string,
+): string[] {
+  const granted = new Set(scopes)
+  if (granted.has('*')) {
+    return []
+  }
+  const required = getRequiredPermissions(
+    OPERATION_IDS.get(methodName) ?? methodName,
+  )
+  const missing: string[] = []
+  for (let i = 0, { length } = required; i < length; i += 1) {
+    const permission = required[i]!
+    const colon = permission.indexOf(':')
+    if (
+      !granted.has(permission) &&
+      !(colon !== -1 && granted.has(permission.slice(0, colon)))
+    ) {
+      missing.push(permission)
+    }
+  }
+  return missing
+}
+
+export class PermissionGuard {
+  readonly #fetchScopes: () => Promise<string[]>
+  #loading: Promise<void> | undefined
+  #scopes: readonly string[] | undefined
+
+  constructor(config: PermissionGuardConfig) {
+    const { fetchScopes, orgSlug, scopes } = {
+      __proto__: null,
+      ...config,
+    } as PermissionGuardConfig
+    if (!scopes && !orgSlug) {
+      throw new TypeErrorCtor('"orgSlug" or "scopes" is required')
+    }
+    this.#fetchScopes = fetchScopes
+    this.#scopes = scopes ? [...scopes] : undefined
+  }
+
+  /**
+   * Throw `MissingPermissionsError` when the token lacks a scope
+   * `methodName` requires. Methods missing from the requirements table are
+   * never stopped, nor is any call while the scopes are unknown.
+   */
+  async check(methodName: string): Promise<void> {
+    await this.#load()
+    const scopes = this.#scopes
+    if (!scopes) {
+      return
+    }
+    let missing: string[]
+    try {
+      missing = findMissingPermissions(scopes, methodName)
+    } catch {
+      // Not in the requirements table: nothing to check.
+      return
+    }
+    if (missing.length) {
+      throw new MissingPermissionsError({ methodName, missing })
+    }
+  }
+
+  // Resolve the scopes once; concurrent first calls share the lookup.
+  async #load(): Promise<void> {
+    if (this.#scopes) {
+      return
+    }
+    this.#loading ??= this.#fetchScopes().then(
+      scopes => {
+        this.#scopes = scopes
+        this.#loading = undefined
+      },
+      () => {
+        this.#loading = undefined
+      },
+    )
+    await this.#loading
+  }
+}
@@ -41,6 +41,8 @@ export type PollCachedScanOptions = {
   // Delay between polls when a 202 is received. Defaults to
   // DEFAULT_POLL_INTERVAL.
   pollIntervalMs?: number | undefined
+  // Stops polling between attempts, rejecting with the signal's abort reason.
+  signal?: AbortSignal | undefined
   // Injectable clock and sleep for deterministic tests. Default to the real
   // clock and the lib sleep helper. Fake timers advance that helper correctly.
   now?: (() => number) | undefined
@@ -65,6 +67,7 @@ export async function pollCachedScan(
     now = DateNow,
     pollIntervalMs = DEFAULT_POLL_INTERVAL,
     requestFn,
+    signal,
     sleep = defaultSleep,
   } = {
     __proto__: null,
@@ -92,6 +95,7 @@ export async function pollCachedScan(
       )
     }
     await sleep(pollIntervalMs)
+    signal?.throwIfAborted()
     response = await requestFn()
   }
   // 200 → parse and return. Non-2xx → getResponseJson throws ResponseError,
@@ -0,0 +1,183 @@
+/**
+ * @file Quota budget guard for an SDK instance. A token's quota is shared by
+ *   everyone using it, so a batch job can spend what interactive users still
+ *   need. The guard fetches the remaining quota once, charges each call the
+ *   method's cost from `getQuotaCost` when it completes, and stops calls that
+ *   would take the remaining quota below a configured floor before they are
+ *   sent. Costs of calls still in flight are reserved, so concurrent calls
+ *   cannot overspend together.
+ */
+import {
+  ErrorCaptureStackTrace,
+  ErrorCtor,
+  TypeErrorCtor,
+} from '@socketsecurity/lib/primordials/error'
+import { DateNow } from '@socketsecurity/lib/primordials/date'
+import { MathMax } from '@socketsecurity/lib/primordials/math'
+import { NumberIsFinite } from '@socketsecurity/lib/primordials/number'
+
+import { getQuotaCost } from '../quota-utils.mts'
+
+export type QuotaGuardOptions = {
+  /**
+   * Quota units to leave for other users of the token. A call whose cost
+   * would take the remaining quota below the floor is not sent (default: 0).
+   */
+  floor?: number | undefined
+  /**
+   * What happens to such a call after `hooks.onQuotaLow` is called: `'block'`
+   * resolves a `QUOTA_EXCEEDED` error result without sending it, `'notify'`
+   * sends it anyway (default: `'block'`).
+   */
+  onLow?: 'block' | 'notify' | undefined
+}
+
+export type QuotaLowInfo = {
+  /**
+   * Whether the call was stopped.
+   */
+  blocked: boolean
+  /**
+   * Quota units the call would spend.
+   */
+  cost: number
+  floor: number
+  methodName: string
+  /**
+   * Quota units left, less the cost of calls still in flight.
+   */
+  remaining: number
+}
+
+type QuotaGuardConfig = QuotaGuardOptions & {
+  // Resolves the remaining quota; a rejection leaves the guard unarmed until
+  // a call after FETCH_RETRY_DELAY tries again.
+  fetchRemaining: () => Promise<number>
+  now?: (() => number) | undefined
+  onQuotaLow?: ((info: QuotaLowInfo) => void) | undefined
+}
+
+// How long calls go unguarded after a failed fetch before one fetches again,
+// so a failing quota endpoint is not hit once per call.
+const FETCH_RETRY_DELAY = 30_000
+
+/**
+ * Thrown instead of sending a call the quota guard blocked.
+ */
+export class QuotaExceededError extends ErrorCtor {
+  info: QuotaLowInfo
+
+  constructor(info: QuotaLowInfo) {
+    super('quota floor reached')
+    this.name = 'QuotaExceededError'
+    this.info = info
+    ErrorCaptureStackTrace?.(this, QuotaExceededError)
+  }
+}
+
+export class QuotaGuard {
+  readonly #block: boolean
+  readonly #fetchRemaining: () => Promise<number>
+  readonly #floor: number
+  readonly #now: () => number
+  readonly #onQuotaLow: ((info: QuotaLowInfo) => void) | undefined
+  #fetchFailedAt: number | undefined
+  #loading: Promise<void> | undefined
+  #remaining: number | undefined
+  #reserved = 0
+
+  constructor(config: QuotaGuardConfig) {
+    const {
+      fetchRemaining,
+      floor = 0,
+      now = DateNow,
+      onLow = 'block',
+      onQuotaLow,
+    } = { __proto__: null, ...config } as QuotaGuardConfig
+    if (!NumberIsFinite(floor) || floor < 0) {
+      throw new TypeErrorCtor('"floor" must be a non-negative number')
+    }
+    this.#block = onLow === 'block'
+    this.#fetchRemaining = fetchRemaining
+    this.#floor = floor
+    this.#now = now
+    this.#onQuotaLow = onQuotaLow
+  }
+
+  /**
+   * Reserve the cost of one `methodName` call before it is sent. Throws
+   * `QuotaExceededError` when the call is blocked. Resolves a function to call
+   * once the call completes, with `spent` true when the API charged it.
+   * Methods missing from the quota table cost nothing and are never blocked,
+   * nor is any call while the remaining quota is unknown.
+   */
+  async reserve(methodName: string): Promise<(spent: boolean) => void> {
+    let cost = 0
+    try {
+      cost = getQuotaCost(methodName)
+    } catch {
+      // Not in the quota table: nothing to guard.
+    }
+    if (!cost) {
+      return () => {}
+    }
+    await this.#load()
+    if (this.#remaining === undefined) {
+      return () => {}
+    }
+    const remaining = this.#remaining - this.#reserved
+    if (remaining - cost < this.#floor) {
+      const info: QuotaLowInfo = {
+        blocked: this.#block,
+        cost,
+        floor: this.#floor,
+        methodName,
+        remaining,
+      }
+      try {
+        this.#onQuotaLow?.(info)
+      } catch {
+        // A logging hook must not change the outcome of the call.
+      }
+      if (this.#block) {
+        throw new QuotaExceededError(info)
+      }
+    }
+    this.#reserved += cost
+    let settled = false
+    return spent => {
+      if (settled) {
+        return
+      }
+      settled = true
+      this.#reserved -= cost
+      if (spent && this.#remaining !== undefined) {
+        this.#remaining = MathMax(0, this.#remaining - cost)
+      }
+    }
+  }
+
+  // Fetch the remaining quota once; concurrent first calls share the fetch.
+  // After a failed fetch, calls wait out FETCH_RETRY_DELAY before retrying.
+  async #load(): Promise<void> {
+    if (
+      this.#remaining !== undefined ||
+      (this.#fetchFailedAt !== undefined &&
+        this.#now() - this.#fetchFailedAt < FETCH_RETRY_DELAY)
+    ) {
+      return
+    }
+    this.#loading ??= this.#fetchRemaining().then(
+      remaining => {
+        this.#fetchFailedAt = undefined
+        this.#remaining = remaining
+        this.#loading = undefined
+      },
+      () => {
+        this.#fetchFailedAt = this.#now()
+        this.#loading = undefined
+      },
+    )
+    await this.#loading
+  }
+}
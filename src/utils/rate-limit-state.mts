@@ -0,0 +1,111 @@
+/**
+ * @file Live rate-limit and quota state of a `SocketSdk`. Every response the
+ *   SDK receives updates it from its `X-RateLimit-*` / `RateLimit-*`,
+ *   `Retry-After` and `X-Quota-*` headers, so a long-running job can read
+ *   `sdk.getRateLimitState()` and slow down before the API answers 429.
+ */
+import {
+  NumberIsNaN,
+  NumberParseFloat,
+} from '@socketsecurity/lib/primordials/number'
+
+import { getResponseMeta, headerValue } from './response-meta.mts'
+
+import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
+
+export type RateLimitState = {
+  /**
+   * Requests allowed in the current window.
+   */
+  limit?: number | undefined
+  /**
+   * Quota units of the organization's budget, from `X-Quota-Limit`.
+   */
+  quotaLimit?: number | undefined
+  /**
+   * Quota units left, from `X-Quota-Remaining`.
+   */
+  quotaRemaining?: number | undefined
+  /**
+   * Requests left in the current window.
+   */
+  remaining?: number | undefined
+  /**
+   * When the current window resets, in epoch milliseconds.
+   */
+  resetAt?: number | undefined
+  /**
+   * Until when the server asked clients to wait (`Retry-After`), in epoch
+   * milliseconds.
+   */
+  retryAt?: number | undefined
+  /**
+   * When a response last updated the state, in epoch milliseconds; absent
+   * until the first response.
+   */
+  updatedAt?: number | undefined
+}
+
+// Reset values this large are epoch seconds; smaller ones count seconds from
+// now, as in the IETF `RateLimit-Reset` draft.
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000
+
+/**
+ * `state` updated with the headers of a response received at `now`. Fields
+ * whose headers are absent keep their previous value, since not every
+ * endpoint reports them.
+ */
+export function updateRateLimitState(
+  state: RateLimitState,
+  headers: HttpResponse['headers'] | undefined,
+  now: number,
+): RateLimitState {
+  const next: RateLimitState = { ...state, updatedAt: now }
+  const { rateLimit } = getResponseMeta(headers)
+  if (rateLimit?.limit !== undefined) {
+    next.limit = rateLimit.limit
+  }
+  if (rateLimit?.remaining !== undefined) {
+    next.remaining = rateLimit.remaining
+  }
+  if (rateLimit?.reset !== undefined) {
+    next.resetAt =
+      rateLimit.reset >= EPOCH_SECONDS_THRESHOLD
+        ? rateLimit.reset * 1000
+        : now + rateLimit.reset * 1000
+  }
+  const retryAt = parseRetryAt(headerValue(headers, 'retry-after'), now)
+  if (retryAt !== undefined) {
+    next.retryAt = retryAt
+  }
+  const quotaLimit = parseNumber(headerValue(headers, 'x-quota-limit'))
+  if (quotaLimit !== undefined) {
+    next.quotaLimit = quotaLimit
+  }
+  const quotaRemaining = parseNumber(headerValue(headers, 'x-quota-remaining'))
+  if (quotaRemaining !== undefined) {
+    next.quotaRemaining = quotaRemaining
+  }
+  return next
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const number = NumberParseFloat(value ?? '')
+  return NumberIsNaN(number) ? undefined : number
+}
+
+// `Retry-After` is either delay-seconds or an HTTP date.
+function parseRetryAt(
+  value: string | undefined,
+  now: number,
+): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = parseNumber(value)
+  if (seconds !== undefined) {
+    return seconds >= 0 ? now + seconds * 1000 : undefined
+  }
+  const date = Date.parse(value)
+  return NumberIsNaN(date) ? undefined : date
+}
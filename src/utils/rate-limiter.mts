@@ -0,0 +1,203 @@
+/**
+ * @file Client-side token-bucket rate limiter. Paces requests before they are
+ *   sent instead of waiting for the API to answer 429. Two independent buckets
+ *   can be configured: one counting requests per second and one counting
+ *   quota units per window, charged with each method's cost from
+ *   `getQuotaCost`. A request waits until both buckets can cover it. Waiters
+ *   are served first come, first served, so one expensive call is not starved
+ *   by a stream of cheap ones. A single limiter may be passed to several SDK
+ *   instances to pace them together.
+ */
+import { DateNow } from '@socketsecurity/lib/primordials/date'
+import { TypeErrorCtor } from '@socketsecurity/lib/primordials/error'
+import {
+  MathCeil,
+  MathMax,
+  MathMin,
+} from '@socketsecurity/lib/primordials/math'
+import { NumberIsFinite } from '@socketsecurity/lib/primordials/number'
+import { PromiseCtor } from '@socketsecurity/lib/primordials/promise'
+import { sleep as defaultSleep } from '@socketsecurity/lib/promises/timers'
+
+export type RateLimiterOptions = {
+  /**
+   * Quota units that may be spent per `quotaWindowMs`. Each request is charged
+   * its method's quota cost; a method costing more than the whole budget
+   * waits for a full bucket.
+   */
+  quotaUnits?: number | undefined
+  /**
+   * Length of the quota window in milliseconds (default: 60_000). Units are
+   * refilled continuously across the window.
+   */
+  quotaWindowMs?: number | undefined
+  /**
+   * Sustained requests per second. Bursts of up to this many requests (at
+   * least one) are sent without waiting.
+   */
+  requestsPerSecond?: number | undefined
+}
+
+type RateLimiterConfig = RateLimiterOptions & {
+  now?: (() => number) | undefined
+  sleep?: ((ms: number) => Promise<void>) | undefined
+}
+
+// Continuously refilling bucket holding up to `capacity` tokens.
+class TokenBucket {
+  readonly #capacity: number
+  readonly #refillPerMs: number
+  #tokens: number
+  #updatedAt: number
+
+  constructor(capacity: number, refillPerMs: number, now: number) {
+    this.#capacity = capacity
+    this.#refillPerMs = refillPerMs
+    this.#tokens = capacity
+    this.#updatedAt = now
+  }
+
+  take(amount: number): void {
+    this.#tokens -= MathMin(amount, this.#capacity)
+  }
+
+  // Milliseconds until `amount` tokens are available (0 when they already
+  // are). Amounts above capacity are capped so they cannot wait forever.
+  waitFor(amount: number, now: number): number {
+    this.#tokens = MathMin(
+      this.#capacity,
+      this.#tokens + (now - this.#updatedAt) * this.#refillPerMs,
+    )
+    this.#updatedAt = now
+    const needed = MathMin(amount, this.#capacity) - this.#tokens
+    return needed > 0 ? MathCeil(needed / this.#refillPerMs) : 0
+  }
+}
+
+// A caller waiting in `RateLimiter#acquire`.
+type Waiter = {
+  cost: number
+  reject: (reason: unknown) => void
+  resolve: () => void
+}
+
+export class RateLimiter {
+  readonly #now: () => number
+  readonly #quota: TokenBucket | undefined
+  readonly #requests: TokenBucket | undefined
+  readonly #sleep: (ms: number) => Promise<void>
+  #draining = false
+  readonly #waiters: Waiter[] = []
+
+  constructor(config?: RateLimiterConfig | undefined) {
+    const {
+      now = DateNow,
+      quotaUnits,
+      quotaWindowMs = 60_000,
+      requestsPerSecond,
+      sleep = defaultSleep,
+    } = { __proto__: null, ...config } as RateLimiterConfig
+    assertPositive('quotaUnits', quotaUnits)
+    assertPositive('quotaWindowMs', quotaWindowMs)
+    assertPositive('requestsPerSecond', requestsPerSecond)
+    const start = now()
+    this.#now = now
+    this.#quota =
+      quotaUnits === undefined
+        ? undefined
+        : new TokenBucket(quotaUnits, quotaUnits / quotaWindowMs, start)
+    this.#requests =
+      requestsPerSecond === undefined
+        ? undefined
+        : new TokenBucket(
+            MathMax(1, requestsPerSecond),
+            requestsPerSecond / 1000,
+            start,
+          )
+    this.#sleep = sleep
+  }
+
+  /**
+   * Wait until one request costing `cost` quota units may be sent, then
+   * charge it. Resolves in call order. Aborting `signal` removes the caller
+   * from the queue and rejects with the signal's reason; nothing is charged.
+   */
+  async acquire(cost = 0, signal?: AbortSignal | undefined): Promise<void> {
+    signal?.throwIfAborted()
+    let onAbort: (() => void) | undefined
+    const turn = new PromiseCtor<void>((resolve, reject) => {
+      const waiter: Waiter = { cost, reject, resolve }
+      this.#waiters.push(waiter)
+      if (signal) {
+        onAbort = () => {
+          // A waiter already served keeps its turn.
+          if (this.#remove(waiter)) {
+            reject(signal.reason)
+          }
+        }
+        signal.addEventListener('abort', onAbort, { once: true })
+      }
+    })
+    void this.#drain()
+    try {
+      await turn
+    } finally {
+      if (onAbort) {
+        signal!.removeEventListener('abort', onAbort)
+      }
+    }
+  }
+
+  // Serve waiters one at a time, oldest first. Only one drain loop runs.
+  async #drain(): Promise<void> {
+    if (this.#draining) {
+      return
+    }
+    this.#draining = true
+    try {
+      while (this.#waiters.length) {
+        const waiter = this.#waiters[0]!
+        const now = this.#now()
+        const waitMs = MathMax(
+          this.#requests?.waitFor(1, now) ?? 0,
+          waiter.cost > 0 ? (this.#quota?.waitFor(waiter.cost, now) ?? 0) : 0,
+        )
+        if (waitMs > 0) {
+          try {
+            // The head may be aborted meanwhile, so it is looked up again
+            // after waking.
+            // eslint-disable-next-line no-await-in-loop
+            await this.#sleep(waitMs)
+          } catch (e) {
+            // A failed wait (e.g. a throwing sleep) fails this waiter only.
+            this.#remove(waiter)
+            waiter.reject(e)
+          }
+          continue
+        }
+        this.#waiters.shift()
+        this.#requests?.take(1)
+        this.#quota?.take(waiter.cost)
+        waiter.resolve()
+      }
+    } finally {
+      this.#draining = false
+    }
+  }
+
+  // Drop `waiter` from the queue; false when it is no longer queued.
+  #remove(waiter: Waiter): boolean {
+    const index = this.#waiters.indexOf(waiter)
+    if (index === -1) {
+      return false
+    }
+    this.#waiters.splice(index, 1)
+    return true
+  }
+}
+
+function assertPositive(name: string, value: number | undefined): void {
+  if (value !== undefined && !(NumberIsFinite(value) && value > 0)) {
+    throw new TypeErrorCtor(`"${name}" must be a positive number`)
+  }
+}
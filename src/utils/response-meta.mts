@@ -0,0 +1,157 @@
+/**
+ * @file Response metadata for `SocketSdk` results. The API reports request
+ *   IDs, rate-limit state, deprecations and server timings in response
+ *   headers, which a parsed JSON body drops. `getResponseMeta` collects them
+ *   into a `ResponseMeta` that the SDK attaches to results as `meta` and
+ *   passes to `hooks.onResponse`, so callers can quote the request ID in a
+ *   support ticket without reaching for the raw response.
+ */
+import {
+  NumberIsNaN,
+  NumberParseFloat,
+} from '@socketsecurity/lib/primordials/number'
+import { DateNow } from '@socketsecurity/lib/primordials/date'
+import { ObjectKeys } from '@socketsecurity/lib/primordials/object'
+
+import type { HttpTransport } from '../types.mts'
+import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
+
+/**
+ * Header carrying the caller's correlation ID, sent when the `correlationId`
+ * option or call option is set.
+ */
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id'
+
+export type ResponseRateLimit = {
+  /**
+   * Requests allowed in the current window.
+   */
+  limit?: number | undefined
+  /**
+   * Requests left in the current window.
+   */
+  remaining?: number | undefined
+  /**
+   * When the window resets, as sent by the server (usually seconds).
+   */
+  reset?: number | undefined
+}
+
+export type ResponseMeta = {
+  /**
+   * The correlation ID the SDK sent with the request, if any.
+   */
+  correlationId?: string | undefined
+  /**
+   * `Deprecation` header: the endpoint is deprecated, optionally since when.
+   */
+  deprecation?: string | undefined
+  /**
+   * Time from sending the request to receiving the response headers, in
+   * milliseconds.
+   */
+  durationMs?: number | undefined
+  /**
+   * `X-RateLimit-*` / `RateLimit-*` headers.
+   */
+  rateLimit?: ResponseRateLimit | undefined
+  /**
+   * `X-Request-Id` header: quote it when contacting Socket support.
+   */
+  requestId?: string | undefined
+  /**
+   * `Server-Timing` header, unparsed.
+   */
+  serverTiming?: string | undefined
+  /**
+   * `Sunset` header: when a deprecated endpoint stops working.
+   */
+  sunset?: string | undefined
+}
+
+/**
+ * Collect the metadata in `headers`. Fields whose header is absent are left
+ * out.
+ */
+export function getResponseMeta(
+  headers: HttpResponse['headers'] | undefined,
+  durationMs?: number | undefined,
+  correlationId?: string | undefined,
+): ResponseMeta {
+  const meta: ResponseMeta = {}
+  if (correlationId) {
+    meta.correlationId = correlationId
+  }
+  const deprecation = headerValue(headers, 'deprecation')
+  if (deprecation !== undefined) {
+    meta.deprecation = deprecation
+  }
+  if (durationMs !== undefined) {
+    meta.durationMs = durationMs
+  }
+  const rateLimit: ResponseRateLimit = {}
+  const fields = ['limit', 'remaining', 'reset'] as const
+  for (let i = 0, { length } = fields; i < length; i += 1) {
+    const field = fields[i]!
+    const value = NumberParseFloat(
+      headerValue(headers, `x-ratelimit-${field}`) ??
+        headerValue(headers, `ratelimit-${field}`) ??
+        '',
+    )
+    if (!NumberIsNaN(value)) {
+      rateLimit[field] = value
+    }
+  }
+  if (ObjectKeys(rateLimit).length) {
+    meta.rateLimit = rateLimit
+  }
+  const requestId = headerValue(headers, 'x-request-id')
+  if (requestId !== undefined) {
+    meta.requestId = requestId
+  }
+  const serverTiming = headerValue(headers, 'server-timing')
+  if (serverTiming !== undefined) {
+    meta.serverTiming = serverTiming
+  }
+  const sunset = headerValue(headers, 'sunset')
+  if (sunset !== undefined) {
+    meta.sunset = sunset
+  }
+  return meta
+}
+
+/**
+ * Wrap `transport` so `onMeta` receives the `ResponseMeta` of every response,
+ * timed from the moment the request is handed to `transport`, along with the
+ * response itself.
+ */
+export function createResponseMetaTransport(
+  transport: HttpTransport,
+  onMeta: (meta: ResponseMeta, response: HttpResponse) => void,
+): HttpTransport {
+  return async (url, request) => {
+    const startTime = DateNow()
+    const response = await transport(url, request)
+    onMeta(
+      getResponseMeta(
+        response.headers,
+        DateNow() - startTime,
+        request.headers?.[CORRELATION_ID_HEADER],
+      ),
+      response,
+    )
+    return response
+  }
+}
+
+/**
+ * First value of a header; Node lower-cases incoming header names.
+ */
+export function headerValue(
+  headers: HttpResponse['headers'] | undefined,
+  name: string,
+): string | undefined {
+  const value = headers?.[name]
+  const first = Array.isArray(value) ? value[0] : value
+  return typeof first === 'string' ? first : undefined
+}
@@ -0,0 +1,173 @@
+/**
+ * @file Retry policy applied by `SocketSdk` around every request. The policy
+ *   decides which failures are worth another attempt (by HTTP status or by
+ *   network error code) and how long to wait before it: exponential backoff
+ *   from `baseDelayMs`, capped at `maxDelayMs`, with optional full or
+ *   decorrelated jitter so that many clients failing together do not retry in
+ *   lockstep.
+ */
+import {
+  MathMax,
+  MathMin,
+  MathRandom,
+  MathRound,
+} from '@socketsecurity/lib/primordials/math'
+
+export type RetryJitter = 'decorrelated' | 'full' | 'none'
+
+export type RetryInfo = {
+  /**
+   * The retry about to be made, starting at 1.
+   */
+  attempt: number
+  /**
+   * The error that failed the previous attempt.
+   */
+  cause: unknown
+  /**
+   * How long the SDK waits before the retry, in milliseconds.
+   */
+  delayMs: number
+  /**
+   * The SDK method being retried, when known.
+   */
+  methodName?: string | undefined
+  /**
+   * HTTP status of the failed attempt; absent for network errors.
+   */
+  status?: number | undefined
+}
+
+export type RetryPolicyOptions = {
+  /**
+   * Delay before the first retry in milliseconds (default: `retryDelay`).
+   * Doubles with every further retry.
+   */
+  baseDelayMs?: number | undefined
+  /**
+   * How the delay is randomized (default: up to one extra delay added on top
+   * of the exponential backoff). `'full'` waits a random time between 0 and
+   * the backoff; `'decorrelated'` waits between `baseDelayMs` and three times
+   * the previous delay; `'none'` waits exactly the backoff.
+   */
+  jitter?: RetryJitter | undefined
+  /**
+   * Upper bound for any single delay, including one requested by a
+   * `Retry-After` header (default: 10_000).
+   */
+  maxDelayMs?: number | undefined
+  /**
+   * Called before each retry is scheduled. Errors thrown by the hook are
+   * ignored.
+   */
+  onRetry?: ((info: RetryInfo) => void) | undefined
+  /**
+   * Number of retries (default: `retries`). A per-call `retries` option still
+   * takes precedence.
+   */
+  retries?: number | undefined
+  /**
+   * Network error codes that are retried, e.g. `['ECONNRESET', 'ETIMEDOUT']`.
+   * Timeouts are reported as `ETIMEDOUT`. Default: every failure that is not
+   * an HTTP response is retried.
+   */
+  retryableErrorCodes?: readonly string[] | undefined
+  /**
+   * HTTP statuses that are retried (default: 429 and every 5xx).
+   */
+  retryableStatuses?: readonly number[] | undefined
+}
+
+export type RetryPolicy = RetryPolicyOptions & {
+  /**
+   * Overrides merged over the policy for individual methods, keyed by SDK
+   * method name, e.g. `{ createFullScan: { retries: 0 } }`.
+   */
+  methods?: Record<string, RetryPolicyOptions> | undefined
+}
+
+/**
+ * The policy that applies to `methodName`: its entry in `methods` merged over
+ * the shared options.
+ */
+export function resolveRetryPolicy(
+  policy: RetryPolicy | undefined,
+  methodName: string | undefined,
+): RetryPolicyOptions {
+  const { methods, ...shared } = { __proto__: null, ...policy } as RetryPolicy
+  const override = methodName ? methods?.[methodName] : undefined
+  return { __proto__: null, ...shared, ...override } as RetryPolicyOptions
+}
+
+/**
+ * Delay before retry number `attempt` (starting at 1) under `jitter`, capped
+ * at `maxDelayMs`. `previousDelayMs` is the delay chosen for the previous
+ * retry and only matters for decorrelated jitter.
+ */
+export function computeRetryDelay(
+  jitter: RetryJitter,
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  previousDelayMs: number,
+): number {
+  if (jitter === 'decorrelated') {
+    const upper = MathMin(maxDelayMs, previousDelayMs * 3)
+    return MathMin(
+      maxDelayMs,
+      MathRound(baseDelayMs + MathRandom() * MathMax(0, upper - baseDelayMs)),
+    )
+  }
+  const backoff = MathMin(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  return jitter === 'full' ? MathRound(MathRandom() * backoff) : backoff
+}
+
+/**
+ * The network error code carried by `error` or any error in its `cause`
+ * chain. Timeouts raised by the HTTP client carry no code and are reported as
+ * `ETIMEDOUT`.
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  for (
+    let current = error, depth = 0;
+    current instanceof Error && depth < 5;
+    current = current.cause, depth += 1
+  ) {
+    const { code } = current as NodeJS.ErrnoException
+    if (typeof code === 'string') {
+      return code
+    }
+    if (/ timed out after \d+ms/.test(current.message)) {
+      return 'ETIMEDOUT'
+    }
+  }
+  return undefined
+}
+
+/**
+ * Whether a failed HTTP response with `status` should be retried.
+ */
+export function isRetryableStatus(
+  policy: RetryPolicyOptions,
+  status: number,
+): boolean {
+  const { retryableStatuses } = policy
+  return retryableStatuses
+    ? retryableStatuses.includes(status)
+    : status === 429 || status >= 500
+}
+
+/**
+ * Whether a failure that produced no HTTP response should be retried.
+ */
+export function isRetryableError(
+  policy: RetryPolicyOptions,
+  error: unknown,
+): boolean {
+  const { retryableErrorCodes } = policy
+  if (!retryableErrorCodes) {
+    return true
+  }
+  const code = getErrorCode(error)
+  return code !== undefined && retryableErrorCodes.includes(code)
+}
@@ -0,0 +1,245 @@
+/**
+ * @file Tests for the audit log tail helper and `SocketSdk#watchAuditLogEvents`.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { tailAuditLog } from '../../../src/utils/audit-log-tail.mts'
+import { setupTestClient } from '../../utils/environment.mts'
+
+import type {
+  AuditLogEvent,
+  AuditLogPage,
+  AuditLogWatchItem,
+} from '../../../src/utils/audit-log-tail.mts'
+import type { PageResult } from '../../../src/utils/paginate.mts'
+
+function event(id: string, createdAt: string): AuditLogEvent {
+  return { created_at: createdAt, event_id: id, type: 'CreateLabel' }
+}
+
+function page(
+  results: AuditLogEvent[],
+  nextPage?: string | undefined,
+): PageResult<AuditLogPage> {
+  return { data: { nextPage, results }, success: true }
+}
+
+// Drain the tail until `count` items arrive, then abort it.
+async function take(
+  count: number,
+  start: (signal: AbortSignal) => AsyncIterable<AuditLogWatchItem>,
+): Promise<AuditLogWatchItem[]> {
+  const controller = new AbortController()
+  const items: AuditLogWatchItem[] = []
+  for await (const item of start(controller.signal)) {
+    items.push(item)
+    if (items.length === count) {
+      controller.abort()
+    }
+  }
+  return items
+}
+
+describe('tailAuditLog', () => {
+  it('only yields events newer than the first poll when no since is given', async () => {
+    const polls = [
+      page([
+        event('e2', '2026-01-01T00:00:02Z'),
+        event('e1', '2026-01-01T00:00:01Z'),
+      ]),
+      page([
+        event('e4', '2026-01-01T00:00:04Z'),
+        event('e3', '2026-01-01T00:00:03Z'),
+        event('e2', '2026-01-01T00:00:02Z'),
+      ]),
+    ]
+    let poll = -1
+    const items = await take(2, signal =>
+      tailAuditLog({
+        fetchPage: async token => {
+          if (token === undefined) {
+            poll += 1
+          }
+          return polls[poll]!
+        },
+        intervalMs: 1,
+        signal,
+      }),
+    )
+
+    expect(items.map(i => i.event.event_id)).toEqual(['e3', 'e4'])
+    expect(items[1]!.checkpoint).toEqual({
+      createdAt: '2026-01-01T00:00:04Z',
+      seenEventIds: ['e4'],
+    })
+  })
+
+  it('replays from a since date, following nextPage until it reaches older events', async () => {
+    const tokens: Array<string | undefined> = []
+    const items = await take(3, signal =>
+      tailAuditLog({
+        fetchPage: async token => {
+          tokens.push(token)
+          return token === undefined
+            ? page(
+                [
+                  event('e3', '2026-01-01T00:00:03Z'),
+                  event('e2', '2026-01-01T00:00:02Z'),
+                ],
+                'p2',
+              )
+            : page(
+                [
+                  event('e1', '2026-01-01T00:00:01Z'),
+                  event('e0', '2025-12-31T00:00:00Z'),
+                ],
+                'p3',
+              )
+        },
+        intervalMs: 1,
+        signal,
+        since: new Date('2026-01-01T00:00:00Z'),
+      }),
+    )
+
+    expect(items.map(i => i.event.event_id)).toEqual(['e1', 'e2', 'e3'])
+    // The second page contained an older event, so page p3 is never requested.
+    expect(tokens.slice(0, 2)).toEqual([undefined, 'p2'])
+    expect(tokens).not.toContain('p3')
+  })
+
+  it('resumes from a checkpoint without repeating same-timestamp events', async () => {
+    const items = await take(1, signal =>
+      tailAuditLog({
+        fetchPage: async () =>
+          page([
+            event('e3', '2026-01-01T00:00:02Z'),
+            event('e2', '2026-01-01T00:00:02Z'),
+            event('e1', '2026-01-01T00:00:01Z'),
+          ]),
+        intervalMs: 1,
+        signal,
+        since: { createdAt: '2026-01-01T00:00:02Z', seenEventIds: ['e2'] },
+      }),
+    )
+
+    expect(items.map(i => i.event.event_id)).toEqual(['e3'])
+    expect(items[0]!.checkpoint).toEqual({
+      createdAt: '2026-01-01T00:00:02Z',
+      seenEventIds: ['e2', 'e3'],
+    })
+  })
+
+  it('ends when the signal aborts while waiting between polls', async () => {
+    const controller = new AbortController()
+    let calls = 0
+    const iterator = tailAuditLog({
+      fetchPage: async () => {
+        calls += 1
+        return page([])
+      },
+      intervalMs: 60_000,
+      signal: controller.signal,
+    })[Symbol.asyncIterator]()
+
+    const next = iterator.next()
+    setTimeout(() => controller.abort(), 10)
+
+    expect((await next).done).toBe(true)
+    expect(calls).toBe(1)
+  })
+
+  it('ends when the signal aborts during a poll', async () => {
+    const controller = new AbortController()
+    const items = await take(1, () =>
+      tailAuditLog({
+        fetchPage: async () => {
+          controller.abort()
+          throw new DOMException('This operation was aborted', 'AbortError')
+        },
+        signal: controller.signal,
+      }),
+    )
+
+    expect(items).toEqual([])
+  })
+
+  it('throws with the SDK error message when a poll fails', async () => {
+    await expect(
+      take(1, signal =>
+        tailAuditLog({
+          fetchPage: async () => ({
+            error: 'Forbidden',
+            status: 403,
+            success: false,
+          }),
+          signal,
+        }),
+      ),
+    ).rejects.toThrow('Socket API audit log page 1 failed (403): Forbidden')
+  })
+
+  it('rejects an unparseable since value', async () => {
+    await expect(
+      take(1, signal =>
+        tailAuditLog({
+          fetchPage: async () => page([]),
+          signal,
+          since: 'not a date',
+        }),
+      ),
+    ).rejects.toThrow(TypeError)
+  })
+})
+
+describe('SocketSdk#watchAuditLogEvents', () => {
+  const getClient = setupTestClient('test-api-token', { retries: 0 })
+
+  it('polls the audit log with the type and page filters', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/audit-log')
+      .query({ per_page: '2', type: 'CreateLabel' })
+      .reply(200, {
+        nextPage: 'next',
+        results: [event('e2', '2026-01-01T00:00:02Z')],
+      })
+      .get('/v0/orgs/test-org/audit-log')
+      .query({ page: 'next', per_page: '2', type: 'CreateLabel' })
+      .reply(200, {
+        // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null nextPage.
+        nextPage: null,
+        results: [event('e1', '2026-01-01T00:00:01Z')],
+      })
+
+    const items = await take(2, signal =>
+      getClient().watchAuditLogEvents('test-org', {
+        per_page: 2,
+        signal,
+        since: '2026-01-01T00:00:00Z',
+        type: 'CreateLabel',
+      }),
+    )
+
+    expect(items.map(i => i.event.event_id)).toEqual(['e1', 'e2'])
+  })
+  it('stops on the call signal, cancelling the poll in flight', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/audit-log')
+      .delay(60_000)
+      .reply(200, { results: [] })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    const items: AuditLogWatchItem[] = []
+    for await (const item of getClient().watchAuditLogEvents(
+      'test-org',
+      undefined,
+      { signal: controller.signal },
+    )) {
+      items.push(item)
+    }
+
+    expect(items).toEqual([])
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * @file Tests for cache invalidation: eviction after successful mutations,
+ *   `invalidateCache()` with exact keys, patterns and no argument, and
+ *   pattern deletes in the filesystem store.
+ */
+import { mkdtempSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import nock from 'nock'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { safeDelete } from '@socketsecurity/lib/fs/safe'
+
+import { createFileCacheStore, SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+const POLICY_PATH = '/v0/orgs/test-org/settings/security-policy'
+
+describe('cache invalidation', () => {
+  setupTestEnvironment()
+
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-cache-invalidation-'))
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('evicts the cached policy after a successful update', async () => {
+    nock(BASE).get(POLICY_PATH).reply(200, { securityPolicyRules: {} })
+    nock(BASE).post(POLICY_PATH).reply(200, { securityPolicyRules: {} })
+    nock(BASE).get(POLICY_PATH).reply(200, { securityPolicyRules: {} })
+    const client = new SocketSdk('test-token', {
+      cache: true,
+      cacheTtl: { securityPolicy: 60_000 },
+    })
+
+    await client.getOrgSecurityPolicy('test-org')
+    await client.getOrgSecurityPolicy('test-org')
+    await client.updateOrgSecurityPolicy('test-org', {})
+    await client.getOrgSecurityPolicy('test-org')
+
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('keeps the cached policy when the update fails', async () => {
+    nock(BASE).get(POLICY_PATH).reply(200, { securityPolicyRules: {} })
+    nock(BASE)
+      .post(POLICY_PATH)
+      .reply(403, { error: { message: 'Forbidden' } })
+    const client = new SocketSdk('test-token', {
+      cache: true,
+      cacheTtl: { securityPolicy: 60_000 },
+    })
+
+    await client.getOrgSecurityPolicy('test-org')
+    const update = await client.updateOrgSecurityPolicy('test-org', {})
+    await client.getOrgSecurityPolicy('test-org')
+
+    expect(update.success).toBe(false)
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('evicts exact keys, patterns and everything on request', async () => {
+    nock(BASE).get('/v0/quota').times(3).reply(200, { quota: 1000 })
+    nock(BASE).get('/v0/organizations').times(2).reply(200, {
+      organizations: {},
+    })
+    const client = new SocketSdk('test-token', {
+      cacheStore: createFileCacheStore({ dir: path.join(tmpDir, 'manual') }),
+    })
+
+    await client.getQuota()
+    await client.listOrganizations()
+    await client.invalidateCache('quota')
+    await client.getQuota()
+    await client.listOrganizations()
+    await client.invalidateCache('q*')
+    await client.getQuota()
+    await client.invalidateCache()
+    await client.listOrganizations()
+
+    expect(nock.isDone()).toBe(true)
+  })
+})
+
+describe('createFileCacheStore deleteAll', () => {
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-cache-delete-all-'))
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('deletes keys matching a wildcard pattern', async () => {
+    const store = createFileCacheStore({ dir: tmpDir })
+    await store.set('repositories:a:1', 1, 60_000)
+    await store.set('repositories:a:2', 2, 60_000)
+    await store.set('repositories:b:1', 3, 60_000)
+
+    expect(await store.deleteAll('repositories:a:*')).toBe(2)
+    expect(await store.get('repositories:a:1')).toBeUndefined()
+    expect(await store.get('repositories:b:1')).toBe(3)
+    expect(await store.deleteAll('missing:*')).toBe(0)
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * @file Tests for the pluggable `cacheStore` option, the filesystem and
+ *   in-memory stores, and the endpoints that opt into caching through the
+ *   `cacheTtl` object.
+ */
+import { mkdtempSync, readdirSync, statSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import nock from 'nock'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { safeDelete } from '@socketsecurity/lib/fs/safe'
+
+import { createFileCacheStore, SocketSdk } from '../../../src/index.mts'
+import { createMemoryCacheStore } from '../../../src/utils/cache-store.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { CacheStore } from '../../../src/index.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('createFileCacheStore', () => {
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-cache-store-'))
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('stores, expires and deletes entries', async () => {
+    const dir = path.join(tmpDir, 'basic')
+    const store = createFileCacheStore({ dir })
+
+    expect(await store.get('a')).toBeUndefined()
+    await store.set('a', { quota: 1 }, 60_000)
+    await store.set('b', 'short-lived', -1)
+
+    expect(await store.get('a')).toEqual({ quota: 1 })
+    expect(await store.get('b')).toBeUndefined()
+    await store.delete('a')
+    expect(await store.get('a')).toBeUndefined()
+    expect(readdirSync(dir)).toEqual([])
+  })
+
+  it('writes owner-only files and ignores corrupt ones', async () => {
+    const dir = path.join(tmpDir, 'files')
+    const store = createFileCacheStore({ dir })
+
+    await store.set('a', 1, 60_000)
+    const [file] = readdirSync(dir)
+    if (process.platform !== 'win32') {
+      expect(statSync(path.join(dir, file!)).mode & 0o777).toBe(0o600)
+    }
+    writeFileSync(path.join(dir, file!), '{not json')
+
+    expect(await store.get('a')).toBeUndefined()
+  })
+
+  it('requires a directory', () => {
+    expect(() => createFileCacheStore({ dir: '' })).toThrow(
+      '"dir" must be a non-empty string',
+    )
+  })
+})
+
+describe('createMemoryCacheStore', () => {
+  it('stores, expires and deletes entries', async () => {
+    const store = createMemoryCacheStore()
+
+    await store.set('sdk:a:1', { quota: 1 }, 60_000)
+    await store.set('sdk:a:2', 2, 60_000)
+    await store.set('sdk:b:1', 3, 60_000)
+    await store.set('short-lived', 4, -1)
+
+    expect(await store.get('short-lived')).toBeUndefined()
+    expect(await store.deleteAll('sdk:a:*')).toBe(2)
+    expect(await store.get('sdk:a:1')).toBeUndefined()
+    await store.delete('sdk:b:1')
+    expect(await store.get('sdk:b:1')).toBeUndefined()
+  })
+
+  it('returns a fresh copy on every read', async () => {
+    const store = createMemoryCacheStore()
+    await store.set('a', { quota: 1 }, 60_000)
+    const first = (await store.get('a')) as { quota: number }
+    first.quota = 2
+
+    expect(await store.get('a')).toEqual({ quota: 1 })
+  })
+})
+
+describe('cacheStore option', () => {
+  setupTestEnvironment()
+
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-cache-option-'))
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('shares cached results between instances with the same token', async () => {
+    nock(BASE).get('/v0/quota').reply(200, { quota: 1000 })
+    nock(BASE).get('/v0/quota').reply(200, { quota: 7 })
+    const cacheStore = createFileCacheStore({ dir: path.join(tmpDir, 'a') })
+
+    const first = await new SocketSdk('token-a', { cacheStore }).getQuota()
+    const second = await new SocketSdk('token-a', { cacheStore }).getQuota()
+    const other = await new SocketSdk('token-b', { cacheStore }).getQuota()
+
+    expect(first.success && first.data.quota).toBe(1000)
+    expect(second.success && second.data.quota).toBe(1000)
+    expect(other.success && other.data.quota).toBe(7)
+  })
+
+  it('caches opt-in endpoints only when cacheTtl names them', async () => {
+    nock(BASE)
+      .get('/v0/orgs/test-org/supported-files')
+      .times(3)
+      .reply(200, { npm: {} })
+    const cacheStore = createFileCacheStore({ dir: path.join(tmpDir, 'b') })
+    const plain = new SocketSdk('test-token', { cacheStore })
+    const optedIn = new SocketSdk('test-token', {
+      cacheStore,
+      cacheTtl: { supportedFiles: 60_000 },
+    })
+
+    await plain.getSupportedFiles('test-org')
+    await plain.getSupportedFiles('test-org')
+    await optedIn.getSupportedFiles('test-org')
+    await optedIn.getSupportedFiles('test-org')
+
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('treats a failing store as a cache miss', async () => {
+    nock(BASE).get('/v0/quota').reply(200, { quota: 1000 })
+    const cacheStore: CacheStore = {
+      delete: async () => {},
+      deleteAll: async () => 0,
+      get: async () => {
+        throw new Error('disk full')
+      },
+      set: async () => {
+        throw new Error('disk full')
+      },
+    }
+
+    const result = await new SocketSdk('test-token', { cacheStore }).getQuota()
+
+    expect(result.success && result.data.quota).toBe(1000)
+  })
+})
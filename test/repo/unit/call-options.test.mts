@@ -0,0 +1,90 @@
+/**
+ * @file Tests for the trailing per-call `{ signal, timeout, retries }` options
+ *   accepted by `SocketSdk` methods.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('per-call options', () => {
+  setupTestEnvironment()
+
+  it('validates a per-call timeout like the constructor option', async () => {
+    const client = new SocketSdk('test-token')
+
+    await expect(client.getQuota({ timeout: 10 })).rejects.toThrow(
+      '"timeout" must be a number between',
+    )
+  })
+
+  it('overrides the instance retry count for one call', async () => {
+    nock(BASE)
+      .get('/v0/analytics/org/7d')
+      .reply(503, 'unavailable')
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+    const client = new SocketSdk('test-token', { retries: 0, retryDelay: 1 })
+
+    const result = await client.getOrgAnalytics('7d', { retries: 1 })
+
+    expect(result.success).toBe(true)
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('resolves an ABORTED result and sends nothing once aborted', async () => {
+    // No interceptor: a request that went out would fail as a disallowed
+    // net connect rather than an abort.
+    const controller = new AbortController()
+    controller.abort()
+    const client = new SocketSdk('test-token', { retries: 2, retryDelay: 1 })
+
+    const result = await client.getQuota({ signal: controller.signal })
+
+    expect(result).toMatchObject({
+      code: 'ABORTED',
+      error: 'Request aborted',
+      status: 0,
+      success: false,
+    })
+  })
+
+  it('rejects with the abort reason in throw mode', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    await expect(
+      client.getQuota({ signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('stops polling a cached scan when the signal aborts', async () => {
+    const controller = new AbortController()
+    let polls = 0
+    nock(BASE)
+      .get('/v0/orgs/test-org/full-scans/scan-1?cached=true')
+      .reply(() => {
+        polls += 1
+        controller.abort()
+        return [202, { status: 'processing', id: 'scan-1' }]
+      })
+    const client = new SocketSdk('test-token', {
+      pollIntervalMs: 5,
+      retries: 0,
+    })
+
+    const result = await client.getFullScan('test-org', 'scan-1', undefined, {
+      signal: controller.signal,
+    })
+
+    expect(result).toMatchObject({ code: 'ABORTED', success: false })
+    expect(polls).toBe(1)
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * @file Tests for the circuit breaker helper and its integration with
+ *   `SocketSdk#executeWithRetry` via the `circuitBreaker` option.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+} from '../../../src/utils/circuit-breaker.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { CircuitStateChangeInfo } from '../../../src/utils/circuit-breaker.mts'
+
+const fail = async (): Promise<never> => {
+  throw new Error('ECONNRESET')
+}
+const ok = async (): Promise<string> => 'ok'
+
+function createBreaker(clock: { now: number }) {
+  const changes: CircuitStateChangeInfo[] = []
+  const breaker = new CircuitBreaker({
+    failureThreshold: 2,
+    isFailure: e => (e as Error).message !== 'client error',
+    isIgnored: e => (e as Error).message === 'aborted',
+    now: () => clock.now,
+    onStateChange: info => changes.push(info),
+    openDurationMs: 1000,
+  })
+  return { breaker, changes }
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after failureThreshold consecutive failures', async () => {
+    const clock = { now: 0 }
+    const { breaker, changes } = createBreaker(clock)
+
+    await expect(breaker.run(fail)).rejects.toThrow('ECONNRESET')
+    expect(breaker.state).toBe('closed')
+    await expect(breaker.run(fail)).rejects.toThrow('ECONNRESET')
+    expect(breaker.state).toBe('open')
+
+    let called = false
+    await expect(
+      breaker.run(async () => {
+        called = true
+      }),
+    ).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(called).toBe(false)
+    expect(changes).toEqual([
+      { failures: 2, previousState: 'closed', retryAt: 1000, state: 'open' },
+    ])
+  })
+
+  it('resets the failure count on success and ignores non-failures', async () => {
+    const clock = { now: 0 }
+    const { breaker } = createBreaker(clock)
+
+    await expect(breaker.run(fail)).rejects.toThrow()
+    await breaker.run(ok)
+    await expect(breaker.run(fail)).rejects.toThrow()
+    await expect(
+      breaker.run(async () => {
+        throw new Error('client error')
+      }),
+    ).rejects.toThrow()
+    await expect(breaker.run(fail)).rejects.toThrow()
+
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('closes after a successful half-open probe', async () => {
+    const clock = { now: 0 }
+    const { breaker, changes } = createBreaker(clock)
+    await expect(breaker.run(fail)).rejects.toThrow()
+    await expect(breaker.run(fail)).rejects.toThrow()
+
+    clock.now = 1000
+    await expect(breaker.run(ok)).resolves.toBe('ok')
+
+    expect(breaker.state).toBe('closed')
+    expect(changes.map(c => c.state)).toEqual(['open', 'half-open', 'closed'])
+  })
+
+  it('re-opens when the probe fails and limits concurrent probes', async () => {
+    const clock = { now: 0 }
+    const { breaker } = createBreaker(clock)
+    await expect(breaker.run(fail)).rejects.toThrow()
+    await expect(breaker.run(fail)).rejects.toThrow()
+
+    clock.now = 1000
+    let rejectProbe!: (e: Error) => void
+    const probe = breaker.run(
+      () =>
+        new Promise<never>((_resolve, reject) => {
+          rejectProbe = reject
+        }),
+    )
+    // A second caller while the probe is in flight fails fast.
+    await expect(breaker.run(ok)).rejects.toBeInstanceOf(CircuitOpenError)
+
+    rejectProbe(new Error('ECONNRESET'))
+    await expect(probe).rejects.toThrow('ECONNRESET')
+    expect(breaker.state).toBe('open')
+    await expect(breaker.run(ok)).rejects.toBeInstanceOf(CircuitOpenError)
+  })
+
+  it('counts an aborted attempt neither as a failure nor as a success', async () => {
+    const clock = { now: 0 }
+    const { breaker } = createBreaker(clock)
+    const aborted = async (): Promise<never> => {
+      throw new Error('aborted')
+    }
+
+    await expect(breaker.run(fail)).rejects.toThrow()
+    await expect(breaker.run(aborted)).rejects.toThrow('aborted')
+    await expect(breaker.run(fail)).rejects.toThrow()
+    expect(breaker.state).toBe('open')
+
+    clock.now = 1000
+    await expect(breaker.run(aborted)).rejects.toThrow('aborted')
+    // The aborted probe released its slot without closing the circuit.
+    expect(breaker.state).toBe('half-open')
+    await expect(breaker.run(ok)).resolves.toBe('ok')
+    expect(breaker.state).toBe('closed')
+  })
+})
+
+describe('SocketSdk circuitBreaker option', () => {
+  setupTestEnvironment()
+
+  it('returns a fast circuit open result once the threshold is reached', async () => {
+    const changes: CircuitStateChangeInfo[] = []
+    nock('https://api.socket.dev').get('/v0/quota').times(2).reply(500)
+    const client = new SocketSdk('test-token', {
+      circuitBreaker: { failureThreshold: 2 },
+      hooks: { onCircuitStateChange: info => changes.push(info) },
+      retries: 0,
+    })
+
+    // 5xx results still throw from getQuota; they count toward the threshold.
+    await expect(client.getQuota()).rejects.toThrow()
+    await expect(client.getQuota()).rejects.toThrow()
+    const result = await client.getQuota()
+
+    expect(result.success).toBe(false)
+    expect(result.status).toBe(0)
+    expect(result.error).toBe('circuit open')
+    expect(result.cause).toMatch(/circuit breaker is open/)
+    expect(changes.map(c => c.state)).toEqual(['open'])
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('stops a call mid-backoff when the circuit opens', async () => {
+    let attempts = 0
+    nock('https://api.socket.dev')
+      .get('/v0/quota')
+      .reply(() => {
+        attempts += 1
+        return [503, 'unavailable']
+      })
+    const client = new SocketSdk('test-token', {
+      circuitBreaker: { failureThreshold: 1 },
+      retries: 3,
+      retryDelay: 1,
+    })
+
+    const result = await client.getQuota()
+
+    expect(result.error).toBe('circuit open')
+    expect(attempts).toBe(1)
+  })
+
+  it('keeps the call outcome when onCircuitStateChange throws', async () => {
+    nock('https://api.socket.dev').get('/v0/quota').reply(500)
+    const client = new SocketSdk('test-token', {
+      circuitBreaker: { failureThreshold: 1 },
+      hooks: {
+        onCircuitStateChange: () => {
+          throw new Error('hook failed')
+        },
+      },
+      retries: 0,
+    })
+
+    await expect(client.getQuota()).rejects.toThrow(
+      'Socket API server error (500)',
+    )
+    expect(await client.getQuota()).toMatchObject({ code: 'CIRCUIT_OPEN' })
+  })
+
+  it('does not count 4xx responses as failures', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/quota')
+      .times(3)
+      .reply(404, { error: { message: 'Not found' } })
+    const client = new SocketSdk('test-token', {
+      circuitBreaker: { failureThreshold: 1 },
+      retries: 0,
+    })
+
+    for (let i = 0; i < 3; i += 1) {
+      // eslint-disable-next-line no-await-in-loop
+      const result = await client.getQuota()
+      expect(result.status).toBe(404)
+    }
+  })
+})
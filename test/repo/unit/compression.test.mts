@@ -0,0 +1,119 @@
+/**
+ * @file Tests for HTTP compression: gzipped request bodies above the
+ *   `gzipRequestBodies` threshold, and gzip / brotli decoding of streamed
+ *   responses.
+ */
+import { Readable } from 'node:stream'
+import zlib from 'node:zlib'
+
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import { createCompressionTransport } from '../../../src/utils/compression.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+import { fakeResponse } from '../../utils/fake-response.mts'
+
+import type { TransportRequest } from '../../../src/index.mts'
+
+describe('createCompressionTransport', () => {
+  it('gzips string bodies at or above the threshold only', async () => {
+    const sent: TransportRequest[] = []
+    const transport = createCompressionTransport(
+      async (_url, request) => {
+        sent.push(request)
+        return fakeResponse(200, '[]')
+      },
+      { gzipMinBytes: 100 },
+    )
+    const large = JSON.stringify({ purls: 'x'.repeat(200) })
+
+    await transport('https://api.socket.dev/v0/purl', { body: large })
+    await transport('https://api.socket.dev/v0/purl', { body: '{}' })
+
+    expect(sent[0]!.headers).toEqual({ 'Content-Encoding': 'gzip' })
+    expect(zlib.gunzipSync(sent[0]!.body as Buffer).toString()).toBe(large)
+    expect(sent[1]!.body).toBe('{}')
+    expect(sent[1]!.headers).toBeUndefined()
+  })
+
+  it('decodes brotli streams and keeps the response status', async () => {
+    const sent: TransportRequest[] = []
+    const transport = createCompressionTransport(async (_url, request) => {
+      sent.push(request)
+      const raw = Object.assign(
+        Readable.from([zlib.brotliCompressSync('{"a":1}\n')]),
+        { statusCode: 200 },
+      )
+      return fakeResponse(200, '[]', {
+        headers: { 'content-encoding': 'br', 'content-length': '12' },
+        rawResponse: raw,
+      })
+    })
+
+    const response = await transport('https://api.socket.dev/v0/x', {
+      stream: true,
+    })
+    const chunks: Buffer[] = []
+    for await (const chunk of response.rawResponse!) {
+      chunks.push(chunk as Buffer)
+    }
+
+    expect(sent[0]!.headers).toEqual({ 'Accept-Encoding': 'gzip, br' })
+    expect(Buffer.concat(chunks).toString()).toBe('{"a":1}\n')
+    expect(response.headers).toEqual({})
+    expect(response.rawResponse!.statusCode).toBe(200)
+  })
+})
+
+describe('SocketSdk compression', () => {
+  setupTestEnvironment()
+
+  it('decodes a gzipped streamed NDJSON response', async () => {
+    const records = [
+      { artifactId: 'a', patches: [] },
+      { artifactId: 'b', patches: [] },
+    ]
+    nock('https://api.socket.dev', {
+      reqheaders: { 'accept-encoding': 'gzip, br' },
+    })
+      .get('/v0/orgs/test-org/patches/scan/scan-1')
+      .reply(
+        200,
+        zlib.gzipSync(records.map(r => JSON.stringify(r)).join('\n')),
+        { 'Content-Encoding': 'gzip' },
+      )
+    const client = new SocketSdk('test-token')
+
+    const stream = await client.streamPatchesFromScan('test-org', 'scan-1')
+    const received = []
+    for await (const record of stream) {
+      received.push(record)
+    }
+
+    expect(received).toEqual(records)
+  })
+
+  it('gzips large request bodies when gzipRequestBodies is set', async () => {
+    const bodies: Buffer[] = []
+    const client = new SocketSdk('test-token', {
+      gzipRequestBodies: true,
+      transport: async (_url, request) => {
+        expect(request.headers?.['Content-Encoding']).toBe('gzip')
+        bodies.push(request.body as Buffer)
+        return fakeResponse(200, '[]', {
+          headers: { 'content-type': 'application/x-ndjson' },
+        })
+      },
+    })
+    const components = Array.from({ length: 1024 }, (_, i) => ({
+      purl: `pkg:npm/package-${i}@1.0.0`,
+    }))
+
+    await client.batchPackageFetch({ components })
+
+    expect(JSON.parse(zlib.gunzipSync(bodies[0]!).toString())).toEqual({
+      components,
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * @file Tests for conditional GETs: stored `ETag` / `Last-Modified`
+ *   validators are sent back and a 304 is answered from a copy of the stored
+ *   body, including when a TTL cache entry has expired. Validators are kept
+ *   only with caching on, bounded, and evicted by `invalidateCache`.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { MAX_CONDITIONAL_ENTRIES } from '../../../src/constants.mts'
+import { getJsonConditional } from '../../../src/http-client.mts'
+import { SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { ConditionalEntry } from '../../../src/http-client.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('conditional GETs', () => {
+  setupTestEnvironment()
+
+  it('revalidates with If-None-Match and serves the stored body on 304', async () => {
+    const policy = { securityPolicyRules: { malware: { action: 'error' } } }
+    nock(BASE)
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .reply(200, policy, { ETag: '"v1"' })
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .matchHeader('if-none-match', '"v1"')
+      .reply(304)
+    const client = new SocketSdk('test-token', { cache: true, retries: 0 })
+
+    const first = await client.getOrgSecurityPolicy('test-org')
+    const second = await client.getOrgSecurityPolicy('test-org')
+
+    expect(first.success && first.data).toEqual(policy)
+    expect(second.success && second.data).toEqual(policy)
+    // Each caller gets its own copy of the stored body.
+    expect(second.success && second.data).not.toBe(first.success && first.data)
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('revalidates with If-Modified-Since and replaces a changed body', async () => {
+    const lastModified = 'Tue, 01 Sep 2026 10:00:00 GMT'
+    nock(BASE)
+      .get('/v0/orgs/test-org/supported-files')
+      .reply(200, { npm: {} }, { 'Last-Modified': lastModified })
+      .get('/v0/orgs/test-org/supported-files')
+      .matchHeader('if-modified-since', lastModified)
+      .reply(200, { npm: {}, pypi: {} })
+      .get('/v0/orgs/test-org/supported-files')
+      .reply(function () {
+        // The last 200 carried no validators, so nothing is sent back.
+        return this.req.headers['if-modified-since']
+          ? [500, 'unexpected validator']
+          : [200, { npm: {}, pypi: {} }]
+      })
+    const client = new SocketSdk('test-token', { cache: true, retries: 0 })
+
+    await client.getSupportedFiles('test-org')
+    const changed = await client.getSupportedFiles('test-org')
+    const fresh = await client.getSupportedFiles('test-org')
+
+    expect(changed.success && changed.data).toEqual({ npm: {}, pypi: {} })
+    expect(fresh.success).toBe(true)
+  })
+
+  it('revalidates an expired TTL cache entry instead of refetching', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(200, { quota: 1000 }, { ETag: 'W/"q1"' })
+      .get('/v0/quota')
+      .matchHeader('if-none-match', 'W/"q1"')
+      .reply(304)
+    const client = new SocketSdk('test-token', {
+      cache: true,
+      cacheTtl: 1,
+      retries: 0,
+    })
+
+    await client.getQuota()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    const result = await client.getQuota()
+
+    expect(result.success && result.data.quota).toBe(1000)
+    expect(nock.isDone()).toBe(true)
+  })
+  it('keeps no validators with caching off', async () => {
+    nock(BASE)
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .reply(200, {}, { ETag: '"v1"' })
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .reply(function () {
+        return this.req.headers['if-none-match']
+          ? [500, 'unexpected validator']
+          : [200, {}]
+      })
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    await client.getOrgSecurityPolicy('test-org')
+    const second = await client.getOrgSecurityPolicy('test-org')
+
+    expect(second.success).toBe(true)
+  })
+
+  it('forgets the validators of invalidated keys', async () => {
+    nock(BASE)
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .reply(200, {}, { ETag: '"v1"' })
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .reply(function () {
+        return this.req.headers['if-none-match']
+          ? [500, 'unexpected validator']
+          : [200, {}]
+      })
+    const client = new SocketSdk('test-token', { cache: true, retries: 0 })
+
+    await client.getOrgSecurityPolicy('test-org')
+    await client.invalidateCache('securityPolicy:test-org')
+    const second = await client.getOrgSecurityPolicy('test-org')
+
+    expect(second.success).toBe(true)
+  })
+})
+
+describe('getJsonConditional', () => {
+  setupTestEnvironment()
+
+  it('keeps at most MAX_CONDITIONAL_ENTRIES bodies, dropping the oldest', async () => {
+    nock(BASE)
+      .get(/^\/v0\/items\/\d+$/)
+      .times(MAX_CONDITIONAL_ENTRIES + 1)
+      .reply(200, {}, { ETag: '"v1"' })
+    const validators = new Map<string, ConditionalEntry>()
+
+    for (let i = 0; i <= MAX_CONDITIONAL_ENTRIES; i += 1) {
+      // eslint-disable-next-line no-await-in-loop
+      await getJsonConditional(`${BASE}/v0/`, `items/${i}`, validators)
+    }
+
+    expect(validators.size).toBe(MAX_CONDITIONAL_ENTRIES)
+    expect(validators.has('items/0')).toBe(false)
+    expect(validators.has(`items/${MAX_CONDITIONAL_ENTRIES}`)).toBe(true)
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * @file Tests for the machine-readable `code` and `details` on error results:
+ *   the status mapping, API `error.details`, local file validation failures,
+ *   invalid JSON and network errors, and the same fields on `SocketApiError`.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { getErrorCodeForStatus } from '../../../src/errors.mts'
+import { SocketApiError, SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('getErrorCodeForStatus', () => {
+  it.each([
+    [400, undefined, 'BAD_REQUEST'],
+    [401, undefined, 'AUTH_INVALID'],
+    [402, undefined, 'QUOTA_EXCEEDED'],
+    [403, undefined, 'FORBIDDEN_SCOPE'],
+    [404, undefined, 'NOT_FOUND'],
+    [409, undefined, 'HTTP_ERROR'],
+    [413, undefined, 'PAYLOAD_TOO_LARGE'],
+    [422, undefined, 'BAD_REQUEST'],
+    [429, 'Too many requests', 'RATE_LIMITED'],
+    [429, 'Organization quota exceeded', 'QUOTA_EXCEEDED'],
+    [502, undefined, 'SERVER_ERROR'],
+    [0, undefined, 'NETWORK_ERROR'],
+  ])('maps %i (%s) to %s', (status, message, code) => {
+    expect(getErrorCodeForStatus(status, message)).toBe(code)
+  })
+})
+
+describe('error result codes', () => {
+  setupTestEnvironment()
+
+  it('sets code and structured details from the API error body', async () => {
+    const details = { maxPurls: 1024, received: 2048 }
+    nock(BASE)
+      .post('/v0/purl')
+      .query(true)
+      .reply(413, { error: { details, message: 'Too many PURLs' } })
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const result = await client.batchPackageFetch({
+      components: [{ purl: 'pkg:npm/lodash@4.17.21' }],
+    })
+
+    expect(result).toMatchObject({
+      code: 'PAYLOAD_TOO_LARGE',
+      details,
+      status: 413,
+      success: false,
+    })
+  })
+
+  it('tells a spent quota apart from rate limiting', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(429, { error: { message: 'Insufficient quota for API route' } })
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const result = await client.getQuota()
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.code).toBe('QUOTA_EXCEEDED')
+      expect(result.details).toBeUndefined()
+    }
+  })
+
+  it('reports unreadable upload paths as FILE_VALIDATION_FAILED', async () => {
+    const client = new SocketSdk('test-token')
+    const missing = '/does/not/exist/package.json'
+
+    const result = await client.uploadManifestFiles('test-org', [missing])
+
+    expect(result).toMatchObject({
+      code: 'FILE_VALIDATION_FAILED',
+      details: { invalidPaths: [missing] },
+      success: false,
+    })
+  })
+
+  it('reports invalid JSON and network failures', async () => {
+    nock(BASE).get('/v0/quota').reply(200, 'not json')
+    nock(BASE).get('/v0/quota').replyWithError('socket hang up')
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const invalid = await client.getApi('quota', {
+      responseType: 'json',
+      throws: false,
+    })
+    const network = await client.getApi('quota', {
+      responseType: 'json',
+      throws: false,
+    })
+
+    expect(invalid).toMatchObject({ code: 'INVALID_JSON', success: false })
+    expect(network).toMatchObject({ code: 'NETWORK_ERROR', status: 0 })
+  })
+
+  it('carries code and details on thrown errors', async () => {
+    const details = [{ field: 'name', reason: 'required' }]
+    nock(BASE)
+      .post('/v0/orgs/test-org/repos')
+      .reply(422, { error: { details, message: 'Invalid repository' } })
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    const error = await client
+      .createRepository('test-org', 'repo')
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(SocketApiError)
+    expect(error).toMatchObject({ code: 'BAD_REQUEST', details, status: 422 })
+  })
+})
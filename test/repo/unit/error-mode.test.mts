@@ -0,0 +1,152 @@
+/**
+ * @file Tests for the typed error classes and the `errorMode` option: status
+ *   to class mapping, `retryAfter` on rate limits, local validation failures,
+ *   failures without a response, uniform results under `'result'` and the
+ *   default mixed behavior.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import {
+  CircuitOpenError,
+  SocketApiError,
+  SocketAuthError,
+  SocketNotFoundError,
+  SocketPermissionError,
+  SocketRateLimitError,
+  SocketSdk,
+  SocketServerError,
+  SocketValidationError,
+} from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('errorMode option', () => {
+  setupTestEnvironment()
+
+  it.each([
+    [401, SocketAuthError],
+    [403, SocketPermissionError],
+    [404, SocketNotFoundError],
+    [409, SocketApiError],
+    [422, SocketValidationError],
+    [503, SocketServerError],
+  ])('throws the class matching a %i response', async (status, ErrorClass) => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(status, { error: { message: 'nope' } })
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    const error = await client.getQuota().catch(e => e)
+
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error).toBeInstanceOf(SocketApiError)
+    expect(error.name).toBe(ErrorClass.name)
+    expect(error.status).toBe(status)
+    expect(error.response.status).toBe(status)
+  })
+
+  it('reports Retry-After on rate limit errors', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(429, { error: { message: 'slow down' } }, { 'Retry-After': '3' })
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    const error = await client.getQuota().catch(e => e)
+
+    expect(error).toBeInstanceOf(SocketRateLimitError)
+    expect(error.retryAfter).toBe(3000)
+    expect(error.hint).toContain('Rate limit exceeded')
+  })
+
+  it('throws validation errors for calls rejected before sending', async () => {
+    const client = new SocketSdk('test-token', { errorMode: 'throw' })
+
+    await expect(
+      client.uploadManifestFiles('test-org', ['/does/not/exist.json']),
+    ).rejects.toBeInstanceOf(SocketValidationError)
+  })
+
+  it('throws typed errors for calls stopped before a response', async () => {
+    nock(BASE).get('/v0/quota').reply(500, 'boom')
+    const client = new SocketSdk('test-token', {
+      circuitBreaker: { failureThreshold: 1 },
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    await expect(client.getQuota()).rejects.toBeInstanceOf(SocketServerError)
+    const error = await client.getQuota().catch(e => e)
+
+    expect(error).toBeInstanceOf(SocketServerError)
+    expect(error).toMatchObject({ code: 'CIRCUIT_OPEN', status: 0 })
+    expect(error.cause).toBeInstanceOf(CircuitOpenError)
+  })
+
+  it('throws INVALID_JSON for an unparseable body', async () => {
+    nock(BASE).get('/v0/quota').reply(200, '{not json')
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    const error = await client.getQuota().catch(e => e)
+
+    expect(error).toBeInstanceOf(SocketApiError)
+    expect(error.code).toBe('INVALID_JSON')
+    expect(error.cause).toBeInstanceOf(SyntaxError)
+  })
+
+  it('throws typed errors from methods that resolve with raw data', async () => {
+    nock(BASE)
+      .get('/v0/orgs/test-org/patches/view/missing')
+      .reply(404, { error: { message: 'Patch not found' } })
+    const client = new SocketSdk('test-token', { errorMode: 'result' })
+
+    await expect(
+      client.viewPatch('test-org', 'missing'),
+    ).rejects.toBeInstanceOf(SocketNotFoundError)
+  })
+
+  it('resolves server and network failures under result mode', async () => {
+    nock(BASE).get('/v0/quota').reply(500, 'boom')
+    nock(BASE).get('/v0/quota').replyWithError('socket hang up')
+    const client = new SocketSdk('test-token', {
+      errorMode: 'result',
+      retries: 0,
+    })
+
+    const server = await client.getQuota()
+    const network = await client.getQuota()
+
+    expect(server).toMatchObject({ status: 500, success: false })
+    expect(network).toMatchObject({
+      error: 'Unexpected Socket API error',
+      status: 0,
+      success: false,
+    })
+  })
+
+  it('keeps returning 4xx results and throwing on 5xx by default', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(404, { error: { message: 'nope' } })
+    nock(BASE).get('/v0/quota').reply(500, 'boom')
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const result = await client.getQuota()
+
+    expect(result).toMatchObject({ status: 404, success: false })
+    const error = await client.getQuota().catch(e => e)
+
+    expect(error).toBeInstanceOf(SocketServerError)
+    expect(error.message).toBe('Socket API server error (500)')
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * @file Tests for the `Idempotency-Key` header sent by POST/PUT helpers and
+ *   kept stable across `SocketSdk` retries of one call.
+ */
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import nock from 'nock'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { safeDelete } from '@socketsecurity/lib/fs/safe'
+
+import {
+  createRequestBodyForFilepaths,
+  createUploadRequest,
+} from '../../../src/file-upload.mts'
+import { createRequestWithJson } from '../../../src/http-client.mts'
+import { SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+// Intercept `count` requests, recording each Idempotency-Key header. The
+// first `failures` requests answer 503 so the SDK retries them.
+function recordKeys(
+  method: 'post' | 'put',
+  urlPath: string,
+  count: number,
+  failures = 0,
+): Array<string | undefined> {
+  const keys: Array<string | undefined> = []
+  nock('https://api.socket.dev')
+    [method](urlPath)
+    .times(count)
+    .reply(function () {
+      keys.push(this.req.headers['idempotency-key'] as string | undefined)
+      return keys.length <= failures ? [503, 'unavailable'] : [200, {}]
+    })
+  return keys
+}
+
+describe('Idempotency-Key header', () => {
+  setupTestEnvironment()
+
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-idempotency-'))
+    writeFileSync(path.join(tmpDir, 'package.json'), '{}')
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('is generated by createRequestWithJson when not supplied', async () => {
+    const keys = recordKeys('put', '/v0/things', 2)
+
+    await createRequestWithJson(
+      'PUT',
+      'https://api.socket.dev/v0/',
+      'things',
+      {},
+    )
+    await createRequestWithJson(
+      'PUT',
+      'https://api.socket.dev/v0/',
+      'things',
+      {},
+      {
+        idempotencyKey: 'job-42',
+      },
+    )
+
+    expect(keys[0]).toMatch(UUID_REGEX)
+    expect(keys[1]).toBe('job-42')
+  })
+
+  it('is sent by createUploadRequest', async () => {
+    const keys = recordKeys('post', '/v0/upload', 1)
+    const form = createRequestBodyForFilepaths(
+      [path.join(tmpDir, 'package.json')],
+      tmpDir,
+    )
+
+    await createUploadRequest('https://api.socket.dev/v0/', 'upload', form)
+
+    expect(keys[0]).toMatch(UUID_REGEX)
+  })
+
+  it('stays the same across retries of one SDK call', async () => {
+    const keys = recordKeys('post', '/v0/orgs/test-org/repos', 3, 1)
+    const client = new SocketSdk('test-token', { retries: 2, retryDelay: 1 })
+
+    const first = await client.createRepository('test-org', 'repo-a')
+    const second = await client.createRepository('test-org', 'repo-b')
+
+    expect(first.success).toBe(true)
+    expect(second.success).toBe(true)
+    expect(keys).toHaveLength(3)
+    expect(keys[0]).toMatch(UUID_REGEX)
+    expect(keys[1]).toBe(keys[0])
+    expect(keys[2]).not.toBe(keys[0])
+  })
+
+  it('uses the key supplied through call options', async () => {
+    const keys = recordKeys('post', '/v0/orgs/test-org/repos', 2, 1)
+    const client = new SocketSdk('test-token', { retries: 1, retryDelay: 1 })
+
+    await client.createRepository('test-org', 'repo-a', undefined, {
+      idempotencyKey: 'ci-run-7:create-repo-a',
+    })
+
+    expect(keys).toEqual(['ci-run-7:create-repo-a', 'ci-run-7:create-repo-a'])
+  })
+})
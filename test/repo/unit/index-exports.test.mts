@@ -62,6 +62,33 @@ describe('index.ts exports', () => {
       'assembleManifest',
       'deriveApiV1BaseUrl',
       'hashFile',
+
+      // Pagination helpers
+      'collectAll',
+
+      // Rate limiter
+      'RateLimiter',
+
+      // Proxy-aware transport
+      'createProxyTransport',
+
+      // Persistent cache store
+      'createFileCacheStore',
+
+      // Metrics collector
+      'createSdkMetrics',
+
+      // Typed errors
+      'CircuitOpenError',
+      'MissingPermissionsError',
+      'QuotaExceededError',
+      'SocketApiError',
+      'SocketAuthError',
+      'SocketNotFoundError',
+      'SocketPermissionError',
+      'SocketRateLimitError',
+      'SocketServerError',
+      'SocketValidationError',
     ]
 
     for (let i = 0, { length } = expectedExports; i < length; i += 1) {
@@ -75,6 +102,11 @@ describe('index.ts exports', () => {
     const expectedKeys = new Set([
       'assembleManifest',
       'calculateTotalQuotaCost',
+      'CircuitOpenError',
+      'collectAll',
+      'createFileCacheStore',
+      'createProxyTransport',
+      'createSdkMetrics',
       'createUserAgentFromPkgJson',
       'deriveApiV1BaseUrl',
       'fetchBlob',
@@ -89,8 +121,19 @@ describe('index.ts exports', () => {
       'getRequiredPermissions',
       'hashFile',
       'hasQuotaForMethods',
+      'MissingPermissionsError',
+      'QuotaExceededError',
+      'RateLimiter',
       'ResponseError',
+      'SocketApiError',
+      'SocketAuthError',
+      'SocketNotFoundError',
+      'SocketPermissionError',
+      'SocketRateLimitError',
       'SocketSdk',
+      'SocketSdkPool',
+      'SocketServerError',
+      'SocketValidationError',
       'tryDecodeText',
     ])
 
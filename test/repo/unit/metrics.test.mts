@@ -0,0 +1,161 @@
+/**
+ * @file Tests for `createSdkMetrics`: per-method aggregation through the SDK
+ *   hooks, retry counting, quota estimates, and the JSON and Prometheus
+ *   outputs.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import {
+  SocketSdk,
+  createSdkMetrics,
+  getQuotaCost,
+} from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('createSdkMetrics', () => {
+  describe('with a client', () => {
+    setupTestEnvironment()
+
+    it('aggregates requests, statuses and quota per method', async () => {
+      nock(BASE)
+        .get('/v0/analytics/org/7d')
+        .times(2)
+        .reply(200, [])
+        .get('/v0/analytics/org/bogus')
+        .reply(400, { error: { message: 'Invalid time' } })
+      const metrics = createSdkMetrics()
+      const client = new SocketSdk('test-token', {
+        hooks: metrics.hooks,
+        retries: 0,
+      })
+
+      await client.getOrgAnalytics('7d')
+      await client.getOrgAnalytics('7d')
+      await client.getOrgAnalytics('bogus')
+
+      const cost = getQuotaCost('getOrgAnalytics')
+      const { methods, quotaUnits, requests } = metrics.snapshot()
+      expect(requests).toBe(3)
+      expect(methods['getOrgAnalytics']).toMatchObject({
+        quotaUnits: cost * 2,
+        requests: 3,
+        retries: 0,
+        statuses: { '2xx': 2, '4xx': 1 },
+      })
+      expect(methods['getOrgAnalytics']!.latency.count).toBe(3)
+      expect(quotaUnits).toBe(cost * 2)
+    })
+
+    it('counts retries and passes the method name to the hooks', async () => {
+      nock(BASE)
+        .get('/v0/quota')
+        .reply(503, { error: { message: 'Unavailable' } })
+        .get('/v0/quota')
+        .reply(200, { quota: 100 })
+      const metrics = createSdkMetrics()
+      const methodNames: Array<string | undefined> = []
+      const client = new SocketSdk('test-token', {
+        hooks: {
+          ...metrics.hooks,
+          onRequest: info => methodNames.push(info.methodName),
+        },
+        retries: 1,
+        retryDelay: 1,
+      })
+
+      await client.getQuota()
+
+      expect(methodNames).toEqual(['getQuota', 'getQuota'])
+      expect(metrics.snapshot().methods['getQuota']).toMatchObject({
+        requests: 2,
+        retries: 1,
+        statuses: { '2xx': 1, '5xx': 1 },
+      })
+    })
+  })
+
+  it('fills cumulative latency buckets', () => {
+    const metrics = createSdkMetrics({ latencyBucketsMs: [100, 10] })
+    const response = { method: 'GET', methodName: 'getQuota', url: BASE }
+    metrics.hooks.onResponse({ ...response, duration: 5, status: 200 })
+    metrics.hooks.onResponse({ ...response, duration: 50, status: 200 })
+    metrics.hooks.onResponse({ ...response, duration: 500 })
+
+    expect(metrics.snapshot().methods['getQuota']!.latency).toEqual({
+      bucketsMs: [10, 100],
+      count: 3,
+      counts: [1, 2],
+      sumMs: 555,
+    })
+    expect(metrics.snapshot().methods['getQuota']!.statuses).toEqual({
+      '2xx': 2,
+      error: 1,
+    })
+  })
+
+  it('formats Prometheus text exposition', () => {
+    const metrics = createSdkMetrics({ latencyBucketsMs: [100], prefix: 'sdk' })
+    metrics.hooks.onResponse({
+      duration: 40,
+      method: 'GET',
+      methodName: 'getQuota',
+      status: 200,
+      url: `${BASE}/v0/quota`,
+    })
+    metrics.hooks.onRetry({ attempt: 1, cause: undefined, delayMs: 10 })
+
+    expect(metrics.toPrometheus()).toBe(
+      [
+        '# HELP sdk_requests_total Socket API requests by SDK method and status class.',
+        '# TYPE sdk_requests_total counter',
+        'sdk_requests_total{method="getQuota",status="2xx"} 1',
+        '# HELP sdk_request_duration_seconds Socket API request latency by SDK method.',
+        '# TYPE sdk_request_duration_seconds histogram',
+        'sdk_request_duration_seconds_bucket{method="getQuota",le="0.1"} 1',
+        'sdk_request_duration_seconds_bucket{method="getQuota",le="+Inf"} 1',
+        'sdk_request_duration_seconds_sum{method="getQuota"} 0.04',
+        'sdk_request_duration_seconds_count{method="getQuota"} 1',
+        'sdk_request_duration_seconds_bucket{method="unknown",le="0.1"} 0',
+        'sdk_request_duration_seconds_bucket{method="unknown",le="+Inf"} 0',
+        'sdk_request_duration_seconds_sum{method="unknown"} 0',
+        'sdk_request_duration_seconds_count{method="unknown"} 0',
+        '# HELP sdk_retries_total Retries by SDK method.',
+        '# TYPE sdk_retries_total counter',
+        'sdk_retries_total{method="getQuota"} 0',
+        'sdk_retries_total{method="unknown"} 1',
+        '# HELP sdk_quota_units_total Estimated quota units spent by SDK method.',
+        '# TYPE sdk_quota_units_total counter',
+        `sdk_quota_units_total{method="getQuota"} ${getQuotaCost('getQuota')}`,
+        'sdk_quota_units_total{method="unknown"} 0',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('forgets everything on reset', () => {
+    const metrics = createSdkMetrics()
+    metrics.hooks.onRetry({
+      attempt: 1,
+      cause: undefined,
+      delayMs: 10,
+      methodName: 'getQuota',
+    })
+    metrics.reset()
+
+    expect(metrics.snapshot()).toEqual({
+      methods: {},
+      quotaUnits: 0,
+      requests: 0,
+      retries: 0,
+    })
+  })
+
+  it('rejects non-positive latency buckets', () => {
+    expect(() => createSdkMetrics({ latencyBucketsMs: [0] })).toThrow(
+      '"latencyBucketsMs" must contain only positive numbers',
+    )
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * @file Tests for `createTracedSocketSdk`: method and HTTP spans, `traceparent`
+ *   propagation, retry and upload counts, and error recording. A small
+ *   in-memory OpenTelemetry API stands in for `@opentelemetry/api`.
+ */
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketApiError, SocketSdk } from '../../../src/index.mts'
+import { createTracedSocketSdk } from '../../../src/otel.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type {
+  OtelApi,
+  OtelAttributeValue,
+  OtelSpan,
+  OtelSpanOptions,
+} from '../../../src/otel.mts'
+
+const BASE = 'https://api.socket.dev'
+
+type FakeSpan = OtelSpan & {
+  attributes: Record<string, OtelAttributeValue | undefined>
+  ended: boolean
+  exceptions: Array<Error | string>
+  kind: number | undefined
+  name: string
+  parent: FakeSpan | undefined
+  spanId: string
+  status: { code: number; message?: string | undefined } | undefined
+}
+
+function createFakeOtel(): { otel: OtelApi; spans: FakeSpan[] } {
+  const storage = new AsyncLocalStorage<Map<string, FakeSpan>>()
+  const root = new Map<string, FakeSpan>()
+  const spans: FakeSpan[] = []
+  const getSpan = (context: unknown) =>
+    (context as Map<string, FakeSpan>).get('span')
+  const startSpan = (
+    name: string,
+    options?: OtelSpanOptions,
+    context?: unknown,
+  ): FakeSpan => {
+    const span: FakeSpan = {
+      attributes: { ...options?.attributes },
+      end() {
+        span.ended = true
+      },
+      ended: false,
+      exceptions: [],
+      kind: options?.kind,
+      name,
+      parent: getSpan(context ?? storage.getStore() ?? root),
+      recordException(exception) {
+        span.exceptions.push(exception)
+      },
+      setAttribute(key, value) {
+        span.attributes[key] = value
+      },
+      setStatus(status) {
+        span.status = status
+      },
+      spanId: String(spans.length + 1).padStart(16, '0'),
+      status: undefined,
+    }
+    spans.push(span)
+    return span
+  }
+  const otel: OtelApi = {
+    context: {
+      active: () => storage.getStore() ?? root,
+      with: (context, fn) => storage.run(context as Map<string, FakeSpan>, fn),
+    },
+    propagation: {
+      inject(context, carrier) {
+        const span = getSpan(context)
+        if (span) {
+          carrier['traceparent'] = `00-${'a'.repeat(32)}-${span.spanId}-01`
+        }
+      },
+    },
+    trace: {
+      getSpan,
+      getTracer: () => ({ startSpan }),
+      setSpan: (context, span) =>
+        new Map(context as Map<string, FakeSpan>).set('span', span as FakeSpan),
+    },
+  }
+  return { otel, spans }
+}
+
+describe('createTracedSocketSdk', () => {
+  setupTestEnvironment()
+
+  it('wraps a method call in a span with a child HTTP span', async () => {
+    const { otel, spans } = createFakeOtel()
+    let traceparent: string | undefined
+    nock(BASE)
+      .get('/v0/orgs/my-org/repos/my-repo')
+      .reply(function () {
+        traceparent = this.req.headers['traceparent'] as string
+        return [200, { id: 'repo-1' }]
+      })
+    const sdk = createTracedSocketSdk('test-token', { otel, retries: 0 })
+
+    const result = await sdk.getRepository('my-org', 'my-repo')
+
+    expect(result.success).toBe(true)
+    const [methodSpan, httpSpan] = spans
+    expect(methodSpan).toMatchObject({
+      attributes: {
+        'http.request.method': 'GET',
+        'http.response.status_code': 200,
+        'socket.org_slug': 'my-org',
+        'socket.sdk.bytes_uploaded': 0,
+        'socket.sdk.method': 'getRepository',
+        'socket.sdk.poll_attempts': 0,
+        'socket.sdk.retries': 0,
+      },
+      ended: true,
+      name: 'SocketSdk.getRepository',
+      status: undefined,
+    })
+    expect(httpSpan).toMatchObject({
+      attributes: {
+        'http.request.method': 'GET',
+        'http.response.status_code': 200,
+        'url.full': `${BASE}/v0/orgs/my-org/repos/my-repo`,
+      },
+      ended: true,
+      kind: 2,
+      name: 'GET',
+      parent: methodSpan,
+    })
+    expect(traceparent).toBe(`00-${'a'.repeat(32)}-${httpSpan!.spanId}-01`)
+  })
+
+  it('counts retries and uploaded bytes across attempts', async () => {
+    const { otel, spans } = createFakeOtel()
+    const retried: number[] = []
+    nock(BASE)
+      .post('/v0/orgs/my-org/repos')
+      .reply(503, { error: { message: 'Unavailable' } })
+      .post('/v0/orgs/my-org/repos')
+      .reply(200, { id: 'repo-1' })
+    const sdk = createTracedSocketSdk('test-token', {
+      otel,
+      retries: 1,
+      retryDelay: 1,
+      retryPolicy: { onRetry: info => retried.push(info.attempt) },
+    })
+
+    const result = await sdk.createRepository('my-org', 'my-repo')
+
+    expect(result.success).toBe(true)
+    expect(retried).toEqual([1])
+    const body = Buffer.byteLength(JSON.stringify({ name: 'my-repo' }))
+    expect(spans[0]!.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'socket.sdk.bytes_uploaded': body * 2,
+      'socket.sdk.retries': 1,
+    })
+    const httpSpans = spans.filter(span => span.parent === spans[0])
+    expect(
+      httpSpans.map(span => span.attributes['http.response.status_code']),
+    ).toEqual([503, 200])
+  })
+
+  it('keeps the shared onRetry for a method override without one', async () => {
+    const { otel, spans } = createFakeOtel()
+    const retried: number[] = []
+    nock(BASE)
+      .post('/v0/orgs/my-org/repos')
+      .reply(503, { error: { message: 'Unavailable' } })
+      .post('/v0/orgs/my-org/repos')
+      .reply(200, { id: 'repo-1' })
+    const sdk = createTracedSocketSdk('test-token', {
+      otel,
+      retries: 1,
+      retryPolicy: {
+        methods: { createRepository: { baseDelayMs: 1 } },
+        onRetry: info => retried.push(info.attempt),
+      },
+    })
+
+    await sdk.createRepository('my-org', 'my-repo')
+
+    expect(retried).toEqual([1])
+    expect(spans[0]!.attributes['socket.sdk.retries']).toBe(1)
+  })
+
+  it('marks the span failed for an error result', async () => {
+    const { otel, spans } = createFakeOtel()
+    nock(BASE)
+      .get('/v0/orgs/my-org/repos/missing')
+      .reply(404, { error: { message: 'Repository not found' } })
+    const sdk = createTracedSocketSdk('test-token', { otel, retries: 0 })
+
+    const result = await sdk.getRepository('my-org', 'missing')
+
+    expect(result.success).toBe(false)
+    expect(spans[0]!.attributes['socket.sdk.error_code']).toBe('NOT_FOUND')
+    expect(spans[0]!.status).toEqual({
+      code: 2,
+      message: expect.any(String),
+    })
+    expect(spans[1]!.status).toEqual({ code: 2 })
+  })
+
+  it('records a thrown error on the span', async () => {
+    const { otel, spans } = createFakeOtel()
+    nock(BASE)
+      .get('/v0/orgs/my-org/repos/missing')
+      .reply(404, { error: { message: 'Repository not found' } })
+    const sdk = createTracedSocketSdk('test-token', {
+      errorMode: 'throw',
+      otel,
+      retries: 0,
+    })
+
+    await expect(sdk.getRepository('my-org', 'missing')).rejects.toBeInstanceOf(
+      SocketApiError,
+    )
+    expect(spans[0]!.exceptions).toHaveLength(1)
+    expect(spans[0]!.exceptions[0]).toBeInstanceOf(SocketApiError)
+    expect(spans[0]!.status?.code).toBe(2)
+    expect(spans[0]!.ended).toBe(true)
+  })
+
+  it('keeps method identity and the SocketSdk prototype', () => {
+    const { otel } = createFakeOtel()
+    const sdk = createTracedSocketSdk('test-token', { otel })
+
+    expect(sdk.getRepository).toBe(sdk.getRepository)
+    expect(sdk).toBeInstanceOf(SocketSdk)
+  })
+})
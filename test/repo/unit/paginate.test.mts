@@ -0,0 +1,433 @@
+/**
+ * @file Tests for the cursor and page-number pagination helpers and the
+ *   SocketSdk `iterate*` methods built on them.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import {
+  collectAll,
+  paginateCursor,
+  paginatePages,
+} from '../../../src/utils/paginate.mts'
+import { setupTestClient } from '../../utils/environment.mts'
+
+describe('paginateCursor', () => {
+  it('follows endCursor until it is null', async () => {
+    const cursors: Array<string | undefined> = []
+    const pages = [
+      { endCursor: 'c1', items: [1, 2] },
+      // Empty intermediate pages do not end the walk.
+      { endCursor: 'c2', items: [] },
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null endCursor.
+      { endCursor: null, items: [3] },
+    ]
+    const items = await collectAll(
+      paginateCursor<number>({
+        fetchPage: async cursor => {
+          cursors.push(cursor)
+          return { data: pages[cursors.length - 1]!, success: true }
+        },
+        label: 'test',
+      }),
+    )
+
+    expect(items).toEqual([1, 2, 3])
+    expect(cursors).toEqual([undefined, 'c1', 'c2'])
+  })
+
+  it('starts from startCursor when provided', async () => {
+    const cursors: Array<string | undefined> = []
+    await collectAll(
+      paginateCursor<number>({
+        fetchPage: async cursor => {
+          cursors.push(cursor)
+          return { data: { items: [1] }, success: true }
+        },
+        label: 'test',
+        startCursor: 'resume-here',
+      }),
+    )
+
+    expect(cursors).toEqual(['resume-here'])
+  })
+
+  it('stops once maxItems have been yielded', async () => {
+    let calls = 0
+    const items = await collectAll(
+      paginateCursor<number>({
+        fetchPage: async () => {
+          calls += 1
+          return {
+            data: {
+              endCursor: `c${calls}`,
+              items: [calls * 10, calls * 10 + 1],
+            },
+            success: true,
+          }
+        },
+        label: 'test',
+        maxItems: 3,
+      }),
+    )
+
+    expect(items).toEqual([10, 11, 20])
+    expect(calls).toBe(2)
+  })
+
+  it('stops once maxPages have been fetched', async () => {
+    let calls = 0
+    const items = await collectAll(
+      paginateCursor<number>({
+        fetchPage: async () => {
+          calls += 1
+          return { data: { endCursor: 'more', items: [calls] }, success: true }
+        },
+        label: 'test',
+        maxPages: 2,
+      }),
+    )
+
+    expect(items).toEqual([1, 2])
+    expect(calls).toBe(2)
+  })
+
+  it('throws with the SDK error message when a page fails', async () => {
+    const seen: number[] = []
+    let calls = 0
+    await expect(async () => {
+      for await (const item of paginateCursor<number>({
+        fetchPage: async () => {
+          calls += 1
+          if (calls === 1) {
+            return { data: { endCursor: 'c1', items: [1] }, success: true }
+          }
+          return {
+            cause: 'token lacks scope',
+            error: 'Forbidden',
+            status: 403,
+            success: false,
+          }
+        },
+        label: 'alerts list',
+      })) {
+        seen.push(item)
+      }
+    }).rejects.toThrow('Socket API alerts list page 2 failed (403): Forbidden')
+    expect(seen).toEqual([1])
+  })
+})
+
+describe('paginatePages', () => {
+  it('follows nextPage until it is null', async () => {
+    const requested: number[] = []
+    const items = await collectAll(
+      paginatePages<string>({
+        fetchPage: async page => {
+          requested.push(page)
+          return {
+            data: {
+              // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null nextPage.
+              nextPage: page < 3 ? page + 1 : null,
+              results: [`p${page}`],
+            },
+            success: true,
+          }
+        },
+        label: 'test',
+      }),
+    )
+
+    expect(items).toEqual(['p1', 'p2', 'p3'])
+    expect(requested).toEqual([1, 2, 3])
+  })
+
+  it('treats a nextPage of 0 as the last page', async () => {
+    const items = await collectAll(
+      paginatePages<number>({
+        fetchPage: async () => ({
+          data: { nextPage: 0, results: [1] },
+          success: true,
+        }),
+        label: 'test',
+      }),
+    )
+
+    expect(items).toEqual([1])
+  })
+
+  it('starts from startPage when provided', async () => {
+    const requested: number[] = []
+    await collectAll(
+      paginatePages<number>({
+        fetchPage: async page => {
+          requested.push(page)
+          return { data: { results: [page] }, success: true }
+        },
+        label: 'test',
+        startPage: 5,
+      }),
+    )
+
+    expect(requested).toEqual([5])
+  })
+
+  it('keeps prefetch pages in flight but yields in page order', async () => {
+    const resolvers = new Map<number, () => void>()
+    const requested: number[] = []
+    const iterator = paginatePages<number>({
+      fetchPage: page => {
+        requested.push(page)
+        return new Promise(resolve => {
+          resolvers.set(page, () =>
+            resolve({
+              data: { nextPage: page + 1, results: [page] },
+              success: true,
+            }),
+          )
+        })
+      },
+      label: 'test',
+      maxPages: 3,
+      prefetch: 2,
+    })[Symbol.asyncIterator]()
+
+    const first = iterator.next()
+    // Pages 1-3 are requested up front; resolve them out of order.
+    expect(requested).toEqual([1, 2, 3])
+    resolvers.get(3)!()
+    resolvers.get(2)!()
+    resolvers.get(1)!()
+
+    expect((await first).value).toBe(1)
+    expect((await iterator.next()).value).toBe(2)
+    expect((await iterator.next()).value).toBe(3)
+    expect((await iterator.next()).done).toBe(true)
+    // maxPages caps the prefetch window, so nothing past page 3 was fetched.
+    expect(requested).toEqual([1, 2, 3])
+  })
+
+  it('does not surface rejections from abandoned prefetched pages', async () => {
+    const items = await collectAll(
+      paginatePages<number>({
+        fetchPage: async page => {
+          if (page > 1) {
+            throw new Error('speculative page failed')
+          }
+          // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null nextPage.
+          return { data: { nextPage: null, results: [1] }, success: true }
+        },
+        label: 'test',
+        prefetch: 2,
+      }),
+    )
+
+    expect(items).toEqual([1])
+  })
+
+  it('stops when nextPage does not advance', async () => {
+    let calls = 0
+    const items = await collectAll(
+      paginatePages<number>({
+        fetchPage: async page => {
+          calls += 1
+          return { data: { nextPage: page, results: [page] }, success: true }
+        },
+        label: 'test',
+      }),
+    )
+
+    expect(items).toEqual([1])
+    expect(calls).toBe(1)
+  })
+
+  it('throws with the SDK error message when a page fails', async () => {
+    await expect(
+      collectAll(
+        paginatePages<number>({
+          fetchPage: async page =>
+            page === 1
+              ? { data: { nextPage: 2, results: [1] }, success: true }
+              : { error: 'Bad gateway', status: 502, success: false },
+          label: 'repositories list',
+        }),
+      ),
+    ).rejects.toThrow(
+      'Socket API repositories list page 2 failed (502): Bad gateway',
+    )
+  })
+})
+
+describe('SocketSdk iterate* methods', () => {
+  const getClient = setupTestClient('test-api-token', { retries: 0 })
+
+  it('iterateOrgAlerts walks every page and forwards filters', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/alerts')
+      .query({ 'filters.alertSeverity': 'critical', per_page: '2' })
+      .reply(200, {
+        endCursor: 'cursor-1',
+        items: [{ id: 'a1' }, { id: 'a2' }],
+      })
+      .get('/v0/orgs/test-org/alerts')
+      .query({
+        'filters.alertSeverity': 'critical',
+        per_page: '2',
+        startAfterCursor: 'cursor-1',
+      })
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null endCursor.
+      .reply(200, { endCursor: null, items: [{ id: 'a3' }] })
+
+    const alerts = await collectAll(
+      getClient().iterateOrgAlerts('test-org', {
+        'filters.alertSeverity': 'critical',
+        per_page: 2,
+      }),
+    )
+
+    expect(alerts.map(a => a.id)).toEqual(['a1', 'a2', 'a3'])
+  })
+
+  it('iterateOrgAlerts does not send the budget options as query params', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/alerts')
+      .query(query => !('maxItems' in query) && !('maxPages' in query))
+      .reply(200, { endCursor: 'cursor-1', items: [{ id: 'a1' }] })
+
+    const alerts = await collectAll(
+      getClient().iterateOrgAlerts('test-org', { maxPages: 1 }),
+    )
+
+    expect(alerts).toHaveLength(1)
+  })
+
+  it('iterateOrgAlertResolutions resumes from startAfterCursor', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/alerts/resolutions')
+      .query({ startAfterCursor: 'saved' })
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null endCursor.
+      .reply(200, { endCursor: null, items: [{ uuid: 'r1' }] })
+
+    const resolutions = await collectAll(
+      getClient().iterateOrgAlertResolutions('test-org', {
+        startAfterCursor: 'saved',
+      }),
+    )
+
+    expect(resolutions).toHaveLength(1)
+  })
+
+  it('iterateHistoricalAlerts and iterateHistoricalSnapshots follow endCursor', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/historical/alerts')
+      .query({ range: '-7d' })
+      .reply(200, { endCursor: 'h1', items: [{ id: 'x' }] })
+      .get('/v0/orgs/test-org/historical/alerts')
+      .query({ range: '-7d', startAfterCursor: 'h1' })
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null endCursor.
+      .reply(200, { endCursor: null, items: [{ id: 'y' }] })
+      .get('/v0/orgs/test-org/historical/snapshots')
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null endCursor.
+      .reply(200, { endCursor: null, items: [{ id: 's1' }] })
+
+    const client = getClient()
+    const alerts = await collectAll(
+      client.iterateHistoricalAlerts('test-org', { range: '-7d' }),
+    )
+    const snapshots = await collectAll(
+      client.iterateHistoricalSnapshots('test-org'),
+    )
+
+    expect(alerts).toHaveLength(2)
+    expect(snapshots).toHaveLength(1)
+  })
+
+  it('iterateThreatCampaigns and iterateThreatCampaignPackages use the v1 cursor param', async () => {
+    nock('https://api.socket.dev')
+      .get('/v1/orgs/test-org/threat-campaigns')
+      .query({ status: 'past' })
+      .reply(200, { endCursor: 't1', items: [{ id: 'campaign-1' }] })
+      .get('/v1/orgs/test-org/threat-campaigns')
+      .query({ cursor: 't1', status: 'past' })
+      .reply(200, { items: [{ id: 'campaign-2' }] })
+      .get('/v1/orgs/test-org/threat-campaigns/campaign-1/packages')
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null endCursor.
+      .reply(200, { endCursor: null, items: ['pkg:npm/evil@1.0.0'] })
+
+    const client = getClient()
+    const campaigns = await collectAll(
+      client.iterateThreatCampaigns('test-org', { status: 'past' }),
+    )
+    const purls = await collectAll(
+      client.iterateThreatCampaignPackages('test-org', 'campaign-1'),
+    )
+
+    expect(campaigns.map(c => c.id)).toEqual(['campaign-1', 'campaign-2'])
+    expect(purls).toEqual(['pkg:npm/evil@1.0.0'])
+  })
+
+  it('throws when a page returns an error result', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/alerts')
+      .reply(403, { error: { message: 'Insufficient permissions' } })
+
+    await expect(
+      collectAll(getClient().iterateOrgAlerts('test-org')),
+    ).rejects.toThrow(/alerts list page 1 failed \(403\)/)
+  })
+
+  it('iterateRepositories walks page/nextPage and forwards filters', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/repos')
+      .query({ page: '1', per_page: '2', sort: 'name' })
+      .reply(200, { nextPage: 2, results: [{ slug: 'r1' }, { slug: 'r2' }] })
+      .get('/v0/orgs/test-org/repos')
+      .query({ page: '2', per_page: '2', sort: 'name' })
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null nextPage.
+      .reply(200, { nextPage: null, results: [{ slug: 'r3' }] })
+
+    const repos = await collectAll(
+      getClient().iterateRepositories('test-org', {
+        per_page: 2,
+        sort: 'name',
+      }),
+    )
+
+    expect(repos.map(r => r.slug)).toEqual(['r1', 'r2', 'r3'])
+  })
+
+  it('iterateFullScans prefetches without sending pagination options', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/full-scans')
+      .query({ branch: 'main', page: '3' })
+      .reply(200, { nextPage: 4, results: [{ id: 's3' }] })
+      .get('/v0/orgs/test-org/full-scans')
+      .query({ branch: 'main', page: '4' })
+      // oxlint-disable-next-line socket/prefer-undefined-over-null -- wire data: the API signals the last page with a null nextPage.
+      .reply(200, { nextPage: null, results: [{ id: 's4' }] })
+
+    const scans = await collectAll(
+      getClient().iterateFullScans('test-org', {
+        branch: 'main',
+        maxPages: 2,
+        page: 3,
+        prefetch: 1,
+      }),
+    )
+
+    expect(scans.map(s => s.id)).toEqual(['s3', 's4'])
+  })
+
+  it('iterateOrgWebhooks walks the webhook list', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/orgs/test-org/webhooks')
+      .query({ page: '1' })
+      .reply(200, { nextPage: 0, results: [{ id: 'wh1' }] })
+
+    const webhooks = await collectAll(
+      getClient().iterateOrgWebhooks('test-org'),
+    )
+
+    expect(webhooks.map(w => w.id)).toEqual(['wh1'])
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * @file Tests for the permission pre-flight: scope matching in
+ *   `findMissingPermissions`, `checkPermissions` with given and looked-up
+ *   scopes, and the opt-in `permissionGuard` that stops calls before they are
+ *   sent.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import {
+  MissingPermissionsError,
+  SocketPermissionError,
+  SocketSdk,
+} from '../../../src/index.mts'
+import { findMissingPermissions } from '../../../src/utils/permission-guard.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+function apiTokens(scopes: string[], token = 'test-token') {
+  return { nextPage: null, tokens: [{ id: 'tok-1', scopes, token }] }
+}
+
+describe('findMissingPermissions', () => {
+  it('lists the required scopes not granted', () => {
+    expect(findMissingPermissions(['repo:list'], 'createOrgRepoDiff')).toEqual([
+      'diff-scans:create',
+      'full-scans:create',
+    ])
+  })
+
+  it('grants every action under a bare scope, and everything for *', () => {
+    expect(
+      findMissingPermissions(
+        ['repo', 'diff-scans', 'full-scans'],
+        'createOrgRepoDiff',
+      ),
+    ).toEqual([])
+    expect(findMissingPermissions(['*'], 'createOrgRepoDiff')).toEqual([])
+  })
+
+  it('looks SDK methods up under their operationId', () => {
+    expect(findMissingPermissions(['repo:list'], 'createRepository')).toEqual([
+      'repo:create',
+    ])
+  })
+
+  it('throws for a method missing from the requirements table', () => {
+    expect(() => findMissingPermissions([], 'notAMethod')).toThrow(
+      'Unknown SDK method',
+    )
+  })
+})
+
+describe('SocketSdk.checkPermissions', () => {
+  setupTestEnvironment()
+
+  it('reports the missing scopes per method', async () => {
+    const client = new SocketSdk('test-token')
+
+    const result = await client.checkPermissions(
+      ['createFullScan', 'getQuota', 'getOrgAnalytics'],
+      { scopes: ['full-scans:create'] },
+    )
+
+    expect(result).toMatchObject({
+      data: {
+        missing: { getOrgAnalytics: ['report:write'] },
+        scopes: ['full-scans:create'],
+        unknown: [],
+      },
+      success: true,
+    })
+  })
+
+  it('reports methods missing from the requirements table', async () => {
+    const client = new SocketSdk('test-token')
+
+    const result = await client.checkPermissions(
+      ['listRepositories', 'notAMethod'],
+      { scopes: [] },
+    )
+
+    expect(result).toMatchObject({
+      data: {
+        missing: { listRepositories: ['repo:list'] },
+        unknown: ['notAMethod'],
+      },
+      success: true,
+    })
+  })
+
+  it("looks up the scopes of the client's token", async () => {
+    nock(BASE)
+      .get('/v0/orgs/my-org/api-tokens')
+      .reply(200, apiTokens(['report:write']))
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const result = await client.checkPermissions(
+      ['createFullScan', 'getOrgAnalytics'],
+      { orgSlug: 'my-org' },
+    )
+
+    expect(result).toMatchObject({
+      data: { missing: { createFullScan: ['full-scans:create'] } },
+      success: true,
+    })
+  })
+
+  it('fails when the listing does not include the token', async () => {
+    nock(BASE)
+      .get('/v0/orgs/my-org/api-tokens')
+      .reply(200, apiTokens(['*'], 'sktsec_other'))
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const result = await client.checkPermissions(['getOrgAnalytics'], {
+      orgSlug: 'my-org',
+    })
+
+    expect(result).toMatchObject({
+      code: 'NOT_FOUND',
+      error: 'API token not found',
+      success: false,
+    })
+  })
+
+  it('requires scopes or an orgSlug', async () => {
+    const client = new SocketSdk('test-token')
+
+    await expect(client.checkPermissions(['getQuota'], {})).rejects.toThrow(
+      '"orgSlug" or "scopes" is required',
+    )
+  })
+})
+
+describe('SocketSdk permissionGuard', () => {
+  setupTestEnvironment()
+
+  it('stops a call the token lacks scopes for without sending it', async () => {
+    const client = new SocketSdk('test-token', {
+      permissionGuard: { scopes: ['full-scans:list'] },
+      retries: 0,
+    })
+
+    const result = await client.getOrgAnalytics('7d')
+
+    expect(result).toMatchObject({
+      code: 'FORBIDDEN_SCOPE',
+      details: { methodName: 'getOrgAnalytics', missing: ['report:write'] },
+      status: 0,
+      success: false,
+    })
+  })
+
+  it('stops SDK methods listed under their operationId', async () => {
+    const client = new SocketSdk('test-token', {
+      permissionGuard: { scopes: ['repo:list'] },
+      retries: 0,
+    })
+
+    const result = await client.createRepository('my-org', 'my-repo')
+
+    expect(result).toMatchObject({
+      code: 'FORBIDDEN_SCOPE',
+      details: { methodName: 'createRepository', missing: ['repo:create'] },
+      success: false,
+    })
+  })
+
+  it('looks the scopes up once and lets permitted calls through', async () => {
+    nock(BASE)
+      .get('/v0/orgs/my-org/api-tokens')
+      .reply(200, apiTokens(['report']))
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+      .get('/v0/analytics/org/30d')
+      .reply(200, [])
+    const client = new SocketSdk('test-token', {
+      permissionGuard: { orgSlug: 'my-org' },
+      retries: 0,
+    })
+
+    const results = await Promise.all([
+      client.getOrgAnalytics('7d'),
+      client.getOrgAnalytics('30d'),
+    ])
+
+    expect(results.map(r => r.success)).toEqual([true, true])
+  })
+
+  it('lets calls through while the scopes cannot be looked up', async () => {
+    nock(BASE)
+      .get('/v0/orgs/my-org/api-tokens')
+      .reply(403, { error: { message: 'Forbidden' } })
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+    const client = new SocketSdk('test-token', {
+      permissionGuard: { orgSlug: 'my-org' },
+      retries: 0,
+    })
+
+    const result = await client.getOrgAnalytics('7d')
+
+    expect(result.success).toBe(true)
+  })
+
+  it('throws SocketPermissionError in throw mode', async () => {
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      permissionGuard: { scopes: [] },
+      retries: 0,
+    })
+
+    const error = await client
+      .batchPackageFetch({ components: [{ purl: 'pkg:npm/a@1.0.0' }] })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(SocketPermissionError)
+    expect(error).toMatchObject({ code: 'FORBIDDEN_SCOPE', status: 0 })
+    expect((error as SocketPermissionError).cause).toBeInstanceOf(
+      MissingPermissionsError,
+    )
+  })
+
+  it('requires scopes or an orgSlug', () => {
+    expect(() => new SocketSdk('test-token', { permissionGuard: {} })).toThrow(
+      '"orgSlug" or "scopes" is required',
+    )
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * @file Tests for proxy and custom CA support: `NO_PROXY` matching, the
+ *   environment and `proxy` option, absolute-form requests for `http:`
+ *   targets and CONNECT tunnels for `https:` targets.
+ */
+import { createServer } from 'node:http'
+import { Readable } from 'node:stream'
+import tls from 'node:tls'
+
+import nock from 'nock'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import {
+  createProxyTransport,
+  isNoProxyHost,
+} from '../../../src/utils/proxy.mts'
+
+import type { HttpTransport, TransportRequest } from '../../../src/index.mts'
+import type { IncomingHttpHeaders, Server } from 'node:http'
+
+type ProxiedRequest = {
+  headers: IncomingHttpHeaders
+  method: string | undefined
+  url: string | undefined
+}
+
+describe('isNoProxyHost', () => {
+  const target = new URL('https://api.socket.dev/v0/quota')
+
+  it('matches hosts, domain suffixes and wildcards', () => {
+    expect(isNoProxyHost(target, 'api.socket.dev')).toBe(true)
+    expect(isNoProxyHost(target, 'example.com, socket.dev')).toBe(true)
+    expect(isNoProxyHost(target, '.socket.dev')).toBe(true)
+    expect(isNoProxyHost(target, '*')).toBe(true)
+    expect(isNoProxyHost(target, 'other.dev,notsocket.dev')).toBe(false)
+    expect(isNoProxyHost(target, undefined)).toBe(false)
+  })
+
+  it('honors ports', () => {
+    expect(isNoProxyHost(target, 'api.socket.dev:443')).toBe(true)
+    expect(isNoProxyHost(target, 'api.socket.dev:8443')).toBe(false)
+  })
+})
+
+describe('createProxyTransport', () => {
+  const proxied: ProxiedRequest[] = []
+  let proxyUrl: string
+  let server: Server
+
+  beforeAll(async () => {
+    // nock's interceptor cannot represent absolute-form or CONNECT requests;
+    // these tests talk to a real local proxy instead.
+    nock.restore()
+    // A fake proxy: answers absolute-form requests itself, redirecting paths
+    // ending in /moved, and refuses every CONNECT tunnel with 407.
+    server = createServer((req, res) => {
+      proxied.push({ headers: req.headers, method: req.method, url: req.url })
+      req.resume()
+      if (req.url?.endsWith('/moved')) {
+        res.writeHead(307, { Location: 'http://direct.example.test/v0/quota' })
+        res.end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ quota: 1000 }))
+    })
+    server.on('connect', (req, socket) => {
+      proxied.push({ headers: req.headers, method: req.method, url: req.url })
+      socket.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n')
+    })
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    const address = server.address()
+    proxyUrl = `http://127.0.0.1:${typeof address === 'object' ? address?.port : ''}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+    nock.activate()
+  })
+
+  afterEach(() => {
+    proxied.length = 0
+    vi.unstubAllEnvs()
+  })
+
+  it('sends http targets to the proxy in absolute form with credentials', async () => {
+    const client = new SocketSdk('test-token', {
+      baseUrl: 'http://api.example.test/v0/',
+      proxy: proxyUrl.replace('http://', 'http://ci:p%40ss@'),
+      retries: 0,
+    })
+
+    const result = await client.getQuota()
+
+    expect(result.success && result.data.quota).toBe(1000)
+    expect(proxied).toHaveLength(1)
+    expect(proxied[0]!.url).toBe('http://api.example.test/v0/quota')
+    expect(proxied[0]!.headers['proxy-authorization']).toBe(
+      `Basic ${Buffer.from('ci:p@ss').toString('base64')}`,
+    )
+    expect(proxied[0]!.headers['authorization']).toMatch(/^Basic /)
+  })
+
+  it('tunnels https targets with CONNECT and reports a refused tunnel', async () => {
+    vi.stubEnv('HTTPS_PROXY', proxyUrl)
+    const transport = createProxyTransport()
+
+    await expect(
+      transport('https://api.socket.dev/v0/quota', { timeout: 5000 }),
+    ).rejects.toThrow('Proxy CONNECT to api.socket.dev:443 failed (407')
+    expect(proxied[0]).toMatchObject({
+      method: 'CONNECT',
+      url: 'api.socket.dev:443',
+    })
+  })
+
+  it('connects directly to NO_PROXY hosts and appends a custom CA', async () => {
+    vi.stubEnv('HTTPS_PROXY', proxyUrl)
+    vi.stubEnv('NO_PROXY', 'localhost,.socket.dev')
+    const direct: Array<TransportRequest & { url: string }> = []
+    const fallback: HttpTransport = async (url, request) => {
+      direct.push({ ...request, url })
+      throw new Error('sent directly')
+    }
+    const transport = createProxyTransport({ ca: 'PRIVATE-ROOT' }, fallback)
+
+    await expect(
+      transport('https://firewall-api.socket.dev/purl/x', {}),
+    ).rejects.toThrow('sent directly')
+    expect(proxied).toHaveLength(0)
+    expect(direct[0]!.ca).toEqual([...tls.rootCertificates, 'PRIVATE-ROOT'])
+  })
+
+  it('ignores the environment when proxy is false', async () => {
+    vi.stubEnv('HTTPS_PROXY', proxyUrl)
+    const fallback = vi.fn(async () => {
+      throw new Error('sent directly')
+    })
+    const transport = createProxyTransport({ proxy: false }, fallback)
+
+    await expect(
+      transport('https://api.socket.dev/v0/quota', {}),
+    ).rejects.toThrow('sent directly')
+    expect(proxied).toHaveLength(0)
+    expect(fallback).toHaveBeenCalledOnce()
+  })
+  it('routes a redirect afresh, sending NO_PROXY targets directly', async () => {
+    const direct: string[] = []
+    const fallback: HttpTransport = async url => {
+      direct.push(url)
+      throw new Error('sent directly')
+    }
+    const transport = createProxyTransport(
+      { noProxy: 'direct.example.test', proxy: proxyUrl },
+      fallback,
+    )
+
+    await expect(
+      transport('http://api.example.test/v0/moved', {}),
+    ).rejects.toThrow('sent directly')
+    expect(proxied.map(p => p.url)).toEqual([
+      'http://api.example.test/v0/moved',
+    ])
+    expect(direct).toEqual(['http://direct.example.test/v0/quota'])
+  })
+
+  it('does not follow a redirect whose streamed body was already sent', async () => {
+    const fallback = vi.fn<HttpTransport>()
+    const transport = createProxyTransport({ proxy: proxyUrl }, fallback)
+
+    const res = await transport('http://api.example.test/v0/moved', {
+      body: Readable.from(['{}']),
+      method: 'POST',
+    })
+
+    expect(res.status).toBe(307)
+    expect(proxied).toHaveLength(1)
+    expect(fallback).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * @file Tests for the opt-in quota guard: blocking and notifying below the
+ *   floor, local charging of completed calls, reservations for concurrent
+ *   calls, and failing open when the quota cannot be fetched.
+ */
+import nock from 'nock'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  QuotaExceededError,
+  SocketRateLimitError,
+  SocketSdk,
+} from '../../../src/index.mts'
+import { QuotaGuard } from '../../../src/utils/quota-guard.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { QuotaLowInfo } from '../../../src/index.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('SocketSdk quotaGuard', () => {
+  setupTestEnvironment()
+
+  it('blocks a call that would go below the floor', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(200, { quota: 25 })
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+    const lows: QuotaLowInfo[] = []
+    const client = new SocketSdk('test-token', {
+      hooks: { onQuotaLow: info => lows.push(info) },
+      quotaGuard: { floor: 10 },
+      retries: 0,
+    })
+
+    const first = await client.getOrgAnalytics('7d')
+    const second = await client.getOrgAnalytics('7d')
+
+    expect(first.success).toBe(true)
+    expect(second).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      details: { cost: 10, floor: 10, remaining: 15 },
+      status: 0,
+      success: false,
+    })
+    expect(lows).toEqual([
+      {
+        blocked: true,
+        cost: 10,
+        floor: 10,
+        methodName: 'getOrgAnalytics',
+        remaining: 15,
+      },
+    ])
+  })
+
+  it('sends the call anyway in notify mode', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(200, { quota: 5 })
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+    const lows: QuotaLowInfo[] = []
+    const client = new SocketSdk('test-token', {
+      hooks: { onQuotaLow: info => lows.push(info) },
+      quotaGuard: { floor: 0, onLow: 'notify' },
+      retries: 0,
+    })
+
+    const result = await client.getOrgAnalytics('7d')
+
+    expect(result.success).toBe(true)
+    expect(lows).toMatchObject([{ blocked: false, remaining: 5 }])
+  })
+
+  it('does not charge calls the API rejected', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(200, { quota: 20 })
+      .get('/v0/analytics/org/bogus')
+      .reply(400, { error: { message: 'Invalid time' } })
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+    const client = new SocketSdk('test-token', {
+      quotaGuard: { floor: 10 },
+      retries: 0,
+    })
+
+    await client.getOrgAnalytics('bogus')
+    const charged = await client.getOrgAnalytics('7d')
+    const blocked = await client.getOrgAnalytics('7d')
+
+    expect(charged.success).toBe(true)
+    expect(blocked).toMatchObject({ code: 'QUOTA_EXCEEDED', success: false })
+  })
+
+  it('reserves the cost of calls in flight', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(200, { quota: 25 })
+      .get('/v0/analytics/org/7d')
+      .reply(200, [])
+    const client = new SocketSdk('test-token', {
+      quotaGuard: { floor: 10 },
+      retries: 0,
+    })
+
+    // Different arguments, so the calls do not share one request.
+    const results = await Promise.all([
+      client.getOrgAnalytics('7d'),
+      client.getOrgAnalytics('30d'),
+    ])
+
+    expect(results.map(r => r.success)).toEqual([true, false])
+  })
+
+  it('fetches the quota past a cached getQuota result', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(200, { quota: 1000 })
+      .get('/v0/quota')
+      .reply(200, { quota: 5 })
+    const client = new SocketSdk('test-token', {
+      cache: true,
+      quotaGuard: { floor: 0 },
+      retries: 0,
+    })
+
+    await client.getQuota()
+    const blocked = await client.getOrgAnalytics('7d')
+
+    expect(blocked).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      details: { remaining: 5 },
+      success: false,
+    })
+  })
+
+  it('lets calls through while the quota cannot be fetched', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(401, { error: { message: 'Unauthorized' } })
+      .get('/v0/analytics/org/7d')
+      .times(2)
+      .reply(200, [])
+    const client = new SocketSdk('test-token', {
+      quotaGuard: { floor: 0 },
+      retries: 0,
+    })
+
+    const results = [
+      await client.getOrgAnalytics('7d'),
+      await client.getOrgAnalytics('7d'),
+    ]
+
+    // One failed fetch: the second call does not try again right away.
+    expect(results.map(r => r.success)).toEqual([true, true])
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('fetches the quota again once the retry delay has passed', async () => {
+    const clock = { now: 0 }
+    const fetchRemaining = vi
+      .fn<() => Promise<number>>()
+      .mockRejectedValueOnce(new Error('unavailable'))
+      .mockResolvedValue(0)
+    const guard = new QuotaGuard({ fetchRemaining, now: () => clock.now })
+
+    await guard.reserve('getOrgAnalytics')
+    clock.now = 29_999
+    await guard.reserve('getOrgAnalytics')
+    expect(fetchRemaining).toHaveBeenCalledTimes(1)
+
+    clock.now = 30_000
+    await expect(guard.reserve('getOrgAnalytics')).rejects.toBeInstanceOf(
+      QuotaExceededError,
+    )
+    expect(fetchRemaining).toHaveBeenCalledTimes(2)
+  })
+
+  it('throws SocketRateLimitError in throw mode', async () => {
+    nock(BASE).get('/v0/quota').reply(200, { quota: 50 })
+    const client = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      quotaGuard: { floor: 0 },
+      retries: 0,
+    })
+
+    const error = await client
+      .batchPackageFetch({ components: [{ purl: 'pkg:npm/a@1.0.0' }] })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(SocketRateLimitError)
+    expect(error).toMatchObject({ code: 'QUOTA_EXCEEDED', status: 0 })
+    expect((error as SocketRateLimitError).cause).toBeInstanceOf(
+      QuotaExceededError,
+    )
+  })
+
+  it('rejects a negative floor', () => {
+    expect(
+      () => new SocketSdk('test-token', { quotaGuard: { floor: -1 } }),
+    ).toThrow('"floor" must be a non-negative number')
+  })
+})
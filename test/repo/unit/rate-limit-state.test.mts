@@ -0,0 +1,125 @@
+/**
+ * @file Tests for rate-limit state tracking: header parsing in
+ *   `updateRateLimitState` and `getRateLimitState` across buffered, retried
+ *   and streamed requests.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk, collectAll } from '../../../src/index.mts'
+import { updateRateLimitState } from '../../../src/utils/rate-limit-state.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+const NOW = 1_800_000_000_000
+
+describe('updateRateLimitState', () => {
+  it('reads rate-limit, retry-after and quota headers', () => {
+    expect(
+      updateRateLimitState(
+        {},
+        {
+          'retry-after': '3',
+          'x-quota-limit': '1000',
+          'x-quota-remaining': '250',
+          'x-ratelimit-limit': '600',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': '30',
+        },
+        NOW,
+      ),
+    ).toEqual({
+      limit: 600,
+      quotaLimit: 1000,
+      quotaRemaining: 250,
+      remaining: 0,
+      resetAt: NOW + 30_000,
+      retryAt: NOW + 3000,
+      updatedAt: NOW,
+    })
+  })
+
+  it('treats large reset values and HTTP-date Retry-After as absolute', () => {
+    const state = updateRateLimitState(
+      {},
+      {
+        'ratelimit-reset': '1800000060',
+        'retry-after': 'Fri, 15 Jan 2027 08:00:00 GMT',
+      },
+      NOW,
+    )
+
+    expect(state.resetAt).toBe(1_800_000_060_000)
+    expect(state.retryAt).toBe(Date.parse('Fri, 15 Jan 2027 08:00:00 GMT'))
+  })
+
+  it('keeps fields the response does not report', () => {
+    const previous = { limit: 600, quotaRemaining: 40, remaining: 12 }
+
+    expect(
+      updateRateLimitState(previous, { 'x-ratelimit-remaining': '11' }, NOW),
+    ).toEqual({
+      limit: 600,
+      quotaRemaining: 40,
+      remaining: 11,
+      updatedAt: NOW,
+    })
+  })
+})
+
+describe('SocketSdk.getRateLimitState', () => {
+  setupTestEnvironment()
+
+  it('is empty before the first response', () => {
+    expect(new SocketSdk('test-token').getRateLimitState()).toEqual({})
+  })
+
+  it('tracks the latest response, failed attempts included', async () => {
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(
+        429,
+        { error: { message: 'Too many requests' } },
+        { 'Retry-After': '0', 'X-RateLimit-Remaining': '0' },
+      )
+      .get('/v0/quota')
+      .reply(200, { quota: 100 }, { 'X-RateLimit-Remaining': '59' })
+    const client = new SocketSdk('test-token', { retries: 1, retryDelay: 1 })
+
+    await client.getQuota()
+
+    const state = client.getRateLimitState()
+    expect(state.remaining).toBe(59)
+    expect(state.retryAt).toEqual(expect.any(Number))
+    expect(state.updatedAt).toEqual(expect.any(Number))
+  })
+
+  it('is updated by streamed batch requests', async () => {
+    nock(BASE)
+      .post('/v0/purl')
+      .query(true)
+      .reply(200, `${JSON.stringify({ purl: 'pkg:npm/a@1.0.0' })}\n`, {
+        'X-RateLimit-Limit': '100',
+        'X-RateLimit-Remaining': '99',
+      })
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    await collectAll(
+      client.batchPackageStream({ components: [{ purl: 'pkg:npm/a@1.0.0' }] }),
+    )
+
+    expect(client.getRateLimitState()).toMatchObject({
+      limit: 100,
+      remaining: 99,
+    })
+  })
+
+  it('returns a copy', () => {
+    const client = new SocketSdk('test-token')
+    const state = client.getRateLimitState()
+    state.remaining = 5
+
+    expect(client.getRateLimitState()).toEqual({})
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * @file Tests for the token-bucket rate limiter and its integration with
+ *   `SocketSdk` via the `rateLimiter` option.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import { RateLimiter } from '../../../src/utils/rate-limiter.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { RateLimiterOptions } from '../../../src/utils/rate-limiter.mts'
+
+// Limiter on a fake clock: sleeping advances the clock and records the wait.
+function createLimiter(options: RateLimiterOptions) {
+  const clock = { now: 0 }
+  const waits: number[] = []
+  const limiter = new RateLimiter({
+    ...options,
+    now: () => clock.now,
+    sleep: async ms => {
+      waits.push(ms)
+      clock.now += ms
+    },
+  })
+  return { clock, limiter, waits }
+}
+
+describe('RateLimiter', () => {
+  it('allows a burst of requestsPerSecond, then paces the rest', async () => {
+    const { clock, limiter, waits } = createLimiter({ requestsPerSecond: 2 })
+
+    await limiter.acquire()
+    await limiter.acquire()
+    expect(waits).toEqual([])
+
+    await limiter.acquire()
+    expect(waits).toEqual([500])
+    expect(clock.now).toBe(500)
+  })
+
+  it('charges quota costs against the quota window', async () => {
+    const { clock, limiter, waits } = createLimiter({
+      quotaUnits: 100,
+      quotaWindowMs: 1000,
+    })
+
+    await limiter.acquire(60)
+    await limiter.acquire(0)
+    expect(waits).toEqual([])
+
+    await limiter.acquire(60)
+    // 20 units short at 0.1 units/ms.
+    expect(waits).toEqual([200])
+    expect(clock.now).toBe(200)
+  })
+
+  it('caps costs above the window budget instead of waiting forever', async () => {
+    const { limiter, waits } = createLimiter({
+      quotaUnits: 10,
+      quotaWindowMs: 1000,
+    })
+
+    await limiter.acquire(100)
+    await limiter.acquire(100)
+
+    expect(waits).toEqual([1000])
+  })
+
+  it('serves waiters in call order', async () => {
+    const { limiter } = createLimiter({ quotaUnits: 10, quotaWindowMs: 1000 })
+    const order: string[] = []
+
+    await Promise.all([
+      limiter.acquire(10).then(() => order.push('first')),
+      limiter.acquire(10).then(() => order.push('second')),
+      limiter.acquire(0).then(() => order.push('free')),
+    ])
+
+    expect(order).toEqual(['first', 'second', 'free'])
+  })
+
+  it('drops a waiter whose signal aborts without charging it', async () => {
+    const { limiter } = createLimiter({ quotaUnits: 10, quotaWindowMs: 1000 })
+    const controller = new AbortController()
+    const order: string[] = []
+
+    await limiter.acquire(10)
+    const aborted = limiter.acquire(10, controller.signal)
+    const next = limiter.acquire(10).then(() => order.push('next'))
+    controller.abort()
+
+    await expect(aborted).rejects.toThrow('This operation was aborted')
+    await next
+    expect(order).toEqual(['next'])
+  })
+
+  it('rejects at once when the signal already aborted', async () => {
+    const { limiter, waits } = createLimiter({ requestsPerSecond: 1 })
+
+    await expect(limiter.acquire(0, AbortSignal.abort())).rejects.toThrow()
+    await limiter.acquire()
+    expect(waits).toEqual([])
+  })
+
+  it('rejects non-positive limits', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(
+      '"requestsPerSecond" must be a positive number',
+    )
+    expect(() => new RateLimiter({ quotaUnits: -1 })).toThrow(TypeError)
+    expect(
+      () => new RateLimiter({ quotaUnits: 10, quotaWindowMs: Number.NaN }),
+    ).toThrow(TypeError)
+  })
+})
+
+describe('SocketSdk rateLimiter option', () => {
+  setupTestEnvironment()
+
+  it('charges each method its quota cost and shares one limiter across instances', async () => {
+    const costs: number[] = []
+    const limiter = new RateLimiter({ quotaUnits: 1000 })
+    const acquire = limiter.acquire.bind(limiter)
+    limiter.acquire = async (cost?: number) => {
+      costs.push(cost ?? 0)
+      await acquire(cost)
+    }
+    nock('https://api.socket.dev')
+      .get('/v0/npm/lodash/4.17.21/score')
+      .reply(200, {})
+      .get('/v0/quota')
+      .reply(200, { quota: 1000 })
+    const first = new SocketSdk('token-a', { rateLimiter: limiter })
+    const second = new SocketSdk('token-b', { rateLimiter: limiter })
+
+    await first.getScoreByNpmPackage('lodash', '4.17.21')
+    await second.getQuota()
+
+    expect(costs).toEqual([10, 0])
+    expect(nock.isDone()).toBe(true)
+  })
+
+  it('waits for the limiter on every retry attempt, charging quota once', async () => {
+    const costs: number[] = []
+    nock('https://api.socket.dev')
+      .get('/v0/npm/lodash/4.17.21/score')
+      .reply(503)
+      .get('/v0/npm/lodash/4.17.21/score')
+      .reply(200, {})
+    const limiter = new RateLimiter({ requestsPerSecond: 100 })
+    const acquire = limiter.acquire.bind(limiter)
+    limiter.acquire = async (cost?: number) => {
+      costs.push(cost ?? 0)
+      await acquire(cost)
+    }
+    const client = new SocketSdk('test-token', {
+      rateLimiter: limiter,
+      retries: 1,
+      retryDelay: 1,
+    })
+
+    const result = await client.getScoreByNpmPackage('lodash', '4.17.21')
+
+    expect(result.success).toBe(true)
+    expect(costs).toEqual([10, 0])
+  })
+
+  it("stops waiting for the limiter when the call's signal aborts", async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/npm/lodash/4.17.21/score')
+      .reply(200, {})
+    const client = new SocketSdk('test-token', {
+      rateLimiter: { quotaUnits: 10, quotaWindowMs: 2000 },
+      retries: 0,
+    })
+    await client.getScoreByNpmPackage('lodash', '4.17.21')
+
+    const start = Date.now()
+    const result = await client.getScoreByNpmPackage('lodash', '4.17.21', {
+      signal: AbortSignal.timeout(20),
+    })
+
+    expect(result).toMatchObject({ code: 'ABORTED', success: false })
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+
+  it('builds a private limiter from plain options', async () => {
+    nock('https://api.socket.dev')
+      .get('/v0/quota')
+      .times(2)
+      .reply(200, { quota: 1000 })
+    const client = new SocketSdk('test-token', {
+      rateLimiter: { requestsPerSecond: 20 },
+    })
+
+    const start = Date.now()
+    await client.getQuota()
+    await client.getQuota()
+
+    // Burst capacity of 20 lets both through without pacing.
+    expect(Date.now() - start).toBeLessThan(1000)
+    expect(nock.isDone()).toBe(true)
+  })
+})
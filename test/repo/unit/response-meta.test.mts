@@ -0,0 +1,154 @@
+/**
+ * @file Tests for response metadata: header parsing, `meta` on success and
+ *   error results and in `hooks.onResponse`, and the `correlationId` option
+ *   and call option.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketApiError, SocketSdk } from '../../../src/index.mts'
+import { getResponseMeta } from '../../../src/utils/response-meta.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { ResponseInfo } from '../../../src/index.mts'
+
+const BASE = 'https://api.socket.dev'
+
+const META_HEADERS = {
+  Deprecation: '@1767225600',
+  'Server-Timing': 'db;dur=12, app;dur=40',
+  Sunset: 'Wed, 01 Jul 2026 00:00:00 GMT',
+  'X-RateLimit-Limit': '600',
+  'X-RateLimit-Remaining': '598',
+  'X-RateLimit-Reset': '42',
+  'X-Request-Id': 'req-123',
+}
+
+describe('getResponseMeta', () => {
+  it('collects request id, rate-limit, deprecation and timing headers', () => {
+    expect(
+      getResponseMeta(
+        {
+          deprecation: 'true',
+          'ratelimit-remaining': '7',
+          'server-timing': 'app;dur=5',
+          'x-ratelimit-limit': '10',
+          'x-request-id': ['req-1', 'req-2'],
+        },
+        15,
+        'corr-1',
+      ),
+    ).toEqual({
+      correlationId: 'corr-1',
+      deprecation: 'true',
+      durationMs: 15,
+      rateLimit: { limit: 10, remaining: 7 },
+      requestId: 'req-1',
+      serverTiming: 'app;dur=5',
+    })
+  })
+
+  it('leaves out fields whose header is absent or malformed', () => {
+    expect(getResponseMeta({ 'x-ratelimit-limit': 'soon' })).toEqual({})
+    expect(getResponseMeta(undefined)).toEqual({})
+  })
+})
+
+describe('result meta', () => {
+  setupTestEnvironment()
+
+  it('attaches response metadata to success results', async () => {
+    nock(BASE).get('/v0/quota').reply(200, { quota: 1000 }, META_HEADERS)
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const result = await client.getQuota()
+
+    expect(result.success).toBe(true)
+    expect(result.meta).toMatchObject({
+      deprecation: '@1767225600',
+      rateLimit: { limit: 600, remaining: 598, reset: 42 },
+      requestId: 'req-123',
+      serverTiming: 'db;dur=12, app;dur=40',
+      sunset: 'Wed, 01 Jul 2026 00:00:00 GMT',
+    })
+    expect(result.meta?.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('attaches the metadata of the last attempt to error results', async () => {
+    nock(BASE)
+      .get('/v0/orgs/test-org/repos/missing')
+      .reply(404, { error: { message: 'Not found' } }, META_HEADERS)
+    nock(BASE)
+      .get('/v0/quota')
+      .reply(401, { error: { message: 'Bad token' } }, META_HEADERS)
+    const client = new SocketSdk('test-token', { retries: 0 })
+    const throwing = new SocketSdk('test-token', {
+      errorMode: 'throw',
+      retries: 0,
+    })
+
+    const result = await client.getRepository('test-org', 'missing')
+    const error = await throwing.getQuota().catch(e => e)
+
+    expect(result.success).toBe(false)
+    expect(result.meta?.requestId).toBe('req-123')
+    expect(error).toBeInstanceOf(SocketApiError)
+    expect(error.meta.requestId).toBe('req-123')
+  })
+
+  it('passes metadata to hooks.onResponse', async () => {
+    const responses: ResponseInfo[] = []
+    nock(BASE).get('/v0/quota').reply(200, { quota: 1000 }, META_HEADERS)
+    const client = new SocketSdk('test-token', {
+      hooks: { onResponse: info => responses.push(info) },
+      retries: 0,
+    })
+
+    await client.getQuota()
+
+    expect(responses).toHaveLength(1)
+    expect(responses[0]!.meta).toMatchObject({
+      rateLimit: { remaining: 598 },
+      requestId: 'req-123',
+    })
+  })
+})
+
+describe('correlationId option', () => {
+  setupTestEnvironment()
+
+  it('sends one generated id per call, reused by its retries', async () => {
+    const seen: string[] = []
+    let next = 0
+    nock(BASE)
+      .get('/v0/quota')
+      .times(3)
+      .reply(function () {
+        seen.push(this.req.headers['x-correlation-id'] as string)
+        return seen.length === 2 ? [503, 'unavailable'] : [200, { quota: 1 }]
+      })
+    const client = new SocketSdk('test-token', {
+      correlationId: () => `corr-${(next += 1)}`,
+      retries: 1,
+      retryDelay: 1,
+    })
+
+    const first = await client.getQuota()
+    const second = await client.getQuota()
+
+    expect(seen).toEqual(['corr-1', 'corr-2', 'corr-2'])
+    expect(first.meta?.correlationId).toBe('corr-1')
+    expect(second.meta?.correlationId).toBe('corr-2')
+  })
+
+  it('lets a call override the configured id', async () => {
+    nock(BASE, { reqheaders: { 'x-correlation-id': 'job-42' } })
+      .get('/v0/quota')
+      .reply(200, { quota: 1 })
+    const client = new SocketSdk('test-token', { correlationId: 'default' })
+
+    const result = await client.getQuota({ correlationId: 'job-42' })
+
+    expect(result.success).toBe(true)
+  })
+})
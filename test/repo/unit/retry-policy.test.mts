@@ -0,0 +1,172 @@
+/**
+ * @file Tests for the `retryPolicy` option: delay computation and jitter
+ *   modes, retryable statuses and network error codes, per-method overrides
+ *   and the `onRetry` hook.
+ */
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import {
+  computeRetryDelay,
+  getErrorCode,
+} from '../../../src/utils/retry-policy.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+import { fakeResponse } from '../../utils/fake-response.mts'
+
+import type { HttpTransport, RetryInfo } from '../../../src/index.mts'
+
+// Transport that fails with `failures` in order, then answers 200.
+function failingTransport(failures: Array<Error | number>): {
+  calls: () => number
+  transport: HttpTransport
+} {
+  let calls = 0
+  return {
+    calls: () => calls,
+    transport: async () => {
+      const failure = failures[calls]
+      calls += 1
+      if (failure instanceof Error) {
+        throw failure
+      }
+      return failure === undefined
+        ? fakeResponse(200, '{"quota":1000}')
+        : fakeResponse(failure, '{"error":{"message":"failed"}}')
+    },
+  }
+}
+
+function networkError(code: string): Error {
+  const cause = Object.assign(new Error(`connect ${code}`), { code })
+  return new Error(`GET request failed: ${code}`, { cause })
+}
+
+describe('computeRetryDelay', () => {
+  it('doubles the base delay up to the cap without jitter', () => {
+    expect(computeRetryDelay('none', 1, 100, 1000, 100)).toBe(100)
+    expect(computeRetryDelay('none', 3, 100, 1000, 200)).toBe(400)
+    expect(computeRetryDelay('none', 10, 100, 1000, 800)).toBe(1000)
+  })
+
+  it('keeps full and decorrelated jitter within their bounds', () => {
+    for (let i = 0; i < 50; i += 1) {
+      const full = computeRetryDelay('full', 3, 100, 1000, 0)
+      expect(full).toBeGreaterThanOrEqual(0)
+      expect(full).toBeLessThanOrEqual(400)
+      const decorrelated = computeRetryDelay('decorrelated', 2, 100, 500, 300)
+      expect(decorrelated).toBeGreaterThanOrEqual(100)
+      expect(decorrelated).toBeLessThanOrEqual(500)
+    }
+  })
+})
+
+describe('getErrorCode', () => {
+  it('reads the code from the cause chain and maps timeouts', () => {
+    expect(getErrorCode(networkError('ECONNRESET'))).toBe('ECONNRESET')
+    expect(
+      getErrorCode(new Error('GET request timed out after 5000ms: https://x')),
+    ).toBe('ETIMEDOUT')
+    expect(getErrorCode(new Error('boom'))).toBeUndefined()
+    expect(getErrorCode('not an error')).toBeUndefined()
+  })
+})
+
+describe('retryPolicy option', () => {
+  setupTestEnvironment()
+
+  it('retries only the listed statuses and reports each retry', async () => {
+    const retries: RetryInfo[] = []
+    const { calls, transport } = failingTransport([503, 500])
+    const client = new SocketSdk('test-token', {
+      retries: 3,
+      retryPolicy: {
+        baseDelayMs: 1,
+        jitter: 'none',
+        onRetry: info => retries.push(info),
+        retryableStatuses: [503],
+      },
+      transport,
+    })
+
+    await expect(client.getQuota()).rejects.toThrow('server error (500)')
+    expect(calls()).toBe(2)
+    expect(retries).toHaveLength(1)
+    expect(retries[0]).toMatchObject({
+      attempt: 1,
+      delayMs: 1,
+      methodName: 'getQuota',
+      status: 503,
+    })
+  })
+
+  it('retries only the listed network error codes', async () => {
+    const { calls, transport } = failingTransport([
+      networkError('ECONNRESET'),
+      networkError('ENOTFOUND'),
+    ])
+    const client = new SocketSdk('test-token', {
+      retries: 3,
+      retryPolicy: {
+        baseDelayMs: 1,
+        retryableErrorCodes: ['ECONNRESET', 'ETIMEDOUT'],
+      },
+      transport,
+    })
+
+    await expect(client.getQuota()).rejects.toThrow()
+    expect(calls()).toBe(2)
+  })
+
+  it('caps a Retry-After delay at maxDelayMs', async () => {
+    const retries: RetryInfo[] = []
+    let calls = 0
+    const client = new SocketSdk('test-token', {
+      retries: 1,
+      retryPolicy: {
+        maxDelayMs: 5,
+        onRetry: info => retries.push(info),
+      },
+      transport: async () => {
+        calls += 1
+        return calls === 1
+          ? {
+              ...fakeResponse(429, '{"error":{"message":"slow down"}}'),
+              headers: { 'retry-after': '60' },
+            }
+          : fakeResponse(200, '{"quota":1000}')
+      },
+    })
+
+    const result = await client.getQuota()
+
+    expect(result.success).toBe(true)
+    expect(retries[0]!.delayMs).toBe(5)
+  })
+
+  it('applies per-method overrides over the shared policy', async () => {
+    const shared = failingTransport([503])
+    const overridden = failingTransport([503])
+    const policy = {
+      baseDelayMs: 1,
+      methods: { getQuota: { retries: 0 } },
+      retries: 2,
+    }
+    const sharedClient = new SocketSdk('test-token', {
+      retryPolicy: policy,
+      transport: shared.transport,
+    })
+    const overriddenClient = new SocketSdk('test-token', {
+      retryPolicy: policy,
+      transport: overridden.transport,
+    })
+
+    const analytics = await sharedClient.getOrgAnalytics('7d')
+
+    expect(analytics.success).toBe(true)
+    expect(shared.calls()).toBe(2)
+    await expect(overriddenClient.getQuota()).rejects.toThrow(
+      'server error (503)',
+    )
+    expect(overridden.calls()).toBe(1)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * @file Tests for single-flight coalescing: concurrent identical GETs and
+ *   cached-scan polls share one request and receive the same result.
+ */
+import nock from 'nock'
+import { describe, expect, it } from 'vitest'
+
+import { SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+describe('single-flight GETs', () => {
+  setupTestEnvironment()
+
+  it('shares one request between concurrent identical calls', async () => {
+    let requests = 0
+    nock(BASE)
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .times(2)
+      .reply(() => {
+        requests += 1
+        return [200, { securityPolicyRules: {} }]
+      })
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const results = await Promise.all([
+      client.getOrgSecurityPolicy('test-org'),
+      client.getOrgSecurityPolicy('test-org'),
+      client.getOrgSecurityPolicy('test-org'),
+    ])
+    expect(requests).toBe(1)
+    expect(results.every(r => r.success)).toBe(true)
+    expect(results[1]!.data).toBe(results[0]!.data)
+
+    // Once settled, the next call sends a fresh request.
+    await client.getOrgSecurityPolicy('test-org')
+    expect(requests).toBe(2)
+  })
+
+  it('shares one poll loop between concurrent getFullScan calls', async () => {
+    let requests = 0
+    nock(BASE)
+      .get('/v0/orgs/test-org/full-scans/scan-1?cached=true')
+      .times(2)
+      .reply(() => {
+        requests += 1
+        return requests === 1
+          ? [202, { id: 'scan-1', status: 'processing' }]
+          : [200, { id: 'scan-1' }]
+      })
+    const client = new SocketSdk('test-token', {
+      pollIntervalMs: 5,
+      retries: 0,
+    })
+
+    const [first, second] = await Promise.all([
+      client.getFullScan('test-org', 'scan-1'),
+      client.getFullScan('test-org', 'scan-1'),
+    ])
+
+    expect(requests).toBe(2)
+    expect(first.success && first.data.id).toBe('scan-1')
+    expect(second.data).toBe(first.data)
+  })
+
+  it('shares failures with every waiting caller', async () => {
+    nock(BASE)
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .reply(404, { error: { message: 'Organization not found' } })
+    const client = new SocketSdk('test-token', { retries: 0 })
+
+    const results = await Promise.all([
+      client.getOrgSecurityPolicy('test-org'),
+      client.getOrgSecurityPolicy('test-org'),
+    ])
+
+    expect(results.map(r => r.status)).toEqual([404, 404])
+  })
+
+  it('does not share calls that carry their own signal', async () => {
+    let requests = 0
+    nock(BASE)
+      .get('/v0/orgs/test-org/settings/security-policy')
+      .times(2)
+      .reply(() => {
+        requests += 1
+        return [200, { securityPolicyRules: {} }]
+      })
+    const client = new SocketSdk('test-token', { retries: 0 })
+    const { signal } = new AbortController()
+
+    await Promise.all([
+      client.getOrgSecurityPolicy('test-org'),
+      client.getOrgSecurityPolicy('test-org', { signal }),
+    ])
+
+    expect(requests).toBe(2)
+  })
+})
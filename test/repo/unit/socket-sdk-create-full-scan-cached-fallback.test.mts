@@ -5,7 +5,8 @@
  *   v0 multipart upload: unsupported query params, a skipped/unrepresentable
  *   manifest path, an unexpected throw during manifest assembly, a 202 with no
  *   local match, a failed blob upload, and retry exhaustion with no progress or
- *   with shrinking-but-never-201 progress. Happy-path tests live in
+ *   with shrinking-but-never-201 progress — and the one case that must not
+ *   fall back, an aborted call. Happy-path tests live in
  *   `socket-sdk-create-full-scan-cached.test.mts`; v1-body param normalization
  *   lives in `socket-sdk-create-full-scan-cached-params.test.mts`.
  */
@@ -24,6 +25,7 @@ import {
 } from '../../utils/environment.mts'
 import {
   buildV0Body,
+  buildV1CreatedBody,
   FILE_CONTENT,
 } from '../../utils/full-scan-v1-fixtures.mts'
 import { safeDelete, safeDeleteSync } from '@socketsecurity/lib-stable/fs/safe'
@@ -300,4 +302,37 @@ describe('SocketSdk#createFullScan cache-aware v1 path — fallback reasons', ()
     }
     expect(fullScanCallCount).toBe(3)
   })
+
+  it('sends no v0 upload when the call is aborted during the v1 flow', async () => {
+    nock('https://api.socket.dev')
+      .post('/v1/orgs/test-org/full-scans')
+      .delay(1000)
+      .reply(201, buildV1CreatedBody())
+    let v0Sent = false
+    nock('https://api.socket.dev')
+      .post('/v0/orgs/test-org/full-scans')
+      .query({ repo: 'test-repo' })
+      .optionally()
+      .reply(() => {
+        v0Sent = true
+        return [200, buildV0Body()]
+      })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 20)
+
+    const client = createTestClient('test-api-token', { retries: 0 })
+    const result = await client.createFullScan(
+      'test-org',
+      [filePath],
+      { pathsRelativeTo: tempDir, repo: 'test-repo' },
+      { signal: controller.signal },
+    )
+
+    expect(result).toMatchObject({
+      code: 'ABORTED',
+      status: 0,
+      success: false,
+    })
+    expect(v0Sent).toBe(false)
+  })
 })
@@ -78,6 +78,24 @@ describe('SocketSdk#createFullScan cache-aware v1 path', () => {
     }
   })
 
+  it("sends the caller's Idempotency-Key on the v1 POST", async () => {
+    nock('https://api.socket.dev', {
+      reqheaders: { 'idempotency-key': 'scan-key-1' },
+    })
+      .post('/v1/orgs/test-org/full-scans')
+      .reply(201, buildV1CreatedBody())
+
+    const client = createTestClient('test-api-token', { retries: 0 })
+    const result = await client.createFullScan(
+      'test-org',
+      [filePath],
+      { pathsRelativeTo: tempDir, repo: 'test-repo' },
+      { idempotencyKey: 'scan-key-1' },
+    )
+
+    expect(result.success).toBe(true)
+  })
+
   it('emits exactly the v0 CreateOrgFullScan key set on the transparent v1 success path', async () => {
     nock('https://api.socket.dev')
       .post('/v1/orgs/test-org/full-scans')
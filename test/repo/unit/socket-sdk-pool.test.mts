@@ -0,0 +1,143 @@
+/**
+ * @file Tests for `SocketSdkPool`: routing org-scoped methods to each
+ *   organization's client and token, lazy token resolution, and the shared
+ *   cache and options.
+ */
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+import nock from 'nock'
+import { describe, expect, it, vi } from 'vitest'
+
+import { SocketSdk, SocketSdkPool, collectAll } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+const BASE = 'https://api.socket.dev'
+
+function basicAuth(token: string): string {
+  return `Basic ${btoa(`${token}:`)}`
+}
+
+describe('SocketSdkPool', () => {
+  setupTestEnvironment()
+
+  it("routes org-scoped methods to the organization's token", async () => {
+    nock(BASE, { reqheaders: { authorization: basicAuth('token-a') } })
+      .get('/v0/orgs/org-a/settings/security-policy')
+      .reply(200, { securityPolicyRules: {} })
+    nock(BASE, { reqheaders: { authorization: basicAuth('token-b') } })
+      .get('/v0/orgs/org-b/settings/security-policy')
+      .reply(200, { securityPolicyRules: {} })
+    const pool = new SocketSdkPool(
+      { 'org-a': 'token-a', 'org-b': async () => 'token-b' },
+      { retries: 0 },
+    )
+
+    const [a, b] = await Promise.all([
+      pool.getOrgSecurityPolicy('org-a'),
+      pool.getOrgSecurityPolicy('org-b'),
+    ])
+
+    expect(a.success).toBe(true)
+    expect(b.success).toBe(true)
+    expect(pool.orgSlugs).toEqual(['org-a', 'org-b'])
+  })
+
+  it('routes iterator methods', async () => {
+    nock(BASE, { reqheaders: { authorization: basicAuth('token-a') } })
+      .get('/v0/orgs/org-a/repos')
+      .query(true)
+      .reply(200, { nextPage: null, results: [{ slug: 'repo-1' }] })
+    const pool = new SocketSdkPool({ 'org-a': 'token-a' }, { retries: 0 })
+
+    const repos = await collectAll(pool.iterateRepositories('org-a'))
+
+    expect(repos).toEqual([{ slug: 'repo-1' }])
+  })
+
+  it('creates one client per organization on first use', async () => {
+    const provider = vi.fn(async () => 'token-a')
+    const pool = new SocketSdkPool({ 'org-a': provider })
+
+    expect(provider).not.toHaveBeenCalled()
+    const [first, second] = await Promise.all([
+      pool.forOrg('org-a'),
+      pool.forOrg('org-a'),
+    ])
+
+    expect(first).toBeInstanceOf(SocketSdk)
+    expect(second).toBe(first)
+    expect(provider).toHaveBeenCalledTimes(1)
+  })
+
+  it('resolves the token again after the provider failed', async () => {
+    const provider = vi
+      .fn<() => string>()
+      .mockImplementationOnce(() => {
+        throw new Error('vault unavailable')
+      })
+      .mockReturnValue('token-a')
+    const pool = new SocketSdkPool({ 'org-a': provider })
+
+    await expect(pool.forOrg('org-a')).rejects.toThrow('vault unavailable')
+    await expect(pool.forOrg('org-a')).resolves.toBeInstanceOf(SocketSdk)
+    expect(provider).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects calls for an organization without a token', async () => {
+    const pool = new SocketSdkPool({ 'org-a': 'token-a' })
+
+    await expect(pool.getOrgSecurityPolicy('org-z')).rejects.toThrow(
+      'No API token for organization "org-z"',
+    )
+  })
+
+  it('shares one cache between clients with cache enabled', async () => {
+    nock(BASE, { reqheaders: { authorization: basicAuth('token-a') } })
+      .get('/v0/quota')
+      .reply(200, { quota: 1 })
+    nock(BASE, { reqheaders: { authorization: basicAuth('token-b') } })
+      .get('/v0/quota')
+      .reply(200, { quota: 2 })
+    const pool = new SocketSdkPool(
+      { 'org-a': 'token-a', 'org-b': 'token-b' },
+      { cache: true, retries: 0 },
+    )
+    const a = await pool.forOrg('org-a')
+    const b = await pool.forOrg('org-b')
+
+    await a.getQuota()
+    await b.getQuota()
+
+    // Served from the shared store, each under its own token.
+    expect(await a.getQuota()).toMatchObject({ data: { quota: 1 } })
+    expect(await b.getQuota()).toMatchObject({ data: { quota: 2 } })
+  })
+
+  it('validates the token map', () => {
+    expect(
+      () => new SocketSdkPool({ 'org-a': 42 as unknown as string }),
+    ).toThrow('Token for "org-a" must be a string or a function')
+  })
+
+  it('routes every SocketSdk method whose first parameter is orgSlug', () => {
+    const source = readFileSync(
+      path.join(__dirname, '../../../src/socket-sdk-class.mts'),
+      'utf8',
+    )
+    const orgScoped = [
+      ...source.matchAll(
+        /\n {2}(?:async \*?)?([a-z]\w*)(?:<[^>]*>)?\(\n {4}orgSlug: string/g,
+      ),
+    ]
+      .map(match => match[1]!)
+      .sort()
+    const routed = Object.getOwnPropertyNames(SocketSdkPool.prototype)
+      .filter(name => name !== 'constructor' && name !== 'forOrg')
+      .filter(name => name !== 'orgSlugs')
+      .sort()
+
+    expect(orgScoped.length).toBeGreaterThan(0)
+    expect(routed).toEqual(orgScoped)
+  })
+})
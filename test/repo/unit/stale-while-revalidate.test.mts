@@ -0,0 +1,113 @@
+/**
+ * @file Tests for the `staleWhileRevalidate` option: stale entries served at
+ *   once and refreshed in the background, failed refreshes reported to
+ *   `onBackgroundRefreshError`, and entries past the window fetched again.
+ */
+import { mkdtempSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import nock from 'nock'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { safeDelete } from '@socketsecurity/lib/fs/safe'
+
+import { createFileCacheStore, SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+
+import type { BackgroundRefreshErrorInfo } from '../../../src/index.mts'
+
+const BASE = 'https://api.socket.dev'
+const REPOS_PATH = '/v0/orgs/test-org/repos'
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+describe('staleWhileRevalidate option', () => {
+  setupTestEnvironment()
+
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-swr-'))
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('serves a stale entry and refreshes it in the background', async () => {
+    nock(BASE)
+      .get(REPOS_PATH)
+      .query(true)
+      .reply(200, { results: [{ name: 'old' }] })
+    nock(BASE)
+      .get(REPOS_PATH)
+      .query(true)
+      .reply(200, { results: [{ name: 'new' }] })
+    const client = new SocketSdk('test-token', {
+      cacheStore: createFileCacheStore({ dir: path.join(tmpDir, 'refresh') }),
+      cacheTtl: { repositories: 500 },
+      staleWhileRevalidate: 60_000,
+    })
+
+    await client.listRepositories('test-org')
+    await sleep(550)
+    const stale = await client.listRepositories('test-org')
+    await vi.waitFor(() => expect(nock.isDone()).toBe(true))
+    await sleep(20)
+    const fresh = await client.listRepositories('test-org')
+
+    expect(stale.success && stale.data.results[0]!.name).toBe('old')
+    expect(fresh.success && fresh.data.results[0]!.name).toBe('new')
+  })
+
+  it('reports a failed refresh and keeps serving the stale entry', async () => {
+    nock(BASE)
+      .get('/v0/analytics/org/7d')
+      .reply(200, [{ total: 1 }])
+    nock(BASE)
+      .get('/v0/analytics/org/7d')
+      .reply(403, { error: { message: 'Forbidden' } })
+    const failures: BackgroundRefreshErrorInfo[] = []
+    const client = new SocketSdk('test-token', {
+      cacheStore: createFileCacheStore({ dir: path.join(tmpDir, 'failure') }),
+      cacheTtl: { analytics: 1 },
+      hooks: {
+        onBackgroundRefreshError: info => {
+          failures.push(info)
+          throw new Error('hook errors are swallowed')
+        },
+      },
+      staleWhileRevalidate: 60_000,
+    })
+
+    await client.getOrgAnalytics('7d')
+    await sleep(10)
+    const stale = await client.getOrgAnalytics('7d')
+    await vi.waitFor(() => expect(failures).toHaveLength(1))
+
+    expect(stale.success && stale.data).toEqual([{ total: 1 }])
+    expect(failures[0]).toMatchObject({
+      cacheKey: 'analytics:7d',
+      methodName: 'getOrgAnalytics',
+    })
+  })
+
+  it('waits for the API once an entry is past the window', async () => {
+    nock(BASE).get('/v0/quota').reply(200, { quota: 1 })
+    nock(BASE).get('/v0/quota').reply(200, { quota: 2 })
+    const client = new SocketSdk('test-token', {
+      cacheStore: createFileCacheStore({ dir: path.join(tmpDir, 'expired') }),
+      cacheTtl: { quota: 1 },
+      staleWhileRevalidate: 1,
+    })
+
+    await client.getQuota()
+    await sleep(10)
+    const result = await client.getQuota()
+
+    expect(result.success && result.data.quota).toBe(2)
+  })
+})
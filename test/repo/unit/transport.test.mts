@@ -0,0 +1,147 @@
+/**
+ * @file Tests for the `transport` option: every request, including streamed
+ *   and batch responses, is sent through the supplied transport.
+ */
+import { mkdtempSync, readFileSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { safeDelete } from '@socketsecurity/lib/fs/safe'
+
+import { fetchBlob, SocketSdk } from '../../../src/index.mts'
+import { setupTestEnvironment } from '../../utils/environment.mts'
+import { fakeResponse } from '../../utils/fake-response.mts'
+
+import type { HttpTransport, TransportRequest } from '../../../src/index.mts'
+import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
+
+type SentRequest = TransportRequest & { url: string }
+
+// In-memory transport answering every request with `respond(url)` and
+// recording what it was sent.
+function createFakeTransport(
+  respond: (url: string, request: TransportRequest) => HttpResponse,
+): { sent: SentRequest[]; transport: HttpTransport } {
+  const sent: SentRequest[] = []
+  return {
+    sent,
+    transport: async (url, request) => {
+      sent.push({ ...request, url })
+      return respond(url, request)
+    },
+  }
+}
+
+describe('transport option', () => {
+  setupTestEnvironment()
+
+  let tmpDir: string
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(path.join(os.tmpdir(), 'sdk-transport-'))
+  })
+
+  afterAll(async () => {
+    await safeDelete(tmpDir)
+  })
+
+  it('sends GET and POST requests with the SDK headers and options', async () => {
+    const { sent, transport } = createFakeTransport(url =>
+      url.endsWith('/quota')
+        ? fakeResponse(200, '{"quota":1000}')
+        : fakeResponse(200, '{"slug":"repo-a"}'),
+    )
+    const client = new SocketSdk('test-token', { timeout: 10_000, transport })
+
+    const quota = await client.getQuota()
+    const repo = await client.createRepository('test-org', 'repo-a')
+
+    expect(quota.success && quota.data.quota).toBe(1000)
+    expect(repo.success).toBe(true)
+    expect(sent.map(r => `${r.method} ${r.url}`)).toEqual([
+      'GET https://api.socket.dev/v0/quota',
+      'POST https://api.socket.dev/v0/orgs/test-org/repos',
+    ])
+    expect(sent[0]!.timeout).toBe(10_000)
+    expect(sent[0]!.headers?.['Authorization']).toMatch(/^Basic /)
+    expect(JSON.parse(sent[1]!.body as string)).toEqual({ name: 'repo-a' })
+  })
+
+  it('retries 5xx responses returned by the transport', async () => {
+    let calls = 0
+    const { transport } = createFakeTransport(() => {
+      calls += 1
+      return calls === 1
+        ? fakeResponse(503, 'unavailable')
+        : fakeResponse(200, '{"quota":5}')
+    })
+    const client = new SocketSdk('test-token', {
+      retries: 1,
+      retryDelay: 1,
+      transport,
+    })
+
+    const result = await client.getQuota()
+
+    expect(result.success).toBe(true)
+    expect(calls).toBe(2)
+  })
+
+  it('streams streamFullScan output from the raw response', async () => {
+    const { sent, transport } = createFakeTransport(() =>
+      fakeResponse(200, '', {
+        rawResponse: Readable.from(['{"id":', '"scan-1"}']),
+      }),
+    )
+    const client = new SocketSdk('test-token', { retries: 0, transport })
+    const output = path.join(tmpDir, 'scan.json')
+
+    const result = await client.streamFullScan('test-org', 'scan-1', {
+      output,
+    })
+
+    expect(result.success).toBe(true)
+    expect(sent[0]!.stream).toBe(true)
+    expect(readFileSync(output, 'utf8')).toBe('{"id":"scan-1"}')
+  })
+
+  it('sends batchPackageStream requests', async () => {
+    const { sent, transport } = createFakeTransport(() =>
+      fakeResponse(
+        200,
+        '{"type":"npm","name":"lodash","version":"4.17.21","alerts":[]}\n',
+      ),
+    )
+    const client = new SocketSdk('test-token', { retries: 0, transport })
+
+    const results = []
+    for await (const result of client.batchPackageStream({
+      components: [{ purl: 'pkg:npm/lodash@4.17.21' }],
+    })) {
+      results.push(result)
+    }
+
+    expect(results).toHaveLength(1)
+    expect(results[0]!.success).toBe(true)
+    expect(sent[0]!.method).toBe('POST')
+    expect(sent[0]!.url).toMatch(/^https:\/\/api\.socket\.dev\/v0\/purl\?/)
+  })
+
+  it('is used by fetchBlob', async () => {
+    const { sent, transport } = createFakeTransport(() =>
+      fakeResponse(200, 'hello'),
+    )
+
+    const result = await fetchBlob('Qabc', {
+      baseUrl: 'https://blobs.example',
+      transport,
+      verifyHash: false,
+    })
+
+    expect(result.text).toBe('hello')
+    expect(sent[0]!.url).toBe('https://blobs.example/blob/Qabc')
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * @file In-memory `HttpResponse` builder for tests that answer requests
+ *   through a fake transport instead of nock.
+ */
+import type { Readable } from 'node:stream'
+
+import type { HttpResponse } from '@socketsecurity/lib/http-request/response-types'
+
+/**
+ * An `HttpResponse` answering with `body`, for test transports that never
+ * touch the network. `rawResponse` stands in for the socket stream that
+ * streamed requests read instead of `body`.
+ */
+export function fakeResponse(
+  status: number,
+  body: string,
+  options?:
+    | {
+        headers?: Record<string, string> | undefined
+        rawResponse?: Readable | undefined
+      }
+    | undefined,
+): HttpResponse {
+  const { headers = { 'content-type': 'application/json' }, rawResponse } = {
+    __proto__: null,
+    ...options,
+  } as { headers?: Record<string, string>; rawResponse?: Readable }
+  const buffer = Buffer.from(body)
+  return {
+    arrayBuffer: () =>
+      buffer.buffer.slice(
+        buffer.byteOffset,
+        buffer.byteOffset + buffer.byteLength,
+      ) as ArrayBuffer,
+    body: buffer,
+    headers,
+    json: () => JSON.parse(body),
+    ok: status >= 200 && status < 300,
+    rawResponse: rawResponse as HttpResponse['rawResponse'],
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    text: () => body,
+  }
+}